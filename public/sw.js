@@ -0,0 +1,357 @@
+// Service worker: caches the app for offline use and shows push
+// notifications for new messages
+
+// Constants
+// Bump to drop every cache from older versions of this worker
+const CACHE_VERSION = "v2";
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `static-${CACHE_VERSION}`;
+const PAGE_CACHE = `pages-${CACHE_VERSION}`;
+const AVATAR_CACHE = `avatars-${CACHE_VERSION}`;
+const MEDIA_CACHE = `media-${CACHE_VERSION}`;
+const OFFLINE_PAGE = "/offline.html";
+// Pages the app needs to start offline. The scripts and styles each page
+// loads are found in its HTML and cached along with it.
+const SHELL_PAGES = ["/", "/me", "/login", "/search", "/settings"];
+// Files that only change along with this worker
+const SHELL_FILES = [
+  OFFLINE_PAGE,
+  "/manifest.json",
+  "/ping.mp3",
+  "/android/android-launchericon-192-192.png",
+  "/android/android-launchericon-96-96.png",
+];
+const STATIC_ASSET_PATTERN = /\/_next\/static\/[^"'\s\\)]+/g;
+const AVATAR_HOST = "lh3.googleusercontent.com";
+const MEDIA_HOST = "res.cloudinary.com";
+const CACHED_AT_HEADER = "x-pagecord-cached-at";
+const DAY = 24 * 60 * 60 * 1000;
+// Profile photos change now and then; uploaded media never does
+const AVATAR_MAX_AGE = 7 * DAY;
+const AVATAR_MAX_ENTRIES = 200;
+const MEDIA_MAX_AGE = 30 * DAY;
+const MEDIA_MAX_ENTRIES = 150;
+const PAGE_MAX_ENTRIES = 50;
+// Each deploy fingerprints its scripts and styles anew, so the oldest go
+// first once this many are kept
+const STATIC_MAX_ENTRIES = 200;
+// Set by the app in development, where files aren't fingerprinted
+const isCacheDisabled = new URL(self.location.href).searchParams.get("cache") === "off";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (isCacheDisabled ? Promise.resolve() : precacheShell()).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    deleteOldCaches()
+      .then(() => trimCache(STATIC_CACHE, STATIC_MAX_ENTRIES))
+      .then(() => deleteExpired(AVATAR_CACHE, AVATAR_MAX_AGE))
+      .then(() => deleteExpired(MEDIA_CACHE, MEDIA_MAX_AGE))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (isCacheDisabled || request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (url.origin === self.location.origin) {
+    if (request.mode === "navigate") {
+      event.respondWith(networkFirstPage(request));
+    } else if (url.pathname.startsWith("/_next/static/")) {
+      event.respondWith(cacheFirst(request, STATIC_CACHE, STATIC_MAX_ENTRIES));
+    } else if (SHELL_FILES.includes(url.pathname) && !url.search) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE));
+    }
+    // Everything else, like API routes and the page data Next.js fetches
+    // from page URLs, always goes to the network
+    return;
+  }
+
+  if (request.destination !== "image") return;
+
+  if (url.hostname === AVATAR_HOST) {
+    event.respondWith(
+      cachedImage(event, AVATAR_CACHE, AVATAR_MAX_AGE, AVATAR_MAX_ENTRIES, { revalidate: true })
+    );
+  } else if (url.hostname === MEDIA_HOST) {
+    event.respondWith(cachedImage(event, MEDIA_CACHE, MEDIA_MAX_AGE, MEDIA_MAX_ENTRIES));
+  }
+});
+
+// Payload from /api/push: { chatId, messageId, title, body, url }
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil(showMessageNotification(payload));
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(openChat(event.notification.data?.url ?? "/"));
+});
+
+// Sent on sign-out: { type: "clear-user-caches" }, answered on the
+// message's port once the caches are gone
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "clear-user-caches") return;
+
+  event.waitUntil(
+    clearUserCaches().finally(() => event.ports[0]?.postMessage({ type: "user-caches-cleared" }))
+  );
+});
+
+/**
+ * Caches the app shell pages along with the scripts and styles they load
+ */
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const assets = new Set();
+
+  await Promise.all(
+    [...SHELL_PAGES, ...SHELL_FILES].map(async (url) => {
+      const response = await fetch(url, { cache: "reload" });
+      if (!response.ok) throw new Error(`Precaching ${url} failed with ${response.status}`);
+
+      if (response.headers.get("content-type")?.includes("text/html")) {
+        const html = await response.clone().text();
+        html.match(STATIC_ASSET_PATTERN)?.forEach((asset) => assets.add(asset));
+      }
+
+      await cache.put(url, response);
+    })
+  );
+
+  await (await caches.open(STATIC_CACHE)).addAll([...assets]);
+}
+
+/**
+ * Deletes caches left by older versions of this worker
+ */
+async function deleteOldCaches() {
+  const current = [SHELL_CACHE, STATIC_CACHE, PAGE_CACHE, AVATAR_CACHE, MEDIA_CACHE];
+  const names = await caches.keys();
+
+  await Promise.all(
+    names.filter((name) => !current.includes(name)).map((name) => caches.delete(name))
+  );
+}
+
+/**
+ * Deletes the pages and images cached while someone was signed in. The
+ * shell is the same for everyone, so it stays.
+ */
+async function clearUserCaches() {
+  await Promise.all([PAGE_CACHE, AVATAR_CACHE, MEDIA_CACHE].map((name) => caches.delete(name)));
+}
+
+/**
+ * Loads a page from the network, keeping a copy for offline visits. Offline,
+ * it serves the copy from the last visit, or the offline page.
+ * @param {Request} request - Navigation request
+ * @returns {Promise<Response>}
+ */
+async function networkFirstPage(request) {
+  try {
+    const response = await fetch(request);
+    // Only plain page loads are kept; other variants of a URL aren't the
+    // page's HTML, or belong to one search
+    const isPlainPage = !new URL(request.url).search && !request.headers.has("RSC");
+
+    if (response.ok && response.type === "basic" && isPlainPage) {
+      const cache = await caches.open(PAGE_CACHE);
+      await cache.put(request.url, response.clone());
+      await trimCache(PAGE_CACHE, PAGE_MAX_ENTRIES);
+    }
+
+    return response;
+  } catch (error) {
+    // Pages render the same for any signed-in user, so copies are safe to
+    // share. The last visit's copy is newer than the one from install.
+    const pages = await caches.open(PAGE_CACHE);
+    const cached =
+      (await pages.match(request.url, { ignoreVary: true, ignoreSearch: true })) ??
+      (await caches.match(request.url, { ignoreVary: true })) ??
+      (await caches.match(OFFLINE_PAGE));
+
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Serves a file from the cache, fetching and caching it the first time.
+ * Only used for files whose URL changes whenever their content does.
+ * @param {Request} request - Request for the file
+ * @param {string} cacheName - Cache to keep it in
+ * @param {number} [maxEntries] - Files to keep before dropping the oldest
+ * @returns {Promise<Response>}
+ */
+async function cacheFirst(request, cacheName, maxEntries) {
+  const cached = await caches.match(request, { ignoreVary: true });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+    if (maxEntries) await trimCache(cacheName, maxEntries);
+  }
+
+  return response;
+}
+
+/**
+ * Serves an image from another site out of the cache while it is fresh.
+ * Stale or missing images are fetched again, falling back to a stale copy
+ * when offline.
+ * @param {FetchEvent} event - Fetch event for the image
+ * @param {string} cacheName - Cache to keep it in
+ * @param {number} maxAge - Milliseconds a cached copy stays fresh
+ * @param {number} maxEntries - Images to keep before dropping the oldest
+ * @param {{ revalidate?: boolean }} [options] - revalidate refreshes fresh
+ *   copies in the background too, for images that can change
+ * @returns {Promise<Response>}
+ */
+async function cachedImage(event, cacheName, maxAge, maxEntries, options = {}) {
+  const { request } = event;
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request.url);
+  const isFresh = !!cached && Date.now() - Number(cached.headers.get(CACHED_AT_HEADER)) < maxAge;
+
+  const refresh = async () => {
+    const response = await fetchImageForCache(request.url);
+    if (!response) return null;
+
+    await cache.put(request.url, response.clone());
+    await trimCache(cacheName, maxEntries);
+    return response;
+  };
+
+  if (isFresh) {
+    if (options.revalidate) event.waitUntil(refresh().catch(() => null));
+    return cached;
+  }
+
+  try {
+    // Sites that don't allow CORS get the browser's own request, uncached
+    return (await refresh()) ?? cached ?? (await fetch(request));
+  } catch (error) {
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/**
+ * Fetches an image so it can be cached. A plain <img> request gets an
+ * opaque response, which can't be checked and takes up a lot of storage,
+ * so the image is fetched again with CORS.
+ * @param {string} url - Image URL
+ * @returns {Promise<Response | null>} Response stamped with the time it was
+ *   cached, or null if the site refused
+ */
+async function fetchImageForCache(url) {
+  let response;
+  try {
+    response = await fetch(url, { mode: "cors", credentials: "omit" });
+  } catch {
+    // Either offline or no CORS; the caller tells them apart by trying again
+    return null;
+  }
+
+  if (!response.ok) return null;
+
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * Drops the oldest entries from a cache once it holds too many
+ * @param {string} cacheName - Cache to trim
+ * @param {number} maxEntries - Entries to keep
+ */
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+
+  // Keys come back in the order they were first added
+  await Promise.all(keys.slice(0, -maxEntries).map((key) => cache.delete(key)));
+}
+
+/**
+ * Drops cached images older than their max age
+ * @param {string} cacheName - Cache to clean
+ * @param {number} maxAge - Milliseconds an entry may be kept
+ */
+async function deleteExpired(cacheName, maxAge) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+
+  await Promise.all(
+    keys.map(async (key) => {
+      const response = await cache.match(key);
+      const cachedAt = Number(response?.headers.get(CACHED_AT_HEADER));
+      if (Date.now() - cachedAt > maxAge) await cache.delete(key);
+    })
+  );
+}
+
+/**
+ * Shows a notification for a pushed message, unless the user is already
+ * looking at that chat
+ * @param {{ chatId: string, title: string, body: string, url: string }} payload
+ */
+async function showMessageNotification(payload) {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  const isViewing = windows.some(
+    (client) => client.focused && new URL(client.url).pathname === payload.url
+  );
+  if (isViewing) return;
+
+  await self.registration.showNotification(payload.title, {
+    body: payload.body,
+    // One notification per chat, replaced by newer messages
+    tag: `chat:${payload.chatId}`,
+    renotify: true,
+    icon: "/android/android-launchericon-192-192.png",
+    badge: "/android/android-launchericon-96-96.png",
+    data: { url: payload.url },
+  });
+}
+
+/**
+ * Brings an open app window to the chat, or opens a new one
+ * @param {string} url - Path of the chat
+ */
+async function openChat(url) {
+  const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+  const client = windows.find((window) => new URL(window.url).origin === self.location.origin);
+
+  if (!client) {
+    await self.clients.openWindow(url);
+    return;
+  }
+
+  await client.focus();
+  // Windows opened before this worker took control can't be navigated
+  await client.navigate(url).catch(() => self.clients.openWindow(url));
+}
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import webpush from "web-push";
+
+import { createStubDevice, listStubPushes } from "@/lib/server/pushStub";
+import { POST } from "./route";
+import { POST as receiveStubPush } from "./stub/[deviceId]/route";
+
+type Caller = { uid: string; email: string };
+type Data = Record<string, unknown>;
+
+interface AdminSnapshot {
+  id: string;
+  ref: { delete: () => Promise<void> };
+  data: () => Data | undefined;
+}
+
+const ORIGIN = "http://localhost:3000";
+const VAPID = { subject: "mailto:push@pagecord.test", ...webpush.generateVAPIDKeys() };
+
+// Documents by path, read through the fake Admin Firestore below
+const documents = new Map<string, Data>();
+let caller: Caller | null = null;
+
+vi.mock("@/lib/server/firebaseAdmin", () => ({
+  getAdminApp: () => ({}),
+  verifyCaller: async () => caller,
+}));
+
+vi.mock("firebase-admin/firestore", () => ({
+  getFirestore: () => ({ collection: adminCollection }),
+}));
+
+/**
+ * Reads a document like the Admin SDK's DocumentReference
+ * @param path - Document path
+ * @returns Reference with the parts of the API the route uses
+ */
+function adminDoc(path: string) {
+  return {
+    id: path.split("/").pop() ?? "",
+    get: async () => snapshot(path),
+    collection: (name: string) => adminCollection(`${path}/${name}`),
+  };
+}
+
+/**
+ * Reads a collection like the Admin SDK's CollectionReference
+ * @param path - Collection path
+ * @returns Reference with the parts of the API the route uses
+ */
+function adminCollection(path: string) {
+  const children = () =>
+    [...documents.keys()]
+      .filter((key) => key.startsWith(`${path}/`) && !key.slice(path.length + 1).includes("/"))
+      .map(snapshot);
+
+  return {
+    doc: (id: string) => adminDoc(`${path}/${id}`),
+    get: async () => ({ docs: children() }),
+    where: (field: string, _op: "in", values: unknown[]) => ({
+      get: async () => ({ docs: children().filter((doc) => values.includes(doc.data()?.[field])) }),
+    }),
+  };
+}
+
+/**
+ * Builds a snapshot of a document
+ * @param path - Document path
+ * @returns Snapshot
+ */
+function snapshot(path: string): AdminSnapshot {
+  return {
+    id: path.split("/").pop() ?? "",
+    ref: { delete: async () => void documents.delete(path) },
+    data: () => documents.get(path),
+  };
+}
+
+/**
+ * Asks the route to push a message
+ * @param body - Request body
+ * @returns Response status and JSON
+ */
+async function requestPush(body: Data) {
+  const response = await POST(
+    new Request(`${ORIGIN}/api/push`, {
+      method: "POST",
+      headers: { authorization: "Bearer token" },
+      body: JSON.stringify(body),
+    })
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+/**
+ * Subscribes a stub device for a user and stores it where the route looks
+ * @param uid - Owner of the device
+ */
+function subscribe(uid: string) {
+  const subscription = createStubDevice(ORIGIN, uid);
+  documents.set(`users/${uid}/pushSubscriptions/${uid}-device`, { ...subscription });
+}
+
+beforeEach(() => {
+  vi.stubEnv("NEXT_PUBLIC_PUSH_STUB", "true");
+  vi.stubEnv("NEXT_PUBLIC_VAPID_PUBLIC_KEY", VAPID.publicKey);
+  vi.stubEnv("VAPID_PRIVATE_KEY", VAPID.privateKey);
+  vi.stubEnv("VAPID_SUBJECT", VAPID.subject);
+
+  // Pushes to the stub are answered by its route instead of the network
+  vi.stubGlobal("fetch", (url: string, init: RequestInit) =>
+    receiveStubPush(new Request(url, init), {
+      params: Promise.resolve({ deviceId: url.split("/").pop() ?? "" }),
+    })
+  );
+
+  documents.clear();
+  caller = { uid: "alice", email: "alice@pagecord.test" };
+
+  for (const uid of ["alice", "bob", "mallory"]) {
+    documents.set(`users/${uid}`, { uid, email: `${uid}@pagecord.test`, username: uid });
+  }
+  documents.set("chats/group", {
+    type: "group",
+    title: "Weekend plans",
+    members: ["alice@pagecord.test", "bob@pagecord.test"],
+    // Entries any member could have written
+    participants: {
+      alice: { username: "bank", email: "alice@pagecord.test", photoURL: "" },
+      mallory: { username: "mallory", email: "mallory@pagecord.test", photoURL: "" },
+    },
+  });
+  documents.set("chats/group/messages/m1", {
+    senderId: "alice",
+    text: "saturday?",
+    timestamp: { toMillis: () => Date.now() },
+  });
+});
+
+describe("POST /api/push", () => {
+  it("pushes to members only, under the sender's profile name", async () => {
+    subscribe("bob");
+    subscribe("mallory");
+
+    const result = await requestPush({ chatId: "group", messageId: "m1" });
+
+    expect(result).toEqual({ status: 200, body: { sent: 1, failed: 0, removed: 0 } });
+    expect(listStubPushes("bob")[0].payload).toEqual({
+      chatId: "group",
+      messageId: "m1",
+      title: "alice in Weekend plans",
+      body: "saturday?",
+      url: "/chat/group",
+    });
+    expect(listStubPushes("mallory")).toEqual([]);
+  });
+
+  it("rejects callers who aren't members", async () => {
+    caller = { uid: "mallory", email: "mallory@pagecord.test" };
+    documents.set("chats/group/messages/m2", {
+      senderId: "mallory",
+      text: "hi",
+      timestamp: { toMillis: () => Date.now() },
+    });
+
+    expect((await requestPush({ chatId: "group", messageId: "m2" })).status).toBe(403);
+  });
+
+  it("skips members who muted the chat unless they're mentioned", async () => {
+    subscribe("bob");
+    documents.set("users/bob", { ...documents.get("users/bob"), mutedChats: ["group"] });
+
+    expect((await requestPush({ chatId: "group", messageId: "m1" })).body.sent).toBe(0);
+
+    documents.set("chats/group/messages/m1", {
+      ...documents.get("chats/group/messages/m1"),
+      mentionedUids: ["bob"],
+    });
+    expect((await requestPush({ chatId: "group", messageId: "m1" })).body.sent).toBe(1);
+  });
+});
@@ -0,0 +1,313 @@
+import { NextResponse } from "next/server";
+import { getFirestore, type Firestore, type Timestamp } from "firebase-admin/firestore";
+import webpush, { WebPushError, type RequestOptions } from "web-push";
+
+import type { ChatData, MessageData, PushSubscriptionData } from "@/lib/backend";
+import { getMessagePreview } from "@/lib/backend/preview";
+import type { ApiErrorCode } from "@/lib/result";
+import { getAdminApp, verifyCaller } from "@/lib/server/firebaseAdmin";
+import { isPushStubEnabled, isStubEndpoint } from "@/lib/server/pushStub";
+
+// Types
+// The fields of a chat and message the route reads, as the Admin SDK
+// returns them
+type PushChat = Pick<ChatData, "type" | "title" | "members">;
+
+type PushMessage = Pick<MessageData, "senderId" | "text" | "mediaUrl" | "mentionedUids"> & {
+  timestamp?: Timestamp;
+};
+
+interface PushUser {
+  username?: string;
+  mutedChats?: string[];
+}
+
+interface VapidDetails {
+  subject: string; // mailto: or https: contact for the push service
+  publicKey: string;
+  privateKey: string;
+}
+
+// What the service worker gets in each push
+interface PushPayload {
+  chatId: string;
+  messageId: string;
+  title: string;
+  body: string;
+  url: string;
+}
+
+interface DeliveryCounts {
+  sent: number;
+  failed: number;
+  removed: number; // Subscriptions the push service said are gone
+}
+
+// Constants
+// Only fresh messages can be pushed, so a member can't replay old ones
+const MAX_MESSAGE_AGE = 2 * 60 * 1000;
+const PUSH_TTL = 24 * 60 * 60;
+const MAX_TOPIC_LENGTH = 32;
+// Most values an "in" query takes
+const MAX_IN_VALUES = 30;
+// Stored endpoints are only ever sent to real push services, so a
+// subscription can't point this server at anything else
+const PUSH_SERVICE_HOST_PATTERN =
+  /(^|\.)(fcm\.googleapis\.com|push\.services\.mozilla\.com|notify\.windows\.com|push\.apple\.com)$/;
+
+/**
+ * Pushes a message the caller just sent to the other members' devices.
+ * Members who muted the chat only get pushes for messages that mention
+ * them. Body: { chatId, messageId, threadId? }, threadId being the root
+ * of the thread for thread replies, with the caller's Firebase ID token
+ * as a bearer token.
+ */
+export async function POST(request: Request) {
+  const app = getAdminApp();
+  const vapid = getVapidDetails();
+
+  if (!app || !vapid) {
+    return errorResponse("push-not-configured", 503);
+  }
+
+  const caller = await verifyCaller(app, request);
+
+  if (!caller) {
+    return errorResponse("not-signed-in", 401);
+  }
+
+  const { chatId, messageId, threadId = null } = await request.json().catch(() => ({}));
+
+  if (
+    typeof chatId !== "string" ||
+    typeof messageId !== "string" ||
+    !chatId ||
+    !messageId ||
+    (threadId !== null && (typeof threadId !== "string" || !threadId))
+  ) {
+    return errorResponse("invalid-argument", 400);
+  }
+
+  try {
+    const db = getFirestore(app);
+    const chatRef = db.collection("chats").doc(chatId);
+    const messageRef = threadId
+      ? chatRef.collection("messages").doc(threadId).collection("thread").doc(messageId)
+      : chatRef.collection("messages").doc(messageId);
+    const [chatSnapshot, messageSnapshot] = await Promise.all([chatRef.get(), messageRef.get()]);
+    const chat = chatSnapshot.data() as PushChat | undefined;
+    const message = messageSnapshot.data() as PushMessage | undefined;
+
+    if (!chat || !message) {
+      return errorResponse("not-found", 404);
+    }
+
+    // Members can edit participants, so who gets the push and under what
+    // name comes from members and the profiles instead
+    const members = chat.members ?? [];
+    const sentAt = message.timestamp?.toMillis() ?? 0;
+
+    if (message.senderId !== caller.uid || !caller.email || !members.includes(caller.email)) {
+      return errorResponse("permission-denied", 403);
+    }
+
+    if (Date.now() - sentAt > MAX_MESSAGE_AGE) {
+      return errorResponse("invalid-argument", 400);
+    }
+
+    const [senderSnapshot, recipients] = await Promise.all([
+      db.collection("users").doc(caller.uid).get(),
+      getMemberProfiles(db, members.filter((email) => email !== caller.email)),
+    ]);
+    const senderName = (senderSnapshot.data() as PushUser | undefined)?.username || "Someone";
+    const payload: PushPayload = {
+      chatId,
+      messageId,
+      title:
+        chat.type === "group"
+          ? `${senderName} in ${chat.title || "Untitled group"}`
+          : senderName,
+      body: getMessagePreview({ text: message.text ?? "", mediaUrl: message.mediaUrl }),
+      // Thread replies open in their thread, like search results do
+      url: threadId ? `/chat/${chatId}?message=${threadId}&thread=1` : `/chat/${chatId}`,
+    };
+    const origin = new URL(request.url).origin;
+
+    const counts = await Promise.all(
+      [...recipients]
+        .filter(([uid]) => uid !== caller.uid)
+        .map(async ([uid, user]) => {
+          const isMuted = !!user.mutedChats?.includes(chatId);
+          const isMentioned = !!message.mentionedUids?.includes(uid);
+
+          return isMuted && !isMentioned
+            ? { sent: 0, failed: 0, removed: 0 }
+            : pushToUser(db, vapid, uid, payload, origin);
+        })
+    );
+
+    return NextResponse.json(
+      counts.reduce(
+        (total, count) => ({
+          sent: total.sent + count.sent,
+          failed: total.failed + count.failed,
+          removed: total.removed + count.removed,
+        }),
+        { sent: 0, failed: 0, removed: 0 }
+      )
+    );
+  } catch (error) {
+    console.error("Error sending pushes:", error);
+    return errorResponse("unknown", 500);
+  }
+}
+
+/**
+ * Looks up the profiles of a chat's members
+ * @param db - Admin Firestore to read profiles from
+ * @param emails - Emails of the members
+ * @returns Profiles by uid; members without a profile are left out
+ */
+async function getMemberProfiles(db: Firestore, emails: string[]): Promise<Map<string, PushUser>> {
+  const profiles = new Map<string, PushUser>();
+
+  for (let start = 0; start < emails.length; start += MAX_IN_VALUES) {
+    const snapshot = await db
+      .collection("users")
+      .where("email", "in", emails.slice(start, start + MAX_IN_VALUES))
+      .get();
+
+    for (const user of snapshot.docs) {
+      profiles.set(user.id, user.data() as PushUser);
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Sends a push to every device a user subscribed, deleting subscriptions
+ * the push service no longer knows
+ * @param db - Admin Firestore to read subscriptions from
+ * @param vapid - App's VAPID keys
+ * @param uid - Recipient's uid
+ * @param payload - Push for the service worker
+ * @param origin - Origin this server is reached at
+ * @returns How many pushes were sent, failed or found expired
+ */
+async function pushToUser(
+  db: Firestore,
+  vapid: VapidDetails,
+  uid: string,
+  payload: PushPayload,
+  origin: string
+): Promise<DeliveryCounts> {
+  const counts: DeliveryCounts = { sent: 0, failed: 0, removed: 0 };
+  const devices = await db.collection("users").doc(uid).collection("pushSubscriptions").get();
+
+  await Promise.all(
+    devices.docs.map(async (device) => {
+      const { endpoint, keys } = device.data() as PushSubscriptionData;
+
+      if (!isDeliverable(endpoint, origin)) {
+        counts.failed++;
+        return;
+      }
+
+      try {
+        const status = await deliver({ endpoint, keys }, JSON.stringify(payload), origin, {
+          vapidDetails: vapid,
+          TTL: PUSH_TTL,
+          urgency: "high",
+          // An offline device only gets the latest push for each chat
+          topic: payload.chatId.replace(/[^\w-]/g, "").slice(0, MAX_TOPIC_LENGTH),
+        });
+
+        if (status === 404 || status === 410) {
+          await device.ref.delete();
+          counts.removed++;
+        } else if (status >= 200 && status < 300) {
+          counts.sent++;
+        } else {
+          console.error(`Push service answered ${status} for ${uid}/${device.id}`);
+          counts.failed++;
+        }
+      } catch (error) {
+        console.error("Error sending push:", error);
+        counts.failed++;
+      }
+    })
+  );
+
+  return counts;
+}
+
+/**
+ * Encrypts and sends one push
+ * @param subscription - Subscription the browser gave the device
+ * @param payload - JSON for the service worker
+ * @param origin - Origin this server is reached at
+ * @param options - VAPID keys and delivery options
+ * @returns Status the push service answered with
+ */
+async function deliver(
+  subscription: PushSubscriptionData,
+  payload: string,
+  origin: string,
+  options: RequestOptions
+): Promise<number> {
+  // web-push only sends over https, so pushes to the local stub are
+  // built by it but sent here
+  if (isPushStubEnabled() && isStubEndpoint(subscription.endpoint, origin)) {
+    const { endpoint, method, headers, body } = webpush.generateRequestDetails(
+      subscription,
+      payload,
+      options
+    );
+    const response = await fetch(endpoint, { method, headers, body: new Uint8Array(body) });
+    return response.status;
+  }
+
+  try {
+    return (await webpush.sendNotification(subscription, payload, options)).statusCode;
+  } catch (error) {
+    if (error instanceof WebPushError) return error.statusCode;
+    throw error;
+  }
+}
+
+/**
+ * Reads the VAPID keys the app signs pushes with
+ * @returns Keys, or null if push isn't configured
+ */
+function getVapidDetails(): VapidDetails | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+
+  return publicKey && privateKey && subject ? { subject, publicKey, privateKey } : null;
+}
+
+/**
+ * Checks that a stored endpoint is one the server may send to
+ * @param endpoint - Subscription endpoint
+ * @param origin - Origin this server is reached at
+ * @returns True for push services, and for the stub when it is on
+ */
+function isDeliverable(endpoint: unknown, origin: string): boolean {
+  if (typeof endpoint !== "string" || !URL.canParse(endpoint)) return false;
+  if (isPushStubEnabled() && isStubEndpoint(endpoint, origin)) return true;
+
+  const url = new URL(endpoint);
+  return url.protocol === "https:" && PUSH_SERVICE_HOST_PATTERN.test(url.hostname);
+}
+
+/**
+ * Builds an error response the client can map like any other API error
+ * @param code - What went wrong
+ * @param status - HTTP status
+ * @returns JSON response
+ */
+function errorResponse(code: ApiErrorCode, status: number): NextResponse {
+  return NextResponse.json({ error: { code } }, { status });
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { getAdminApp, verifyCaller } from "@/lib/server/firebaseAdmin";
+import { isPushStubEnabled, receiveStubPush, removeStubDevice } from "@/lib/server/pushStub";
+
+// Types
+interface StubDeviceContext {
+  params: Promise<{ deviceId: string }>;
+}
+
+/**
+ * Receives a push for a stub device, answering like a push service
+ */
+export async function POST(request: Request, { params }: StubDeviceContext) {
+  if (!isPushStubEnabled()) {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  const { deviceId } = await params;
+  const body = Buffer.from(await request.arrayBuffer());
+
+  return new NextResponse(null, { status: await receiveStubPush(deviceId, request.headers, body) });
+}
+
+/**
+ * Drops one of the caller's stub devices, the way a browser drops a
+ * subscription when the user blocks notifications
+ */
+export async function DELETE(request: Request, { params }: StubDeviceContext) {
+  if (!isPushStubEnabled()) {
+    return new NextResponse(null, { status: 404 });
+  }
+
+  const app = getAdminApp();
+  const caller = app ? await verifyCaller(app, request) : null;
+
+  if (!caller) {
+    return new NextResponse(null, { status: 401 });
+  }
+
+  const { deviceId } = await params;
+  return new NextResponse(null, { status: removeStubDevice(deviceId, caller.uid) ? 204 : 404 });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+
+import { getAdminApp, verifyCaller } from "@/lib/server/firebaseAdmin";
+import { createStubDevice, isPushStubEnabled, listStubPushes } from "@/lib/server/pushStub";
+
+/**
+ * Lists the pushes the stub push service received for the caller's
+ * devices, decrypted, so local delivery can be checked without a real
+ * browser push service. Needs the caller's Firebase ID token as a bearer
+ * token.
+ */
+export async function GET(request: Request) {
+  if (!isPushStubEnabled()) {
+    return NextResponse.json({ error: { code: "not-found" } }, { status: 404 });
+  }
+
+  const app = getAdminApp();
+  const caller = app ? await verifyCaller(app, request) : null;
+
+  if (!caller) {
+    return NextResponse.json({ error: { code: "not-signed-in" } }, { status: 401 });
+  }
+
+  return NextResponse.json({ pushes: listStubPushes(caller.uid) });
+}
+
+/**
+ * Subscribes a pretend device for the caller to the stub push service.
+ * The app stores the returned subscription like one from
+ * PushManager.subscribe().
+ */
+export async function POST(request: Request) {
+  if (!isPushStubEnabled()) {
+    return NextResponse.json({ error: { code: "not-found" } }, { status: 404 });
+  }
+
+  const app = getAdminApp();
+  const caller = app ? await verifyCaller(app, request) : null;
+
+  if (!caller) {
+    return NextResponse.json({ error: { code: "not-signed-in" } }, { status: 401 });
+  }
+
+  return NextResponse.json(createStubDevice(new URL(request.url).origin, caller.uid), {
+    status: 201,
+  });
+}
@@ -1,28 +1,79 @@
 "use client";
 
-import React, { useEffect, useState, useRef, useCallback } from "react";
-import { useParams, useRouter } from "next/navigation";
+import React, {
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useState,
+  useRef,
+  useCallback,
+} from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { onAuthStateChanged } from "firebase/auth";
-import {
-  deleteDoc,
-  doc,
-  onSnapshot,
-  serverTimestamp,
-  setDoc,
-  updateDoc,
-} from "firebase/firestore";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
-import { auth, db } from "@/lib/firebase";
 import {
+  onSessionChanged,
+  getUserProfile,
   subscribeToMessages,
+  loadOlderMessages,
   sendMessage,
+  subscribeToThread,
+  loadOlderThreadMessages,
+  getMessage,
+  getMessageSnippet,
   uploadToCloudinary,
   sendFile,
-  getOtherUser,
+  getOtherMember,
+  subscribeToChat,
+  addGroupMembers,
+  removeGroupMember,
+  updateGroupInfo,
+  resolveMessageSender,
+  isMessageFromUser,
+  editMessage,
+  isEditWindowOpen,
+  getMessageHistory,
+  deleteMessage,
+  restoreMessage,
+  canDeleteMessage,
+  purgeDeletedMessages,
+  addReaction,
+  removeReaction,
+  summarizeReactions,
+  pinMessage,
+  unpinMessage,
+  subscribeToPinnedMessages,
+  markChatRead,
+  getReadMarker,
+  findFirstUnreadMessage,
+  getMessageReceipt,
+  describeTyping,
+  getMentionSuggestions,
+  isMentioned,
+  setChatMuted,
+  type MessageCursor,
 } from "@/lib/api";
+import {
+  subscribeToOutbox,
+  enqueueMessage,
+  retryMessage,
+  discardMessage,
+} from "@/lib/outbox";
+import type { Result } from "@/lib/result";
+import { subscribeToUserProfiles } from "@/lib/userDirectory";
+import { useTypingMembers, useTypingNotifier } from "@/hooks/useTyping";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { usePresence } from "@/hooks/usePresence";
+import { describePresence } from "@/lib/presence";
+import { getMentionQuery, insertMention, remarkMentions } from "@/lib/mentions";
+import type { MentionQuery } from "@/lib/mentions";
+import type { SearchResult } from "@/lib/search";
+import type { UserPresence } from "@/lib/presence";
+import { describeError, useToast } from "@/components/Toaster";
+import { PresenceDot } from "@/components/PresenceDot";
+import { SearchResultList } from "@/components/SearchResultList";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
@@ -42,118 +93,386 @@ import {
   Pin,
   PlusCircle,
   ArrowBigLeft,
+  Users,
+  LogOut,
+  Clock,
+  AlertCircle,
+  RotateCcw,
+  History,
+  SmilePlus,
+  Reply,
+  MessageSquare,
+  CheckCheck,
+  Bell,
+  BellOff,
+  Search,
 } from "lucide-react";
 
 // Types
 interface UserProfile {
+  uid: string;
   username: string;
   photoURL: string;
   email: string;
+  privacy?: { readReceipts?: boolean };
+  mutedChats?: string[];
 }
 
 interface Message {
   id: string;
-  senderName: string;
-  senderPhoto: string;
+  senderId?: string;
+  senderName?: string;
+  senderPhoto?: string;
   text: string;
   timestamp: any;
   isEdited?: boolean;
+  editedAt?: any;
+  revisionCount?: number;
   mediaUrl?: string;
   mediaId?: string;
+  reactions?: Record<string, string[]>;
+  replyTo?: string;
+  mentions?: MessageMention[];
+  mentionedUids?: string[];
+  threadReplyCount?: number;
+  lastThreadReplyAt?: any;
+  deletedAt?: any;
+  deletedBy?: string;
+  status?: "sending" | "failed"; // Only set while the message is in the outbox
 }
 
-interface PinnedMessage {
+interface MessageMention {
+  uid: string;
+  username: string;
+}
+
+interface MentionSuggestion {
+  uid: string;
+  username: string;
+  photoURL: string;
+  isMember: boolean;
+}
+
+interface ChatMember {
+  uid: string;
+  username: string;
+  email: string;
+  photoURL: string;
+}
+
+interface ChatDetails {
   id: string;
-  senderName: string;
-  senderPhoto: string;
+  type: "direct" | "group";
+  title: string;
+  photoURL: string;
+  ownerEmail: string;
+  editWindowMinutes: number | null;
+  members: ChatMember[];
+  deliveredTo: Record<string, ReceiptMarker>;
+  readBy: Record<string, ReceiptMarker>;
+  typing: TypingMember[];
+}
+
+interface TypingMember {
+  uid: string;
+  username: string;
+  expiresAt: number;
+}
+
+interface ReceiptMarker {
+  messageId: string;
+  timestamp: any;
+}
+
+interface MessageReceipt {
+  status: "sent" | "delivered" | "seen";
+  seenBy: string[];
+}
+
+interface MessageSender {
+  uid: string | null;
+  name: string;
+  photo: string;
+}
+
+interface SenderProfile {
+  username: string;
+  photoURL: string;
+}
+
+interface MessageVersion {
   text: string;
   timestamp: any;
+  editedBy: string | null;
+}
+
+interface ReactionSummary {
+  emoji: string;
+  userIds: string[];
+  hasReacted: boolean;
+}
+
+interface PinnedMessage {
+  messageId: string;
+  pinnedBy: string;
+  pinnedAt: any;
+  message: Message | null;
 }
 
 // Constants
 const NOTIFICATION_SOUND_PATH = "/ping.mp3";
 const MAX_IMAGE_WIDTH = "50vw";
 const SCROLL_DELAY = 100;
+const HISTORY_LOAD_THRESHOLD = 80;
+const BOTTOM_THRESHOLD = 80; // How close to the bottom still counts as caught up
+const HIGHLIGHT_DURATION = 2000;
+const MENTION_SEARCH_DELAY = 150;
+const NO_MEMBERS: ChatMember[] = []; // Stable fallback while the chat loads
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+const EDIT_WINDOW_OPTIONS = [
+  { label: "No limit", minutes: null },
+  { label: "5 minutes", minutes: 5 },
+  { label: "15 minutes", minutes: 15 },
+  { label: "1 hour", minutes: 60 },
+  { label: "1 day", minutes: 24 * 60 },
+];
 
 export default function ChatInterface() {
   const router = useRouter();
   const params = useParams();
   const chatId = params.chatId as string;
+  const searchParams = useSearchParams();
+  const linkedMessageId = searchParams.get("message"); // Set when opened from search
+  const isLinkedThread = searchParams.has("thread"); // The match is a reply in its thread
+  const toast = useToast();
 
   // Refs
   const scrollRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const scrollHeightBeforeLoadRef = useRef<number | null>(null);
+  const isAtBottomRef = useRef(true); // isAtBottom for the subscriptions below
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const prevMessageCountRef = useRef(0);
+  const jumpedToLinkRef = useRef<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // State
   const [currentUser, setCurrentUser] = useState<UserProfile | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [olderMessages, setOlderMessages] = useState<Message[]>([]);
+  const [pendingMessages, setPendingMessages] = useState<Message[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<MessageCursor | null>(null);
+  const [isMessagesLoaded, setIsMessagesLoaded] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [senderProfiles, setSenderProfiles] = useState<Record<string, SenderProfile>>({});
   const [messageInput, setMessageInput] = useState("");
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [editText, setEditText] = useState("");
-  const [pinnedMessage, setPinnedMessage] = useState<PinnedMessage | null>(null);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [pinnedMessages, setPinnedMessages] = useState<PinnedMessage[]>([]);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [quotedMessages, setQuotedMessages] = useState<Record<string, Message | null>>({});
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [chat, setChat] = useState<ChatDetails | null>(null);
   const [isWindowFocused, setIsWindowFocused] = useState(true);
+  const [isPageVisible, setIsPageVisible] = useState(true);
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const [unreadMarker, setUnreadMarker] = useState<ReceiptMarker | null | undefined>(undefined);
   const [isUploading, setIsUploading] = useState(false);
 
   // Auth state management
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
-      if (!firebaseUser) {
+    const unsubscribe = onSessionChanged(async (account) => {
+      if (!account) {
         router.push("/login");
         return;
       }
 
-      try {
-        const userDocRef = doc(db, "users", firebaseUser.uid);
-        const userDocSnap = await import("firebase/firestore").then(({ getDoc }) =>
-          getDoc(userDocRef)
-        );
+      const result = await getUserProfile(account.uid);
 
-        if (userDocSnap.exists()) {
-          const userData = userDocSnap.data() as UserProfile;
-          setCurrentUser(userData);
-        } else {
-          console.error("User profile not found in Firestore");
-        }
-      } catch (error) {
-        console.error("Error fetching user profile:", error);
+      if (result.ok) {
+        setCurrentUser(result.data);
+      } else {
+        toast.error(result.error);
       }
     });
 
     return unsubscribe;
-  }, [router]);
+  }, [router, toast]);
 
   // Messages subscription
   useEffect(() => {
     if (!chatId) return;
 
-    const unsubscribe = subscribeToMessages(chatId, (newMessages) => {
+    let isFirstSnapshot = true;
+    let latestMessageId: string | undefined;
+    setOlderMessages([]);
+    setHistoryCursor(null);
+    setIsMessagesLoaded(false);
+    setReplyingTo(null);
+    setQuotedMessages({});
+    setThreadRootId(null);
+
+    const unsubscribe = subscribeToMessages(chatId, (newMessages, cursor) => {
+      const newLatestMessageId = newMessages[newMessages.length - 1]?.id;
+      // Edits, reactions and receipts leave the scroll position alone, and a
+      // new message only scrolls a reader who is already at the bottom
+      const shouldScroll =
+        isFirstSnapshot || (newLatestMessageId !== latestMessageId && isAtBottomRef.current);
+      latestMessageId = newLatestMessageId;
+
+      if (isFirstSnapshot) {
+        isFirstSnapshot = false;
+        setHistoryCursor(cursor);
+        setIsMessagesLoaded(true);
+      }
+
       setMessages(newMessages);
-      setTimeout(() => {
-        scrollRef.current?.scrollIntoView({ behavior: "smooth" });
-      }, SCROLL_DELAY);
+      if (shouldScroll) {
+        setTimeout(() => {
+          scrollRef.current?.scrollIntoView({ behavior: "smooth" });
+        }, SCROLL_DELAY);
+      }
     });
 
     return unsubscribe;
   }, [chatId]);
 
-  // Pinned message subscription
+  // Clear out the content of messages deleted past the retention period
   useEffect(() => {
     if (!chatId) return;
 
-    const pinnedMessageRef = doc(db, "chats", chatId, "pinnedMessage", "current");
-    const unsubscribe = onSnapshot(pinnedMessageRef, (docSnap) => {
-      if (docSnap.exists()) {
-        setPinnedMessage({ id: docSnap.id, ...docSnap.data() } as PinnedMessage);
-      } else {
-        setPinnedMessage(null);
+    purgeDeletedMessages(chatId);
+  }, [chatId]);
+
+  // Unsent messages from the outbox
+  useEffect(() => {
+    if (!chatId) return;
+
+    let pendingCount = 0;
+
+    const unsubscribe = subscribeToOutbox(chatId, (newPendingMessages) => {
+      // Only the user's own sends land here, so a new one always scrolls
+      const hasNewMessage = newPendingMessages.length > pendingCount;
+      pendingCount = newPendingMessages.length;
+
+      setPendingMessages(newPendingMessages);
+      if (hasNewMessage) {
+        setTimeout(() => {
+          scrollRef.current?.scrollIntoView({ behavior: "smooth" });
+        }, SCROLL_DELAY);
       }
     });
 
     return unsubscribe;
   }, [chatId]);
 
+  // Keep the scroll position in place when older messages are prepended
+  useLayoutEffect(() => {
+    const viewport = viewportRef.current;
+    const previousScrollHeight = scrollHeightBeforeLoadRef.current;
+    if (!viewport || previousScrollHeight === null) return;
+
+    viewport.scrollTop += viewport.scrollHeight - previousScrollHeight;
+    scrollHeightBeforeLoadRef.current = null;
+  }, [olderMessages]);
+
+  // Live profiles of everyone who sent a loaded message
+  const allMessages = [...olderMessages, ...messages];
+
+  // Pending messages go after everything the server has confirmed. Once a
+  // send lands, its message arrives under the same ID and replaces it.
+  const confirmedIds = new Set(allMessages.map((message) => message.id));
+  const displayedMessages = [
+    ...allMessages,
+    ...pendingMessages.filter((message) => !confirmedIds.has(message.id)),
+  ];
+
+  // Replies quote messages that may not be loaded yet; those are fetched once
+  const messagesById = new Map(displayedMessages.map((message) => [message.id, message]));
+  const getQuotedMessage = (messageId: string) =>
+    messagesById.get(messageId) ?? quotedMessages[messageId];
+
+  const missingQuotedIdsKey = Array.from(
+    new Set(
+      displayedMessages
+        .map((message) => message.replyTo)
+        .filter(
+          (messageId): messageId is string =>
+            !!messageId && getQuotedMessage(messageId) === undefined
+        )
+    )
+  )
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    if (!missingQuotedIdsKey) return;
+
+    missingQuotedIdsKey.split(",").forEach(async (messageId) => {
+      const result = await getMessage(chatId, messageId);
+      setQuotedMessages((previous) => ({
+        ...previous,
+        [messageId]: result.ok ? result.data : null,
+      }));
+    });
+  }, [chatId, missingQuotedIdsKey]);
+
+  const senderIdsKey = Array.from(
+    new Set(
+      [
+        ...allMessages.flatMap((message) => [
+          message.senderId,
+          ...Object.values(message.reactions ?? {}).flat(),
+        ]),
+        ...Object.values(quotedMessages).map((message) => message?.senderId),
+        ...(chat?.members.map((member) => member.uid) ?? []),
+        ...pinnedMessages.flatMap((pin) => [pin.pinnedBy, pin.message?.senderId]),
+      ].filter(Boolean)
+    )
+  )
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    if (!senderIdsKey) return;
+
+    const unsubscribe = subscribeToUserProfiles(senderIdsKey.split(","), setSenderProfiles);
+
+    return unsubscribe;
+  }, [senderIdsKey]);
+
+  // Chat metadata subscription
+  useEffect(() => {
+    if (!chatId) return;
+
+    const unsubscribe = subscribeToChat(chatId, setChat);
+
+    return unsubscribe;
+  }, [chatId]);
+
+  // Pinned messages subscription
+  useEffect(() => {
+    if (!chatId) return;
+
+    const unsubscribe = subscribeToPinnedMessages(chatId, setPinnedMessages);
+
+    return unsubscribe;
+  }, [chatId]);
+
+  // Scroll to a jumped-to message and highlight it for a moment
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    document
+      .getElementById(`message-${highlightedMessageId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+
+    const timeout = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
   // Window focus tracking
   useEffect(() => {
     audioRef.current = new Audio(NOTIFICATION_SOUND_PATH);
@@ -170,6 +489,57 @@ export default function ChatInterface() {
     };
   }, []);
 
+  // Page visibility tracking
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      setIsPageVisible(document.visibilityState === "visible");
+    };
+
+    handleVisibilityChange();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, []);
+
+  // Remember where the user left off, for the new messages divider,
+  // before this visit marks the chat as read
+  const currentUserId = currentUser?.uid;
+
+  useEffect(() => {
+    if (!chatId || !currentUserId) return;
+
+    let isCancelled = false;
+    setUnreadMarker(undefined);
+
+    getReadMarker(currentUserId, chatId).then((result) => {
+      if (!isCancelled) setUnreadMarker(result.ok ? result.data : null);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [chatId, currentUserId]);
+
+  // Mark the chat as read while the newest message is on screen
+  const latestMessage = messages[messages.length - 1];
+  const isUnreadMarkerLoaded = unreadMarker !== undefined;
+
+  useEffect(() => {
+    if (!currentUser || !latestMessage || !isUnreadMarkerLoaded) return;
+    if (!isPageVisible || !isAtBottom) return;
+
+    markChatRead(chatId, currentUser, latestMessage);
+  }, [chatId, currentUser, latestMessage, isUnreadMarkerLoaded, isPageVisible, isAtBottom]);
+
+  const typingMembers = useTypingMembers(chat?.typing, currentUser?.uid);
+  const [memberPresence, presenceNow] = usePresence(
+    (chat?.members ?? [])
+      .map((member) => member.uid)
+      .filter((uid) => uid !== currentUser?.uid)
+  );
+
   // Notification sound for new messages
   useEffect(() => {
     if (messages.length <= prevMessageCountRef.current) {
@@ -178,68 +548,128 @@ export default function ChatInterface() {
     }
 
     const lastMessage = messages[messages.length - 1];
-    const isOwnMessage = lastMessage.senderName === currentUser?.username;
+    const isOwnMessage =
+      !!currentUser && isMessageFromUser(lastMessage, currentUser.uid, currentUser.username);
+    // Muted chats stay quiet unless the message mentions the user
+    const isQuiet =
+      !!currentUser?.mutedChats?.includes(chatId) && !isMentioned(lastMessage, currentUser.uid);
 
-    if (!isWindowFocused && !isOwnMessage) {
+    if (!isWindowFocused && !isOwnMessage && !isQuiet) {
       audioRef.current
         ?.play()
         .catch((err) => console.log("Audio playback blocked:", err));
     }
 
     prevMessageCountRef.current = messages.length;
-  }, [messages, isWindowFocused, currentUser?.username]);
+  }, [messages, isWindowFocused, currentUser, chatId]);
 
   // Handlers
   const handleSendMessage = useCallback(
-    async (e: React.FormEvent) => {
+    (e: React.FormEvent) => {
       e.preventDefault();
-      
+
       if (!messageInput.trim() || !currentUser) return;
 
-      const messageText = messageInput;
+      // The outbox shows the message right away and keeps retrying it
+      enqueueMessage(chatId, currentUser.uid, messageInput, replyingTo?.id);
       setMessageInput("");
+      setReplyingTo(null);
+    },
+    [chatId, messageInput, currentUser, replyingTo]
+  );
+
+  const handleCancelReply = useCallback(() => {
+    setReplyingTo(null);
+  }, []);
+
+  const handleCloseThread = useCallback(() => {
+    setThreadRootId(null);
+  }, []);
+
+  const handleRetryMessage = useCallback((messageId: string) => {
+    retryMessage(messageId);
+  }, []);
 
-      try {
-        await sendMessage(chatId, messageText, {
-          name: currentUser.username,
-          photo: currentUser.photoURL,
-        });
-      } catch (error) {
-        console.error("Error sending message:", error);
-        // Restore message on error
-        setMessageInput(messageText);
+  const handleDiscardMessage = useCallback((messageId: string) => {
+    discardMessage(messageId);
+  }, []);
+
+  const handleLoadOlderMessages = useCallback(async () => {
+    if (!historyCursor || isLoadingHistory) return;
+
+    setIsLoadingHistory(true);
+
+    const result = await loadOlderMessages(chatId, historyCursor);
+
+    if (result.ok) {
+      scrollHeightBeforeLoadRef.current = viewportRef.current?.scrollHeight ?? null;
+      setOlderMessages((previous) => [...result.data.messages, ...previous]);
+      setHistoryCursor(result.data.cursor);
+    } else {
+      toast.error(result.error);
+    }
+
+    setIsLoadingHistory(false);
+  }, [chatId, historyCursor, isLoadingHistory, toast]);
+
+  const handleViewportScroll = useCallback(
+    (e: React.UIEvent<HTMLDivElement>) => {
+      const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+
+      const isNearBottom = scrollHeight - scrollTop - clientHeight < BOTTOM_THRESHOLD;
+      isAtBottomRef.current = isNearBottom;
+      setIsAtBottom(isNearBottom);
+
+      if (scrollTop < HISTORY_LOAD_THRESHOLD) {
+        handleLoadOlderMessages();
       }
     },
-    [chatId, messageInput, currentUser]
+    [handleLoadOlderMessages]
   );
 
   const handleDeleteMessage = useCallback(
     async (messageId: string) => {
-      try {
-        const messageRef = doc(db, "chats", chatId, "messages", messageId);
-        await deleteDoc(messageRef);
-      } catch (error) {
-        console.error("Error deleting message:", error);
+      if (!currentUser) return;
+
+      const result = await deleteMessage(chatId, messageId, currentUser);
+
+      if (!result.ok) {
+        toast.error(result.error);
+        return;
       }
+
+      toast.success("Message deleted", {
+        label: "Undo",
+        onClick: async () => {
+          const restored = await restoreMessage(chatId, messageId, currentUser.uid);
+          if (!restored.ok) toast.error(restored.error);
+        },
+      });
     },
-    [chatId]
+    [chatId, currentUser, toast]
+  );
+
+  const handleToggleReaction = useCallback(
+    async (messageId: string, emoji: string, hasReacted: boolean) => {
+      if (!currentUser) return;
+
+      const result = hasReacted
+        ? await removeReaction(chatId, messageId, emoji, currentUser.uid)
+        : await addReaction(chatId, messageId, emoji, currentUser.uid);
+
+      if (!result.ok) toast.error(result.error);
+    },
+    [chatId, currentUser, toast]
   );
 
   const handlePinMessage = useCallback(
-    async (senderName: string, senderPhoto: string, text: string) => {
-      try {
-        const pinnedRef = doc(db, "chats", chatId, "pinnedMessage", "current");
-        await setDoc(pinnedRef, {
-          senderName,
-          senderPhoto,
-          text,
-          timestamp: serverTimestamp(),
-        });
-      } catch (error) {
-        console.error("Error pinning message:", error);
-      }
+    async (messageId: string) => {
+      if (!currentUser) return;
+
+      const result = await pinMessage(chatId, messageId, currentUser.uid);
+      if (!result.ok) toast.error(result.error);
     },
-    [chatId]
+    [chatId, currentUser, toast]
   );
 
   const handleStartEdit = useCallback((message: Message) => {
@@ -249,21 +679,18 @@ export default function ChatInterface() {
 
   const handleSaveEdit = useCallback(
     async (messageId: string) => {
-      if (!editText.trim()) return;
-
-      try {
-        const messageRef = doc(db, "chats", chatId, "messages", messageId);
-        await updateDoc(messageRef, {
-          text: editText,
-          isEdited: true,
-        });
+      if (!editText.trim() || !currentUser) return;
+
+      const result = await editMessage(chatId, messageId, editText, currentUser);
+
+      if (result.ok) {
         setEditingMessageId(null);
         setEditText("");
-      } catch (error) {
-        console.error("Error editing message:", error);
+      } else {
+        toast.error(result.error);
       }
     },
-    [chatId, editText]
+    [chatId, editText, currentUser, toast]
   );
 
   const handleCancelEdit = useCallback(() => {
@@ -278,71 +705,264 @@ export default function ChatInterface() {
 
       setIsUploading(true);
 
-      try {
-        const uploadedMedia = await uploadToCloudinary(file);
-
-        await sendFile(chatId, messageInput, {
-          name: currentUser.username,
-          photo: currentUser.photoURL,
-          mediaUrl: uploadedMedia.url,
-          mediaId: uploadedMedia.publicId,
-        });
+      const upload = await uploadToCloudinary(file);
+      const result = upload.ok
+        ? await sendFile(chatId, messageInput, {
+            senderId: currentUser.uid,
+            mediaUrl: upload.data.url,
+            mediaId: upload.data.publicId,
+          })
+        : upload;
 
+      if (result.ok) {
         setMessageInput("");
-      } catch (error) {
-        console.error("File upload error:", error);
-      } finally {
-        setIsUploading(false);
-        // Reset file input
-        if (fileInputRef.current) {
-          fileInputRef.current.value = "";
-        }
+      } else {
+        toast.error(result.error);
+      }
+
+      setIsUploading(false);
+      // Reset file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
       }
     },
-    [chatId, messageInput, currentUser, isUploading]
+    [chatId, messageInput, currentUser, isUploading, toast]
   );
 
-  const handleUnpinMessage = useCallback(async () => {
-    try {
-      const pinnedRef = doc(db, "chats", chatId, "pinnedMessage", "current");
-      await deleteDoc(pinnedRef);
-    } catch (error) {
-      console.error("Error unpinning message:", error);
+  const handleToggleMute = useCallback(async () => {
+    if (!currentUser) return;
+
+    const isMuted = !currentUser.mutedChats?.includes(chatId);
+    const previous = currentUser;
+    const mutedChats = (currentUser.mutedChats ?? []).filter((id) => id !== chatId);
+
+    // Flip the bell right away and put it back if saving fails
+    setCurrentUser({ ...currentUser, mutedChats: isMuted ? [...mutedChats, chatId] : mutedChats });
+
+    const result = await setChatMuted(currentUser.uid, chatId, isMuted);
+
+    if (!result.ok) {
+      setCurrentUser(previous);
+      toast.error(result.error);
     }
-  }, [chatId]);
+  }, [chatId, currentUser, toast]);
+
+  const handleUnpinMessage = useCallback(
+    async (messageId: string) => {
+      const result = await unpinMessage(chatId, messageId);
+      if (!result.ok) toast.error(result.error);
+    },
+    [chatId, toast]
+  );
+
+  const handleJumpToMessage = useCallback(
+    async (messageId: string) => {
+      if (isLoadingHistory) return;
+
+      let cursor = historyCursor;
+      let isFound = allMessages.some((message) => message.id === messageId);
+      const loadedMessages: Message[] = [];
+
+      // Pins and replies can point anywhere in the history, so load older
+      // pages until the message turns up
+      if (!isFound && cursor) setIsLoadingHistory(true);
+
+      while (!isFound && cursor) {
+        const result = await loadOlderMessages(chatId, cursor);
+
+        if (!result.ok) {
+          toast.error(result.error);
+          break;
+        }
+
+        loadedMessages.unshift(...result.data.messages);
+        cursor = result.data.cursor;
+        isFound = result.data.messages.some((message) => message.id === messageId);
+      }
+
+      if (loadedMessages.length > 0) {
+        setOlderMessages((previous) => [...loadedMessages, ...previous]);
+        setHistoryCursor(cursor);
+      }
+
+      setIsLoadingHistory(false);
+
+      if (isFound) {
+        setHighlightedMessageId(messageId);
+      } else {
+        toast.error({ code: "not-found" });
+      }
+    },
+    [chatId, allMessages, historyCursor, isLoadingHistory, toast]
+  );
+
+  // Jump to a message linked from search once the chat has loaded. Waits
+  // out the initial scroll to the bottom so it doesn't win.
+  useEffect(() => {
+    if (!linkedMessageId || !isMessagesLoaded) return;
+    if (jumpedToLinkRef.current === linkedMessageId) return;
+
+    const timeout = setTimeout(() => {
+      jumpedToLinkRef.current = linkedMessageId;
+      router.replace(`/chat/${chatId}`);
+      handleJumpToMessage(linkedMessageId);
+      if (isLinkedThread) setThreadRootId(linkedMessageId);
+    }, SCROLL_DELAY);
+    return () => clearTimeout(timeout);
+  }, [chatId, linkedMessageId, isLinkedThread, isMessagesLoaded, router, handleJumpToMessage]);
+
+  // Thread replies open in their thread, next to the root
+  const handleSelectSearchResult = useCallback(
+    (result: SearchResult) => {
+      handleJumpToMessage(result.threadId ?? result.messageId);
+      if (result.threadId) setThreadRootId(result.threadId);
+    },
+    [handleJumpToMessage]
+  );
 
   const handleFileInputClick = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
-  // Get other user's name
-  const otherUserName = currentUser ? getOtherUser(chatId, currentUser.username) || "" : "";
+  const handleAddMembers = useCallback(
+    async (usernames: string[]) => {
+      return addGroupMembers(chatId, usernames);
+    },
+    [chatId]
+  );
+
+  const handleRemoveMember = useCallback(
+    async (memberEmail: string) => {
+      if (!currentUser) return;
 
-  // Render messages with grouping
-  const renderMessages = () => {
-    let previousSenderName = "";
+      const result = await removeGroupMember(chatId, currentUser.email, memberEmail);
+      if (!result.ok) {
+        toast.error(result.error);
+      } else if (memberEmail === currentUser.email) {
+        router.push("/me");
+      }
+    },
+    [chatId, currentUser, router, toast]
+  );
+
+  const handleRenameGroup = useCallback(
+    async (title: string) => {
+      if (!currentUser) return;
+
+      const result = await updateGroupInfo(chatId, currentUser.email, { title });
+      if (!result.ok) toast.error(result.error);
+    },
+    [chatId, currentUser, toast]
+  );
+
+  const handleChangeGroupAvatar = useCallback(
+    async (file: File) => {
+      if (!currentUser) return;
+
+      const upload = await uploadToCloudinary(file);
+      const result = upload.ok
+        ? await updateGroupInfo(chatId, currentUser.email, { photoURL: upload.data.url })
+        : upload;
+
+      if (!result.ok) toast.error(result.error);
+    },
+    [chatId, currentUser, toast]
+  );
 
-    return messages.map((message) => {
-      const showAvatar = previousSenderName !== message.senderName;
-      const isCurrentUserMessage = currentUser?.username === message.senderName;
+  const handleChangeEditWindow = useCallback(
+    async (editWindowMinutes: number | null) => {
+      if (!currentUser) return;
 
-      previousSenderName = message.senderName;
+      const result = await updateGroupInfo(chatId, currentUser.email, { editWindowMinutes });
+      if (!result.ok) toast.error(result.error);
+    },
+    [chatId, currentUser, toast]
+  );
+
+  const handleCloseHistory = useCallback(() => {
+    setHistoryMessage(null);
+  }, []);
+
+  // Get the chat title: group name or the other user's name
+  const isGroupChat = chat?.type === "group";
+  const chatTitle = isGroupChat
+    ? chat.title
+    : chat && currentUser
+      ? getOtherMember(chat, currentUser.uid)?.username || ""
+      : "";
+
+  // Direct chats show the other member's status, groups how many are online
+  const otherMember =
+    !isGroupChat && chat && currentUser ? getOtherMember(chat, currentUser.uid) : null;
+  const otherPresence = otherMember ? memberPresence[otherMember.uid] ?? null : null;
+  const onlineCount = Object.values(memberPresence).filter(
+    (presence) => presence.status === "online"
+  ).length;
+  const chatStatus = otherPresence
+    ? describePresence(otherPresence, presenceNow)
+    : isGroupChat && onlineCount > 0
+      ? `${onlineCount} online`
+      : "";
+
+  // Render messages with grouping
+  const renderMessages = () => {
+    const firstUnreadId =
+      currentUser && unreadMarker
+        ? findFirstUnreadMessage(allMessages, unreadMarker, currentUser.uid)
+        : null;
+    const pinnedIds = new Set(pinnedMessages.map((pin) => pin.messageId));
+    let previousSenderKey = "";
+
+    return displayedMessages.map((message) => {
+      const sender = resolveMessageSender(message, senderProfiles);
+      const senderKey = sender.uid ?? `legacy:${sender.name}`;
+      const showAvatar = previousSenderKey !== senderKey || message.id === firstUnreadId;
+      const canEdit =
+        !!currentUser &&
+        isMessageFromUser(message, currentUser.uid, currentUser.username) &&
+        isEditWindowOpen(message, chat?.editWindowMinutes);
+      const canDelete = !!currentUser && !!chat && canDeleteMessage(message, chat, currentUser);
+      const receipt =
+        currentUser && chat && !message.status && message.senderId === currentUser.uid
+          ? getMessageReceipt(message, chat, currentUser.uid)
+          : undefined;
+
+      previousSenderKey = senderKey;
       console.log(message);
       return (
-        <MessageItem
-          key={message.id}
-          message={message}
-          showAvatar={showAvatar}
-          isCurrentUserMessage={isCurrentUserMessage}
-          isEditing={editingMessageId === message.id}
-          editText={editText}
-          onEdit={handleStartEdit}
-          onDelete={handleDeleteMessage}
-          onPin={handlePinMessage}
-          onSaveEdit={handleSaveEdit}
-          onCancelEdit={handleCancelEdit}
-          onEditTextChange={setEditText}
-        />
+        <React.Fragment key={message.id}>
+          {message.id === firstUnreadId && <NewMessagesDivider />}
+          <MessageItem
+            message={message}
+            quotedMessage={message.replyTo ? getQuotedMessage(message.replyTo) : undefined}
+            sender={sender}
+            showAvatar={showAvatar}
+            canEdit={canEdit}
+            canDelete={canDelete}
+            receipt={receipt}
+            reactions={currentUser ? summarizeReactions(message, currentUser.uid) : []}
+            senderProfiles={senderProfiles}
+            isPinned={pinnedIds.has(message.id)}
+            isHighlighted={highlightedMessageId === message.id}
+            isMentioningMe={!!currentUser && isMentioned(message, currentUser.uid)}
+            isEditing={editingMessageId === message.id}
+            editText={editText}
+            onEdit={handleStartEdit}
+            onDelete={handleDeleteMessage}
+            onPin={handlePinMessage}
+            onUnpin={handleUnpinMessage}
+            onToggleReaction={handleToggleReaction}
+            onSaveEdit={handleSaveEdit}
+            onCancelEdit={handleCancelEdit}
+            onEditTextChange={setEditText}
+            onShowHistory={setHistoryMessage}
+            onReply={setReplyingTo}
+            onOpenThread={setThreadRootId}
+            onJumpToMessage={handleJumpToMessage}
+            onRetry={handleRetryMessage}
+            onDiscard={handleDiscardMessage}
+          />
+        </React.Fragment>
       );
     });
   };
@@ -350,15 +970,47 @@ export default function ChatInterface() {
   return (
     <>
       <ChatNavbar
-        otherUserName={otherUserName}
-        pinnedMessage={pinnedMessage}
+        chatTitle={chatTitle}
+        chatStatus={chatStatus}
+        presence={otherPresence}
+        isMuted={!!currentUser?.mutedChats?.includes(chatId)}
+        onToggleMute={handleToggleMute}
+        pinnedMessages={pinnedMessages}
+        senderProfiles={senderProfiles}
         onUnpinMessage={handleUnpinMessage}
+        onJumpToMessage={handleJumpToMessage}
+        onSelectSearchResult={handleSelectSearchResult}
         chatId={chatId}
+        currentUserEmail={currentUser?.email}
+        groupDialog={
+          isGroupChat && currentUser ? (
+            <GroupMembersDialog
+              chat={chat}
+              currentUserEmail={currentUser.email}
+              onAddMembers={handleAddMembers}
+              onRemoveMember={handleRemoveMember}
+              onRename={handleRenameGroup}
+              onChangeAvatar={handleChangeGroupAvatar}
+              onChangeEditWindow={handleChangeEditWindow}
+            />
+          ) : null
+        }
       />
 
       <div className="flex flex-col h-screen bg-black text-[#dbdee1]">
-        <ScrollArea className="flex-1 px-4 pb-20 mt-16 bg-black">
+        <ScrollArea
+          className="flex-1 px-4 pb-20 mt-16 bg-black"
+          viewportRef={viewportRef}
+          onViewportScroll={handleViewportScroll}
+        >
           <div className="py-6">
+            <p className="h-8 text-center text-xs text-zinc-500">
+              {isLoadingHistory
+                ? "Loading older messages..."
+                : historyCursor
+                  ? ""
+                  : "This is the beginning of the conversation."}
+            </p>
             {renderMessages()}
             <div ref={scrollRef} />
           </div>
@@ -366,14 +1018,37 @@ export default function ChatInterface() {
       </div>
 
       <MessageInputForm
+        chatId={chatId}
+        currentUserId={currentUser?.uid}
+        typing={typingMembers}
+        members={chat?.members ?? NO_MEMBERS}
         messageInput={messageInput}
         isUploading={isUploading}
+        replyingTo={replyingTo}
+        senderProfiles={senderProfiles}
         onMessageChange={setMessageInput}
         onSubmit={handleSendMessage}
+        onCancelReply={handleCancelReply}
         onFileInputClick={handleFileInputClick}
         fileInputRef={fileInputRef}
         onFileUpload={handleFileUpload}
       />
+
+      <MessageHistoryDialog
+        chatId={chatId}
+        message={historyMessage}
+        senderProfiles={senderProfiles}
+        onClose={handleCloseHistory}
+      />
+
+      {threadRootId && currentUser && (
+        <ThreadPanel
+          chatId={chatId}
+          root={messagesById.get(threadRootId) ?? null}
+          currentUser={currentUser}
+          onClose={handleCloseThread}
+        />
+      )}
     </>
   );
 }
@@ -381,13 +1056,36 @@ export default function ChatInterface() {
 // Sub-components
 
 interface ChatNavbarProps {
-  otherUserName: string;
-  pinnedMessage: PinnedMessage | null;
-  onUnpinMessage: () => void;
+  chatTitle: string;
+  chatStatus: string;
+  presence: UserPresence | null; // Other member's presence in a direct chat
+  isMuted: boolean;
+  onToggleMute: () => void;
+  pinnedMessages: PinnedMessage[];
+  senderProfiles: Record<string, SenderProfile>;
+  onUnpinMessage: (messageId: string) => void;
+  onJumpToMessage: (messageId: string) => void;
+  onSelectSearchResult: (result: SearchResult) => void;
   chatId: string;
+  currentUserEmail: string | undefined;
+  groupDialog: React.ReactNode;
 }
 
-function ChatNavbar({ otherUserName, pinnedMessage, onUnpinMessage, chatId }: ChatNavbarProps) {
+function ChatNavbar({
+  chatTitle,
+  chatStatus,
+  presence,
+  isMuted,
+  onToggleMute,
+  pinnedMessages,
+  senderProfiles,
+  onUnpinMessage,
+  onJumpToMessage,
+  onSelectSearchResult,
+  chatId,
+  currentUserEmail,
+  groupDialog,
+}: ChatNavbarProps) {
   return (
     <nav className="fixed top-0 w-full z-10 border-b border-white/10 bg-black/50 backdrop-blur-md">
       <div className="mx-auto px-4 h-16 flex items-center justify-between">
@@ -399,75 +1097,99 @@ function ChatNavbar({ otherUserName, pinnedMessage, onUnpinMessage, chatId }: Ch
           </Button>
 
           <PinnedMessageDialog
-            pinnedMessage={pinnedMessage}
+            pinnedMessages={pinnedMessages}
+            senderProfiles={senderProfiles}
             onUnpinMessage={onUnpinMessage}
+            onJumpToMessage={onJumpToMessage}
           />
 
-          <p className="text-white font-bold">{otherUserName}</p>
+          <ChatSearchDialog
+            chatId={chatId}
+            currentUserEmail={currentUserEmail}
+            onSelect={onSelectSearchResult}
+          />
+
+          {groupDialog}
+
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={onToggleMute}
+            className="text-zinc-400 hover:text-zinc-200 transition-colors"
+            aria-label={isMuted ? "Unmute chat" : "Mute chat"}
+            title={isMuted ? "Muted: only mentions notify you" : "Mute chat"}
+          >
+            {isMuted ? <BellOff className="w-6 h-6" /> : <Bell className="w-6 h-6" />}
+          </Button>
+
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              {presence && <PresenceDot status={presence.status} label={chatStatus} />}
+              <p className="text-white font-bold truncate">{chatTitle}</p>
+            </div>
+            {chatStatus && <p className="text-xs text-zinc-400">{chatStatus}</p>}
+          </div>
         </div>
       </div>
     </nav>
   );
 }
 
-interface PinnedMessageDialogProps {
-  pinnedMessage: PinnedMessage | null;
-  onUnpinMessage: () => void;
+interface ChatSearchDialogProps {
+  chatId: string;
+  currentUserEmail: string | undefined;
+  onSelect: (result: SearchResult) => void;
 }
 
-function PinnedMessageDialog({ pinnedMessage, onUnpinMessage }: PinnedMessageDialogProps) {
+function ChatSearchDialog({ chatId, currentUserEmail, onSelect }: ChatSearchDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, isSearching] = useMessageSearch(currentUserEmail, isOpen ? query : "", chatId);
+
+  const handleSelect = (result: SearchResult) => {
+    setIsOpen(false);
+    onSelect(result);
+  };
+
   return (
-    <Dialog>
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
       <DialogTrigger asChild>
         <Button
           type="button"
           variant="ghost"
           className="text-zinc-400 hover:text-zinc-200 transition-colors"
+          aria-label="Search this chat"
         >
-          <Pin className="w-6 h-6" />
+          <Search className="w-6 h-6" />
         </Button>
       </DialogTrigger>
 
       <DialogContent className="bg-[#1e1f22] border-zinc-800 text-[#dbdee1] sm:max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-white">
-            <Pin className="w-4 h-4 text-indigo-400" />
-            Pinned Messages
+            <Search className="w-4 h-4 text-indigo-400" />
+            Search this chat
           </DialogTitle>
         </DialogHeader>
 
-        <div className="mt-4 space-y-4 max-h-[60vh] overflow-y-auto pr-2">
-          {pinnedMessage ? (
-            <div className="bg-[#2b2d31] p-3 rounded-md border border-white/5 relative group">
-              <div className="flex items-center gap-3 mb-2">
-                <Avatar className="w-6 h-6">
-                  <AvatarImage src={pinnedMessage.senderPhoto} />
-                  <AvatarFallback className="text-[10px] bg-indigo-500">
-                    {pinnedMessage.senderName?.[0]?.toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
-                <span className="text-xs font-bold text-white">
-                  {pinnedMessage.senderName}
-                </span>
-                <span className="text-[10px] text-zinc-500">
-                  {pinnedMessage.timestamp?.toDate().toLocaleDateString()}
-                </span>
-              </div>
-              <p className="text-sm leading-relaxed wrap-break-word">{pinnedMessage.text}</p>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search, or try from:alice has:image before:2026-01-01"
+          className="w-full bg-[#2b2d31] text-white p-2 rounded-md outline-none border border-white/10 focus:border-indigo-500"
+          autoFocus
+        />
 
-              <button
-                onClick={onUnpinMessage}
-                className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400 transition-opacity"
-                aria-label="Unpin message"
-              >
-                <X className="w-4 h-4" />
-              </button>
-            </div>
+        <div className="mt-2 max-h-[60vh] overflow-y-auto pr-2">
+          {results.length > 0 ? (
+            <SearchResultList results={results} onSelect={handleSelect} />
           ) : (
-            <div className="text-center py-10">
-              <Pin className="w-12 h-12 text-zinc-700 mx-auto mb-2 opacity-20" />
-              <p className="text-zinc-500 text-sm">No pinned messages yet.</p>
-            </div>
+            query.trim() && (
+              <p className="text-center py-10 text-zinc-500 text-sm">
+                {isSearching ? "Searching..." : "No messages found."}
+              </p>
+            )
           )}
         </div>
       </DialogContent>
@@ -475,72 +1197,470 @@ function PinnedMessageDialog({ pinnedMessage, onUnpinMessage }: PinnedMessageDia
   );
 }
 
-interface MessageItemProps {
-  message: Message;
-  showAvatar: boolean;
-  isCurrentUserMessage: boolean;
-  isEditing: boolean;
-  editText: string;
-  onEdit: (message: Message) => void;
-  onDelete: (messageId: string) => void;
-  onPin: (senderName: string, senderPhoto: string, text: string) => void;
-  onSaveEdit: (messageId: string) => void;
-  onCancelEdit: () => void;
-  onEditTextChange: (text: string) => void;
+interface GroupMembersDialogProps {
+  chat: ChatDetails;
+  currentUserEmail: string;
+  onAddMembers: (usernames: string[]) => Promise<Result<void>>;
+  onRemoveMember: (memberEmail: string) => void;
+  onRename: (title: string) => void;
+  onChangeAvatar: (file: File) => void;
+  onChangeEditWindow: (minutes: number | null) => void;
 }
 
-function MessageItem({
-  message,
-  showAvatar,
-  isCurrentUserMessage,
-  isEditing,
-  editText,
-  onEdit,
-  onDelete,
-  onPin,
-  onSaveEdit,
-  onCancelEdit,
-  onEditTextChange,
-}: MessageItemProps) {
+function GroupMembersDialog({
+  chat,
+  currentUserEmail,
+  onAddMembers,
+  onRemoveMember,
+  onRename,
+  onChangeAvatar,
+  onChangeEditWindow,
+}: GroupMembersDialogProps) {
+  const [newMembers, setNewMembers] = useState("");
+  const [title, setTitle] = useState(chat.title);
+  const [error, setError] = useState<string | null>(null);
+  const isOwner = chat.ownerEmail === currentUserEmail;
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const usernames = newMembers.split(",").map((name) => name.trim()).filter(Boolean);
+    if (usernames.length === 0) return;
+
+    const result = await onAddMembers(usernames);
+    if (result.ok) {
+      setNewMembers("");
+    } else {
+      setError(describeError(result.error));
+    }
+  };
+
   return (
-    <div className="relative flex items-start gap-4 group hover:bg-[#111111] -mx-4 px-4 py-1 transition-colors">
-      {/* Action buttons */}
-      <div className="absolute top-0 right-4 hidden group-hover:flex gap-1 bg-[#1d1d1d] border border-white/10 rounded-md shadow-lg p-1 z-10">
+    <Dialog>
+      <DialogTrigger asChild>
         <Button
+          type="button"
           variant="ghost"
-          size="icon"
-          className="h-8 w-8 text-zinc-400 hover:text-zinc-200"
-          onClick={() => onPin(message.senderName, message.senderPhoto, message.text)}
-          aria-label="Pin message"
+          className="text-zinc-400 hover:text-zinc-200 transition-colors"
+          aria-label="Group members"
         >
-          <Pin className="w-4 h-4" />
+          <Users className="w-6 h-6" />
         </Button>
-        {isCurrentUserMessage && <Button
+      </DialogTrigger>
+
+      <DialogContent className="bg-[#1e1f22] border-zinc-800 text-[#dbdee1] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <Users className="w-4 h-4 text-indigo-400" />
+            {chat.title} · {chat.members.length} members
+          </DialogTitle>
+        </DialogHeader>
+
+        {isOwner && (
+          <form
+            className="flex gap-2 items-center"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (title.trim() && title !== chat.title) onRename(title);
+            }}
+          >
+            <label className="cursor-pointer" aria-label="Change group avatar">
+              <Avatar className="w-10 h-10">
+                <AvatarImage src={chat.photoURL} />
+                <AvatarFallback className="bg-indigo-500 text-white">
+                  <Users className="w-4 h-4" />
+                </AvatarFallback>
+              </Avatar>
+              <input
+                type="file"
+                hidden
+                accept="image/*"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onChangeAvatar(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Group name"
+              className="flex-1 bg-[#2b2d31] text-white p-2 rounded-md outline-none border border-white/10 focus:border-indigo-500"
+            />
+            <Button type="submit" variant="ghost" disabled={!title.trim()}>
+              Rename
+            </Button>
+          </form>
+        )}
+
+        {isOwner && (
+          <label className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-zinc-400">Messages can be edited for</span>
+            <select
+              value={chat.editWindowMinutes ?? ""}
+              onChange={(e) => onChangeEditWindow(e.target.value ? Number(e.target.value) : null)}
+              className="bg-[#2b2d31] text-white p-2 rounded-md outline-none border border-white/10 focus:border-indigo-500"
+            >
+              {EDIT_WINDOW_OPTIONS.map((option) => (
+                <option key={option.label} value={option.minutes ?? ""}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <div className="space-y-2 max-h-[40vh] overflow-y-auto pr-2">
+          {chat.members.map((member) => (
+            <div key={member.uid} className="flex items-center gap-3 group">
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={member.photoURL} />
+                <AvatarFallback className="text-xs bg-indigo-500">
+                  {member.username?.[0]?.toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="flex-1 text-sm text-white truncate">
+                {member.username}
+                {member.email === chat.ownerEmail && (
+                  <span className="ml-2 text-[10px] text-indigo-400">owner</span>
+                )}
+              </span>
+              {isOwner && member.email !== currentUserEmail && (
+                <button
+                  onClick={() => onRemoveMember(member.email)}
+                  className="opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400 transition-opacity"
+                  aria-label={`Remove ${member.username}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            value={newMembers}
+            onChange={(e) => setNewMembers(e.target.value)}
+            placeholder="Add members, separated by commas"
+            className="flex-1 bg-[#2b2d31] text-white p-2 rounded-md outline-none border border-white/10 focus:border-indigo-500"
+          />
+          <Button type="submit" variant="ghost" disabled={!newMembers.trim()}>
+            Add
+          </Button>
+        </form>
+        {error && <p className="text-red-400 text-xs">{error}</p>}
+
+        <Button
+          type="button"
           variant="ghost"
-          size="icon"
-          className="h-8 w-8 text-zinc-400 hover:text-zinc-200"
-          onClick={() => onEdit(message)}
-          aria-label="Edit message"
+          className="text-red-400 hover:text-red-300 justify-start"
+          onClick={() => onRemoveMember(currentUserEmail)}
         >
-          <Pencil className="w-4 h-4" />
-        </Button>}
+          <LogOut className="w-4 h-4 mr-2" />
+          Leave group
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PinnedMessageDialogProps {
+  pinnedMessages: PinnedMessage[];
+  senderProfiles: Record<string, SenderProfile>;
+  onUnpinMessage: (messageId: string) => void;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+function PinnedMessageDialog({
+  pinnedMessages,
+  senderProfiles,
+  onUnpinMessage,
+  onJumpToMessage,
+}: PinnedMessageDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleJump = (messageId: string) => {
+    setIsOpen(false);
+    onJumpToMessage(messageId);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
         <Button
+          type="button"
           variant="ghost"
-          size="icon"
-          className="h-8 w-8 text-zinc-400 hover:text-red-400"
-          onClick={() => onDelete(message.id)}
-          aria-label="Delete message"
+          className="text-zinc-400 hover:text-zinc-200 transition-colors"
         >
-          <Trash2 className="w-4 h-4" />
+          <Pin className="w-6 h-6" />
         </Button>
-      </div>
+      </DialogTrigger>
+
+      <DialogContent className="bg-[#1e1f22] border-zinc-800 text-[#dbdee1] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <Pin className="w-4 h-4 text-indigo-400" />
+            Pinned Messages
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="mt-4 space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+          {pinnedMessages.length > 0 ? (
+            pinnedMessages.map((pin) => (
+              <PinnedMessageItem
+                key={pin.messageId}
+                pin={pin}
+                senderProfiles={senderProfiles}
+                onJump={handleJump}
+                onUnpin={onUnpinMessage}
+              />
+            ))
+          ) : (
+            <div className="text-center py-10">
+              <Pin className="w-12 h-12 text-zinc-700 mx-auto mb-2 opacity-20" />
+              <p className="text-zinc-500 text-sm">No pinned messages yet.</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PinnedMessageItemProps {
+  pin: PinnedMessage;
+  senderProfiles: Record<string, SenderProfile>;
+  onJump: (messageId: string) => void;
+  onUnpin: (messageId: string) => void;
+}
+
+function PinnedMessageItem({ pin, senderProfiles, onJump, onUnpin }: PinnedMessageItemProps) {
+  const sender = pin.message ? resolveMessageSender(pin.message, senderProfiles) : null;
+  const pinnedByName = senderProfiles[pin.pinnedBy]?.username;
+
+  return (
+    <div className="bg-[#2b2d31] rounded-md border border-white/5 relative group">
+      <button
+        onClick={() => onJump(pin.messageId)}
+        className="w-full p-3 text-left hover:bg-white/5 rounded-md transition-colors"
+      >
+        {pin.message && sender ? (
+          <>
+            <div className="flex items-center gap-3 mb-2">
+              <Avatar className="w-6 h-6">
+                <AvatarImage src={sender.photo} />
+                <AvatarFallback className="text-[10px] bg-indigo-500">
+                  {sender.name?.[0]?.toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="text-xs font-bold text-white">{sender.name}</span>
+              <span className="text-[10px] text-zinc-500">
+                {pin.message.timestamp?.toDate().toLocaleDateString()}
+              </span>
+            </div>
+            <p className="text-sm leading-relaxed wrap-break-word">
+              {pin.message.deletedAt ? (
+                <span className="italic text-zinc-500">Message deleted</span>
+              ) : (
+                pin.message.text || (pin.message.mediaUrl ? "📎 Attachment" : "")
+              )}
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-zinc-500">Loading message...</p>
+        )}
+        {pinnedByName && (
+          <p className="mt-2 text-[10px] text-zinc-500">Pinned by @{pinnedByName}</p>
+        )}
+      </button>
+
+      <button
+        onClick={() => onUnpin(pin.messageId)}
+        className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 text-zinc-500 hover:text-red-400 transition-opacity"
+        aria-label="Unpin message"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+function NewMessagesDivider() {
+  return (
+    <div className="flex items-center gap-2 my-2" role="separator" aria-label="New messages">
+      <div className="flex-1 h-px bg-red-500/60" />
+      <span className="text-[10px] font-bold uppercase tracking-wide text-red-400">
+        New messages
+      </span>
+      <div className="flex-1 h-px bg-red-500/60" />
+    </div>
+  );
+}
+
+interface MessageItemProps {
+  message: Message;
+  quotedMessage?: Message | null; // null if the quoted message couldn't be loaded
+  sender: MessageSender;
+  showAvatar: boolean;
+  canEdit: boolean;
+  canDelete: boolean;
+  receipt?: MessageReceipt; // Only set on the current user's sent messages
+  reactions: ReactionSummary[];
+  senderProfiles: Record<string, SenderProfile>;
+  isPinned: boolean;
+  isHighlighted: boolean;
+  isMentioningMe: boolean;
+  isEditing: boolean;
+  editText: string;
+  onEdit: (message: Message) => void;
+  onDelete: (messageId: string) => void;
+  onPin: (messageId: string) => void;
+  onUnpin: (messageId: string) => void;
+  onToggleReaction: (messageId: string, emoji: string, hasReacted: boolean) => void;
+  onSaveEdit: (messageId: string) => void;
+  onCancelEdit: () => void;
+  onEditTextChange: (text: string) => void;
+  onShowHistory: (message: Message) => void;
+  onReply: (message: Message) => void;
+  onOpenThread: (messageId: string) => void;
+  onJumpToMessage: (messageId: string) => void;
+  onRetry: (messageId: string) => void;
+  onDiscard: (messageId: string) => void;
+}
+
+function MessageItem({
+  message,
+  quotedMessage,
+  sender,
+  showAvatar,
+  canEdit,
+  canDelete,
+  receipt,
+  reactions,
+  senderProfiles,
+  isPinned,
+  isHighlighted,
+  isMentioningMe,
+  isEditing,
+  editText,
+  onEdit,
+  onDelete,
+  onPin,
+  onUnpin,
+  onToggleReaction,
+  onSaveEdit,
+  onCancelEdit,
+  onEditTextChange,
+  onShowHistory,
+  onReply,
+  onOpenThread,
+  onJumpToMessage,
+  onRetry,
+  onDiscard,
+}: MessageItemProps) {
+  const isPending = !!message.status;
+  const isDeleted = !!message.deletedAt;
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  const handleReact = (emoji: string) => {
+    const reaction = reactions.find((candidate) => candidate.emoji === emoji);
+    onToggleReaction(message.id, emoji, !!reaction?.hasReacted);
+    setIsPickerOpen(false);
+  };
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={`relative flex items-start gap-4 group hover:bg-[#111111] -mx-4 px-4 py-1 transition-colors ${
+        message.status === "sending" ? "opacity-60" : ""
+      } ${isHighlighted ? "bg-indigo-500/10" : ""} ${
+        isMentioningMe && !isDeleted ? "border-l-2 border-amber-400 bg-amber-500/5" : ""
+      }`}
+    >
+      {/* Action buttons, once the message has been sent */}
+      {!isPending && !isDeleted && (
+        <div className="absolute top-0 right-4 hidden group-hover:flex gap-1 bg-[#1d1d1d] border border-white/10 rounded-md shadow-lg p-1 z-10">
+          {isPickerOpen &&
+            QUICK_REACTIONS.map((emoji) => (
+              <Button
+                key={emoji}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => handleReact(emoji)}
+                aria-label={`React with ${emoji}`}
+              >
+                {emoji}
+              </Button>
+            ))}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-zinc-400 hover:text-zinc-200"
+            onClick={() => setIsPickerOpen((isOpen) => !isOpen)}
+            aria-label="Add reaction"
+          >
+            <SmilePlus className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-zinc-400 hover:text-zinc-200"
+            onClick={() => onReply(message)}
+            aria-label="Reply"
+          >
+            <Reply className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-zinc-400 hover:text-zinc-200"
+            onClick={() => onOpenThread(message.id)}
+            aria-label="Reply in thread"
+          >
+            <MessageSquare className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={`h-8 w-8 hover:text-zinc-200 ${isPinned ? "text-indigo-400" : "text-zinc-400"}`}
+            onClick={() => (isPinned ? onUnpin(message.id) : onPin(message.id))}
+            aria-label={isPinned ? "Unpin message" : "Pin message"}
+          >
+            <Pin className="w-4 h-4" />
+          </Button>
+          {canEdit && <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-zinc-400 hover:text-zinc-200"
+            onClick={() => onEdit(message)}
+            aria-label="Edit message"
+          >
+            <Pencil className="w-4 h-4" />
+          </Button>}
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-zinc-400 hover:text-red-400"
+              onClick={() => onDelete(message.id)}
+              aria-label="Delete message"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      )}
 
       {/* Avatar */}
       {showAvatar ? (
         <Avatar className="w-10 h-10 mt-1">
-          <AvatarImage src={message.senderPhoto} alt={message.senderName} />
+          <AvatarImage src={sender.photo} alt={sender.name} />
           <AvatarFallback className="bg-indigo-500 text-white">
-            {message.senderName?.[0]?.toUpperCase()}
+            {sender.name?.[0]?.toUpperCase()}
           </AvatarFallback>
         </Avatar>
       ) : (
@@ -551,20 +1671,38 @@ function MessageItem({
       <div className="flex flex-col flex-1 min-w-0">
         {showAvatar && (
           <div className="flex items-center gap-2 mb-1">
-            <span className="font-semibold text-white">{message.senderName}</span>
+            <span className="font-semibold text-white">{sender.name}</span>
             <span className="text-xs text-zinc-500">
               {message.timestamp?.toDate().toLocaleTimeString([], {
                 hour: "2-digit",
                 minute: "2-digit",
               })}
-              {message.isEdited && (
-                <span className="ml-1 text-[10px] italic">(edited)</span>
+              {message.isEdited && !isDeleted && (
+                <button
+                  onClick={() => onShowHistory(message)}
+                  className="ml-1 text-[10px] italic hover:underline"
+                  aria-label="Show edit history"
+                >
+                  (edited)
+                </button>
               )}
             </span>
           </div>
         )}
 
-        {isEditing ? (
+        {message.replyTo && !isDeleted && (
+          <MessageQuote
+            message={quotedMessage}
+            senderProfiles={senderProfiles}
+            onJump={() => onJumpToMessage(message.replyTo!)}
+          />
+        )}
+
+        {isDeleted ? (
+          <p className="flex items-center gap-1 text-sm italic text-zinc-500">
+            <Trash2 className="w-3 h-3" /> Message deleted
+          </p>
+        ) : isEditing ? (
           <MessageEditForm
             editText={editText}
             onEditTextChange={onEditTextChange}
@@ -574,6 +1712,475 @@ function MessageItem({
         ) : (
           <MessageContent message={message} />
         )}
+
+        {!isDeleted && reactions.length > 0 && (
+          <MessageReactions
+            reactions={reactions}
+            senderProfiles={senderProfiles}
+            onReact={handleReact}
+          />
+        )}
+
+        {!!message.threadReplyCount && (
+          <button
+            onClick={() => onOpenThread(message.id)}
+            className="flex items-center gap-1 mt-1 w-fit text-xs font-semibold text-indigo-400 hover:underline"
+          >
+            <MessageSquare className="w-3 h-3" />
+            {message.threadReplyCount === 1 ? "1 reply" : `${message.threadReplyCount} replies`}
+            {message.lastThreadReplyAt && (
+              <span className="font-normal text-zinc-500">
+                · last {message.lastThreadReplyAt.toDate().toLocaleString([], {
+                  dateStyle: "short",
+                  timeStyle: "short",
+                })}
+              </span>
+            )}
+          </button>
+        )}
+
+        {receipt && !isDeleted && (
+          <MessageReceiptIndicator receipt={receipt} senderProfiles={senderProfiles} />
+        )}
+
+        {isPending && (
+          <MessageStatus
+            status={message.status}
+            onRetry={() => onRetry(message.id)}
+            onDiscard={() => onDiscard(message.id)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface MessageQuoteProps {
+  message: Message | null | undefined; // undefined while loading
+  senderProfiles: Record<string, SenderProfile>;
+  onJump: () => void;
+}
+
+function MessageQuote({ message, senderProfiles, onJump }: MessageQuoteProps) {
+  const sender = message ? resolveMessageSender(message, senderProfiles) : null;
+
+  return (
+    <button
+      onClick={onJump}
+      disabled={!message}
+      className="flex items-center gap-1 mb-1 max-w-full text-left text-xs text-zinc-400 hover:text-zinc-200 disabled:hover:text-zinc-400"
+    >
+      <Reply className="w-3 h-3 shrink-0 -scale-x-100" />
+      {message === undefined ? (
+        <span className="italic">Loading...</span>
+      ) : message === null ? (
+        <span className="italic">Original message unavailable</span>
+      ) : (
+        <>
+          <span className="font-semibold text-zinc-300 shrink-0">@{sender?.name}</span>
+          <span className={`truncate ${message.deletedAt ? "italic" : ""}`}>
+            {getMessageSnippet(message)}
+          </span>
+        </>
+      )}
+    </button>
+  );
+}
+
+interface MessageReactionsProps {
+  reactions: ReactionSummary[];
+  senderProfiles: Record<string, SenderProfile>;
+  onReact: (emoji: string) => void;
+}
+
+function MessageReactions({ reactions, senderProfiles, onReact }: MessageReactionsProps) {
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {reactions.map((reaction) => {
+        const names = reaction.userIds
+          .map((uid) => senderProfiles[uid]?.username)
+          .filter(Boolean)
+          .join(", ");
+
+        return (
+          <button
+            key={reaction.emoji}
+            onClick={() => onReact(reaction.emoji)}
+            title={`${names || "Someone"} reacted with ${reaction.emoji}`}
+            aria-pressed={reaction.hasReacted}
+            className={`flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors ${
+              reaction.hasReacted
+                ? "border-indigo-500 bg-indigo-500/20 text-white"
+                : "border-white/10 bg-[#1d1d1d] text-zinc-300 hover:border-white/30"
+            }`}
+          >
+            <span>{reaction.emoji}</span>
+            <span>{reaction.userIds.length}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface MessageReceiptIndicatorProps {
+  receipt: MessageReceipt;
+  senderProfiles: Record<string, SenderProfile>;
+}
+
+function MessageReceiptIndicator({ receipt, senderProfiles }: MessageReceiptIndicatorProps) {
+  const seenByNames = receipt.seenBy
+    .map((uid) => senderProfiles[uid]?.username)
+    .filter(Boolean)
+    .map((username) => `@${username}`)
+    .join(", ");
+  const label =
+    receipt.status === "seen"
+      ? `Seen${seenByNames ? ` by ${seenByNames}` : ""}`
+      : receipt.status === "delivered"
+        ? "Delivered"
+        : "Sent";
+  const Icon = receipt.status === "sent" ? Check : CheckCheck;
+
+  return (
+    <span
+      title={label}
+      className={`flex items-center gap-1 self-end text-[10px] ${
+        receipt.status === "seen" ? "text-indigo-400" : "text-zinc-500"
+      }`}
+    >
+      <Icon className="w-3 h-3" />
+      <span className="sr-only">{label}</span>
+    </span>
+  );
+}
+
+interface MessageStatusProps {
+  status: Message["status"];
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+function MessageStatus({ status, onRetry, onDiscard }: MessageStatusProps) {
+  if (status === "sending") {
+    return (
+      <span className="flex items-center gap-1 text-xs text-zinc-500">
+        <Clock className="w-3 h-3" /> Sending...
+      </span>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="flex items-center gap-1 text-red-400">
+        <AlertCircle className="w-3 h-3" /> Failed to send
+      </span>
+      <button
+        onClick={onRetry}
+        className="text-indigo-400 hover:underline flex items-center gap-1"
+      >
+        <RotateCcw className="w-3 h-3" /> Retry
+      </button>
+      <button
+        onClick={onDiscard}
+        className="text-zinc-500 hover:underline flex items-center gap-1"
+      >
+        <Trash2 className="w-3 h-3" /> Discard
+      </button>
+    </div>
+  );
+}
+
+interface MessageHistoryDialogProps {
+  chatId: string;
+  message: Message | null;
+  senderProfiles: Record<string, SenderProfile>;
+  onClose: () => void;
+}
+
+function MessageHistoryDialog({
+  chatId,
+  message,
+  senderProfiles,
+  onClose,
+}: MessageHistoryDialogProps) {
+  const [versions, setVersions] = useState<MessageVersion[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const messageId = message?.id;
+  const revisionCount = message?.revisionCount;
+
+  // Reload when another message is opened or this one is edited again
+  useEffect(() => {
+    if (!messageId) return;
+
+    let isCancelled = false;
+    setVersions(null);
+    setError(null);
+
+    getMessageHistory(chatId, messageId).then((result) => {
+      if (isCancelled) return;
+
+      if (result.ok) {
+        setVersions(result.data);
+      } else {
+        setError(describeError(result.error));
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [chatId, messageId, revisionCount]);
+
+  return (
+    <Dialog open={!!message} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-[#1e1f22] border-zinc-800 text-[#dbdee1] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-white">
+            <History className="w-4 h-4 text-indigo-400" />
+            Edit History
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="mt-4 space-y-4 max-h-[60vh] overflow-y-auto pr-2">
+          {error && <p className="text-red-400 text-xs">{error}</p>}
+          {!versions && !error && <p className="text-zinc-500 text-sm">Loading history...</p>}
+
+          {versions
+            ?.map((version, index) => (
+              <div
+                key={index}
+                className="bg-[#2b2d31] p-3 rounded-md border border-white/5"
+              >
+                <div className="flex items-center gap-2 mb-2 text-[10px] text-zinc-500">
+                  <span className="text-xs font-bold text-white">
+                    {index === versions.length - 1
+                      ? "Current"
+                      : index === 0
+                        ? "Original"
+                        : `Version ${index + 1}`}
+                  </span>
+                  <span>{version.timestamp?.toDate().toLocaleString()}</span>
+                  {version.editedBy && (
+                    <span>
+                      edited by @{senderProfiles[version.editedBy]?.username ?? "unknown"}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm leading-relaxed wrap-break-word whitespace-pre-wrap">
+                  {version.text}
+                </p>
+              </div>
+            ))
+            .reverse()}
+
+          {versions?.length === 1 && message?.isEdited && (
+            <p className="text-zinc-500 text-xs">
+              Earlier versions of this message weren&apos;t saved.
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ThreadPanelProps {
+  chatId: string;
+  root: Message | null; // null if the root message isn't loaded
+  currentUser: UserProfile;
+  onClose: () => void;
+}
+
+function ThreadPanel({ chatId, root, currentUser, onClose }: ThreadPanelProps) {
+  const toast = useToast();
+  const [replies, setReplies] = useState<Message[]>([]);
+  const [olderReplies, setOlderReplies] = useState<Message[]>([]);
+  const [cursor, setCursor] = useState<MessageCursor | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [profiles, setProfiles] = useState<Record<string, SenderProfile>>({});
+  const [replyInput, setReplyInput] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+  const rootId = root?.id;
+
+  // The thread is its own paginated stream, like the chat's messages
+  useEffect(() => {
+    if (!rootId) return;
+
+    let isFirstSnapshot = true;
+    setOlderReplies([]);
+    setCursor(null);
+
+    const unsubscribe = subscribeToThread(chatId, rootId, (newReplies, newCursor) => {
+      if (isFirstSnapshot) {
+        isFirstSnapshot = false;
+        setCursor(newCursor);
+      }
+
+      setReplies(newReplies);
+      setTimeout(() => {
+        endRef.current?.scrollIntoView({ behavior: "smooth" });
+      }, SCROLL_DELAY);
+    });
+
+    return unsubscribe;
+  }, [chatId, rootId]);
+
+  const allReplies = [...olderReplies, ...replies];
+  const senderIdsKey = Array.from(
+    new Set([root?.senderId, ...allReplies.map((reply) => reply.senderId)].filter(Boolean))
+  )
+    .sort()
+    .join(",");
+
+  useEffect(() => {
+    if (!senderIdsKey) return;
+
+    const unsubscribe = subscribeToUserProfiles(senderIdsKey.split(","), setProfiles);
+
+    return unsubscribe;
+  }, [senderIdsKey]);
+
+  const handleLoadOlder = async () => {
+    if (!rootId || !cursor || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+
+    const result = await loadOlderThreadMessages(chatId, rootId, cursor);
+
+    if (result.ok) {
+      setOlderReplies((previous) => [...result.data.messages, ...previous]);
+      setCursor(result.data.cursor);
+    } else {
+      toast.error(result.error);
+    }
+
+    setIsLoadingOlder(false);
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rootId || !replyInput.trim() || isSending) return;
+
+    setIsSending(true);
+
+    const result = await sendMessage(chatId, replyInput, currentUser.uid, {
+      kind: "thread",
+      messageId: rootId,
+    });
+
+    if (result.ok) {
+      setReplyInput("");
+    } else {
+      toast.error(result.error);
+    }
+
+    setIsSending(false);
+  };
+
+  const isClosed = !root || !!root.deletedAt;
+
+  return (
+    <aside className="fixed top-16 right-0 bottom-0 z-20 flex flex-col w-full sm:w-96 bg-[#111111] border-l border-white/10 text-[#dbdee1]">
+      <div className="flex items-center justify-between px-4 h-12 border-b border-white/10">
+        <h2 className="flex items-center gap-2 font-semibold text-white">
+          <MessageSquare className="w-4 h-4 text-indigo-400" /> Thread
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-zinc-500 hover:text-white"
+          aria-label="Close thread"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {root ? (
+          <div className="pb-3 border-b border-white/10">
+            <ThreadMessageItem message={root} profiles={profiles} />
+            <p className="mt-2 text-xs text-zinc-500">
+              {root.threadReplyCount === 1
+                ? "1 reply"
+                : `${root.threadReplyCount ?? 0} replies`}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-zinc-500">This message isn&apos;t loaded anymore.</p>
+        )}
+
+        {cursor && (
+          <button
+            onClick={handleLoadOlder}
+            disabled={isLoadingOlder}
+            className="w-full text-center text-xs text-indigo-400 hover:underline disabled:text-zinc-500 disabled:no-underline"
+          >
+            {isLoadingOlder ? "Loading older replies..." : "Load older replies"}
+          </button>
+        )}
+
+        {allReplies.map((reply) => (
+          <ThreadMessageItem key={reply.id} message={reply} profiles={profiles} />
+        ))}
+        <div ref={endRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="flex items-center gap-2 p-3 border-t border-white/10">
+        <input
+          value={replyInput}
+          onChange={(e) => setReplyInput(e.target.value)}
+          placeholder={isClosed ? "This thread is closed" : "Reply in thread"}
+          className="flex-1 bg-[#1d1d1d] border-none outline-none rounded-lg p-2 px-4 text-[#dbdee1] placeholder:text-zinc-500"
+          disabled={isClosed || isSending}
+        />
+        <Button
+          type="submit"
+          size="icon"
+          variant="ghost"
+          className="hover:bg-[#1d1d1d] text-zinc-400 hover:text-white"
+          disabled={isClosed || isSending || !replyInput.trim()}
+        >
+          <SendHorizontal className="w-5 h-5" />
+        </Button>
+      </form>
+    </aside>
+  );
+}
+
+interface ThreadMessageItemProps {
+  message: Message;
+  profiles: Record<string, SenderProfile>;
+}
+
+function ThreadMessageItem({ message, profiles }: ThreadMessageItemProps) {
+  const sender = resolveMessageSender(message, profiles);
+
+  return (
+    <div className="flex items-start gap-3">
+      <Avatar className="w-8 h-8 mt-1">
+        <AvatarImage src={sender.photo} alt={sender.name} />
+        <AvatarFallback className="bg-indigo-500 text-white text-xs">
+          {sender.name?.[0]?.toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div className="flex flex-col flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-semibold text-white">{sender.name}</span>
+          <span className="text-[10px] text-zinc-500">
+            {message.timestamp?.toDate().toLocaleString([], {
+              dateStyle: "short",
+              timeStyle: "short",
+            })}
+          </span>
+        </div>
+        {message.deletedAt ? (
+          <p className="flex items-center gap-1 text-sm italic text-zinc-500">
+            <Trash2 className="w-3 h-3" /> Message deleted
+          </p>
+        ) : (
+          <MessageContent message={message} />
+        )}
       </div>
     </div>
   );
@@ -631,11 +2238,16 @@ interface MessageContentProps {
 }
 
 function MessageContent({ message }: MessageContentProps) {
+  const remarkPlugins = useMemo(
+    () => [remarkGfm, remarkMentions(message.mentions ?? [])],
+    [message.mentions]
+  );
+
   return (
     <>
       <div className="text-[#dbdee1] leading-relaxed wrap-break-word overflow-hidden">
         <ReactMarkdown
-          remarkPlugins={[remarkGfm]}
+          remarkPlugins={remarkPlugins}
           components={{
             h1: ({ children }) => (
               <h1 className="text-xl font-bold border-b border-zinc-700 pb-1 mt-2 mb-1 text-white">
@@ -649,7 +2261,18 @@ function MessageContent({ message }: MessageContentProps) {
               <strong className="font-bold text-white">{children}</strong>
             ),
             em: ({ children }) => <em className="italic">{children}</em>,
-            a: ({ href, children }) => {
+            a: ({ href, children, ...props }: any) => {
+              if (props["data-mention"] && href) {
+                return (
+                  <Link
+                    href={href}
+                    className="rounded bg-indigo-500/20 px-1 font-medium text-indigo-300 hover:bg-indigo-500/40"
+                  >
+                    {children}
+                  </Link>
+                );
+              }
+
               const isYouTube = href?.includes("youtube.com") || href?.includes("youtu.be");
               return (
                 <>
@@ -735,29 +2358,202 @@ function extractYouTubeId(url: string): string | null {
   return match && match[2].length === 11 ? match[2] : null;
 }
 
+interface MentionSuggestionListProps {
+  suggestions: MentionSuggestion[];
+  activeIndex: number;
+  onPick: (suggestion: MentionSuggestion) => void;
+}
+
+function MentionSuggestionList({ suggestions, activeIndex, onPick }: MentionSuggestionListProps) {
+  return (
+    <ul
+      role="listbox"
+      aria-label="Mention suggestions"
+      className="mx-4 mb-1 max-h-64 overflow-y-auto rounded-lg border border-white/10 bg-[#1d1d1d] py-1 shadow-lg"
+    >
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={suggestion.uid}
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus in the input while picking
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(suggestion)}
+          className={`flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer ${
+            index === activeIndex ? "bg-indigo-500/20 text-white" : "text-[#dbdee1]"
+          }`}
+        >
+          <Avatar className="w-6 h-6">
+            <AvatarImage src={suggestion.photoURL} alt={suggestion.username} />
+            <AvatarFallback className="bg-indigo-500 text-white text-xs">
+              {suggestion.username[0]?.toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <span className="font-medium">@{suggestion.username}</span>
+          {!suggestion.isMember && (
+            <span className="ml-auto text-xs text-zinc-500">Not in this chat</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 interface MessageInputFormProps {
+  chatId: string;
+  currentUserId: string | undefined;
+  typing: TypingMember[]; // Other members who are typing right now
+  members: ChatMember[]; // Suggested first when mentioning someone
   messageInput: string;
   isUploading: boolean;
+  replyingTo: Message | null;
+  senderProfiles: Record<string, SenderProfile>;
   onMessageChange: (text: string) => void;
   onSubmit: (e: React.FormEvent) => void;
+  onCancelReply: () => void;
   onFileInputClick: () => void;
   fileInputRef: React.RefObject<HTMLInputElement | null>;
   onFileUpload: (e: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
 function MessageInputForm({
+  chatId,
+  currentUserId,
+  typing,
+  members,
   messageInput,
   isUploading,
+  replyingTo,
+  senderProfiles,
   onMessageChange,
   onSubmit,
+  onCancelReply,
   onFileInputClick,
   fileInputRef,
   onFileUpload,
 }: MessageInputFormProps) {
+  const notifyTyping = useTypingNotifier(chatId, currentUserId);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const isSuggesting = !!mentionQuery && suggestions.length > 0;
+
+  // Covers typing, clearing the input and sending
+  useEffect(() => {
+    notifyTyping(messageInput);
+  }, [messageInput, notifyTyping]);
+
+  // Look up who matches the mention being typed
+  useEffect(() => {
+    if (!mentionQuery || !currentUserId) {
+      setSuggestions([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const timer = setTimeout(() => {
+      getMentionSuggestions(mentionQuery.query, members, currentUserId).then((result) => {
+        if (isCancelled) return;
+
+        setSuggestions(result.ok ? result.data : []);
+        setActiveSuggestion(0);
+      });
+    }, MENTION_SEARCH_DELAY);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [mentionQuery, members, currentUserId]);
+
+  const updateMentionQuery = (input: HTMLInputElement) => {
+    const caret = input.selectionStart;
+    const next = caret === null ? null : getMentionQuery(input.value, caret);
+
+    setMentionQuery((current) =>
+      current?.start === next?.start && current?.query === next?.query ? current : next
+    );
+  };
+
+  const handlePickMention = (suggestion: MentionSuggestion) => {
+    const input = inputRef.current;
+    if (!mentionQuery || !input) return;
+
+    const next = insertMention(
+      messageInput,
+      mentionQuery,
+      input.selectionStart ?? messageInput.length,
+      suggestion.username
+    );
+
+    onMessageChange(next.text);
+    setMentionQuery(null);
+
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isSuggesting) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveSuggestion((index) => (index + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault();
+      handlePickMention(suggestions[Math.min(activeSuggestion, suggestions.length - 1)]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      setMentionQuery(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    setMentionQuery(null);
+    onSubmit(e);
+  };
+
   return (
     <div className="fixed bottom-0 w-screen">
+      {isSuggesting && (
+        <MentionSuggestionList
+          suggestions={suggestions}
+          activeIndex={activeSuggestion}
+          onPick={handlePickMention}
+        />
+      )}
+      {typing.length > 0 && (
+        <p className="px-4 py-1 text-xs italic text-zinc-400" aria-live="polite">
+          {describeTyping(typing)}
+        </p>
+      )}
+      {replyingTo && (
+        <div className="flex items-center gap-2 bg-[#1d1d1d] px-4 py-1.5 text-xs text-zinc-400">
+          <Reply className="w-3 h-3 shrink-0" />
+          <span className="shrink-0">
+            Replying to{" "}
+            <span className="font-semibold text-zinc-200">
+              @{resolveMessageSender(replyingTo, senderProfiles).name}
+            </span>
+          </span>
+          <span className="flex-1 truncate">{getMessageSnippet(replyingTo)}</span>
+          <button
+            type="button"
+            onClick={onCancelReply}
+            className="text-zinc-500 hover:text-white"
+            aria-label="Cancel reply"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
       <form
-        onSubmit={onSubmit}
+        onSubmit={handleSubmit}
         className="flex items-center gap-2 bg-[#111111] rounded-lg px-4 py-2 shadow-inner"
       >
         <button
@@ -780,8 +2576,17 @@ function MessageInputForm({
         />
 
         <input
+          ref={inputRef}
           value={messageInput}
-          onChange={(e) => onMessageChange(e.target.value)}
+          onChange={(e) => {
+            onMessageChange(e.target.value);
+            updateMentionQuery(e.target);
+          }}
+          onSelect={(e) => updateMentionQuery(e.currentTarget)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded={isSuggesting}
+          aria-autocomplete="list"
           placeholder={isUploading ? "Uploading..." : "Message"}
           className="flex-1 bg-[#1d1d1d] border-none outline-none rounded-lg p-2 px-4 focus-visible:ring-0 text-[#dbdee1] placeholder:text-zinc-500"
           disabled={isUploading}
@@ -1,6 +1,14 @@
 import type { Metadata, Viewport } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
+import { ToastProvider } from "@/components/Toaster";
+import { DeliveryTracker } from "@/components/DeliveryTracker";
+import { UnreadBadge } from "@/components/UnreadBadge";
+import { PresenceTracker } from "@/components/PresenceTracker";
+import { MentionNotifier } from "@/components/MentionNotifier";
+import { PushTracker } from "@/components/PushTracker";
+import { ServiceWorkerLoader } from "@/components/ServiceWorkerLoader";
+import { OfflineBanner } from "@/components/OfflineBanner";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -50,7 +58,16 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className={inter.className}>
-        {children}
+        <ToastProvider>
+          <DeliveryTracker />
+          <UnreadBadge />
+          <PresenceTracker />
+          <MentionNotifier />
+          <PushTracker />
+          <ServiceWorkerLoader />
+          <OfflineBanner />
+          {children}
+        </ToastProvider>
         <div className="loading">
           <svg
             width="591"
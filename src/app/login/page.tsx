@@ -1,15 +1,23 @@
 "use client";
 
 import React, { useState } from "react";
-import { auth, db, googleProvider } from "@/lib/firebase";
-import { signInWithPopup } from "firebase/auth";
-import { 
-  doc, setDoc, getDoc, query, collection, where, getDocs 
-} from "firebase/firestore";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Chrome, UserPlus, LogIn } from "lucide-react";
+import { useToast } from "@/components/Toaster";
+import {
+  cancelSignIn,
+  createUserProfile,
+  getUserProfile,
+  isUsernameAvailable,
+  signIn,
+} from "@/lib/api";
+import {
+  USERNAME_MAX_LENGTH,
+  normalizeUsername,
+  validateUsername,
+} from "@/lib/username";
 
 export default function AuthPage() {
   const [isLoginView, setIsLoginView] = useState(true); // Toggle state
@@ -17,6 +25,7 @@ export default function AuthPage() {
   const [error, setError] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const router = useRouter();
+  const toast = useToast();
 
   // --- SIGNUP FLOW (With Username Check) ---
   const handleSignup = async (e: React.FormEvent) => {
@@ -24,66 +33,70 @@ export default function AuthPage() {
     setError("");
     setIsLoading(true);
 
-    if (username.length < 3) {
-      setError("Username must be at least 3 characters.");
+    const normalizedUsername = normalizeUsername(username);
+    const validationError = validateUsername(normalizedUsername);
+    if (validationError) {
+      setError(validationError);
       setIsLoading(false);
       return;
     }
 
-    try {
-      // 1. Check uniqueness
-      const q = query(collection(db, "users"), where("username", "==", username.toLowerCase()));
-      const querySnapshot = await getDocs(q);
-
-      if (!querySnapshot.empty) {
+    // 1. Fail fast if the name is already reserved
+    const availability = await isUsernameAvailable(normalizedUsername);
+    if (!availability.ok || !availability.data) {
+      if (availability.ok) {
         setError("Username is already taken.");
-        setIsLoading(false);
-        return;
+      } else {
+        toast.error(availability.error);
       }
+      setIsLoading(false);
+      return;
+    }
 
-      // 2. Auth
-      const result = await signInWithPopup(auth, googleProvider);
-      const user = result.user;
-
-      // 3. Create profile
-      const userDocRef = doc(db, "users", user.uid);
-      await setDoc(userDocRef, {
-        uid: user.uid,
-        email: user.email,
-        displayName: user.displayName,
-        photoURL: user.photoURL,
-        username: username.toLowerCase(),
-        createdAt: new Date(),
-      });
-
-      router.push("/me");
-    } catch (err: any) {
-      setError("Signup failed. Ensure you chose a Google account." + err);
+    // 2. Auth
+    const account = await signIn();
+    if (!account.ok) {
+      toast.error(account.error);
       setIsLoading(false);
+      return;
+    }
+
+    // 3. Reserve the username and create the profile atomically
+    const profile = await createUserProfile(account.data, normalizedUsername);
+    if (!profile.ok) {
+      await cancelSignIn();
+      toast.error(profile.error);
+      setIsLoading(false);
+      return;
     }
+
+    router.push("/me");
   };
 
   // --- LOGIN FLOW (Direct Google Popup) ---
   const handleLogin = async () => {
     setIsLoading(true);
-    try {
-      const result = await signInWithPopup(auth, googleProvider);
-      const user = result.user;
-
-      // Check if they actually have a profile
-      const userDoc = await getDoc(doc(db, "users", user.uid));
-      
-      if (!userDoc.exists()) {
+    const account = await signIn();
+    if (!account.ok) {
+      toast.error(account.error);
+      setIsLoading(false);
+      return;
+    }
+
+    // Check if they actually have a profile
+    const profile = await getUserProfile(account.data.uid);
+
+    if (!profile.ok) {
+      if (profile.error.code === "profile-not-found") {
         setError("No account found with this Google email. Please Sign Up first.");
-        setIsLoading(false);
-        return;
+      } else {
+        toast.error(profile.error);
       }
-
-      router.push("/me");
-    } catch (err) {
-      setError("Login failed. " + err);
       setIsLoading(false);
+      return;
     }
+
+    router.push("/me");
   };
 
   return (
@@ -117,6 +130,7 @@ export default function AuthPage() {
                 placeholder="pick_a_username"
                 value={username}
                 onChange={(e) => setUsername(e.target.value.replace(/\s/g, ""))}
+                maxLength={USERNAME_MAX_LENGTH}
                 className="bg-black border-zinc-800 text-white"
                 required
               />
@@ -3,35 +3,63 @@
 import { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
-import { onAuthStateChanged } from "firebase/auth";
-import { useAuthState } from "react-firebase-hooks/auth";
-import { UserPlus } from "lucide-react";
+import { BellOff, Search, UserPlus, Users } from "lucide-react";
 
 import Navbar from "@/components/Navbar";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
-import { auth } from "@/lib/firebase";
-import { subscribeToChats, createOrGetChat } from "@/lib/api";
+import { useToast } from "@/components/Toaster";
+import { useSession } from "@/hooks/useSession";
+import { useTypingMembers } from "@/hooks/useTyping";
+import { usePresence } from "@/hooks/usePresence";
+import { PresenceDot } from "@/components/PresenceDot";
+import { describePresence } from "@/lib/presence";
+import type { UserPresence } from "@/lib/presence";
+import { subscribeToChats, createOrGetChat, createGroupChat, describeTyping } from "@/lib/api";
+import { subscribeToMentionCounts, subscribeToUnreadCounts } from "@/lib/unread";
+import { subscribeToUserProfiles } from "@/lib/userDirectory";
 
 // Types
 interface ChatListItem {
   id: string;
+  isGroup: boolean;
+  title: string;
+  uid: string;
   username: string;
   photoURL: string;
   email: string;
   message: string;
   timestamp: any;
+  memberCount: number;
+  typing: TypingMember[];
 }
 
+interface TypingMember {
+  uid: string;
+  username: string;
+  expiresAt: number;
+}
+
+// Constants
+const MAX_UNREAD_BADGE = 99;
+
 export default function ChatsPage() {
   const router = useRouter();
-  const [currentUser, isAuthLoading] = useAuthState(auth);
+  const [currentUser, isAuthLoading] = useSession();
+  const toast = useToast();
 
   // State
   const [chats, setChats] = useState<ChatListItem[]>([]);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [mentionCounts, setMentionCounts] = useState<Record<string, number>>({});
+  const [mutedChats, setMutedChats] = useState<string[]>([]);
   const [newChatUsername, setNewChatUsername] = useState("");
   const [isCreatingChat, setIsCreatingChat] = useState(false);
+  const [isGroupMode, setIsGroupMode] = useState(false);
+  const [newGroupTitle, setNewGroupTitle] = useState("");
+  const [newGroupMembers, setNewGroupMembers] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [presence, presenceNow] = usePresence(chats.map((chat) => chat.uid));
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -51,6 +79,42 @@ export default function ChatsPage() {
     return unsubscribe;
   }, [currentUser, isAuthLoading]);
 
+  // Subscribe to unread counts
+  useEffect(() => {
+    if (!currentUser?.email || isAuthLoading) return;
+
+    const unsubscribe = subscribeToUnreadCounts(
+      currentUser.uid,
+      currentUser.email,
+      setUnreadCounts
+    );
+
+    return unsubscribe;
+  }, [currentUser, isAuthLoading]);
+
+  // Subscribe to unread mentions, which count even in muted chats
+  useEffect(() => {
+    if (!currentUser?.email || isAuthLoading) return;
+
+    const unsubscribe = subscribeToMentionCounts(
+      currentUser.uid,
+      currentUser.email,
+      setMentionCounts
+    );
+
+    return unsubscribe;
+  }, [currentUser, isAuthLoading]);
+
+  // Follow which chats the user muted
+  useEffect(() => {
+    if (!currentUser || isAuthLoading) return;
+
+    const uid = currentUser.uid;
+    return subscribeToUserProfiles([uid], (profiles) => {
+      setMutedChats(profiles[uid]?.mutedChats ?? []);
+    });
+  }, [currentUser, isAuthLoading]);
+
   // Handle creating a new chat
   const handleCreateChat = useCallback(
     async (e: React.FormEvent) => {
@@ -69,26 +133,61 @@ export default function ChatsPage() {
 
       setIsCreatingChat(true);
 
-      try {
-        const chatId = await createOrGetChat(
-          currentUser.email,
-          newChatUsername.trim(),
-        );
-
-        if (chatId) {
-          setNewChatUsername("");
-          router.push(`/chat/${chatId}`);
-        } else {
-          setError("User not found or chat creation failed");
-        }
-      } catch (err) {
-        console.error("Error creating chat:", err);
-        setError("Failed to create chat. Please try again.");
-      } finally {
-        setIsCreatingChat(false);
+      const result = await createOrGetChat(
+        currentUser.email,
+        newChatUsername.trim(),
+      );
+      setIsCreatingChat(false);
+
+      if (result.ok) {
+        setNewChatUsername("");
+        router.push(`/chat/${result.data}`);
+      } else {
+        toast.error(result.error);
+      }
+    },
+    [newChatUsername, currentUser, router, toast],
+  );
+
+  // Handle creating a new group chat
+  const handleCreateGroup = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      setError(null);
+
+      const memberUsernames = newGroupMembers
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean);
+
+      if (!newGroupTitle.trim() || memberUsernames.length === 0) {
+        setError("Please enter a group name and at least one username");
+        return;
+      }
+
+      if (!currentUser?.email) {
+        setError("You must be logged in to create a group");
+        return;
+      }
+
+      setIsCreatingChat(true);
+
+      const result = await createGroupChat(
+        currentUser.email,
+        newGroupTitle,
+        memberUsernames,
+      );
+      setIsCreatingChat(false);
+
+      if (result.ok) {
+        setNewGroupTitle("");
+        setNewGroupMembers("");
+        router.push(`/chat/${result.data}`);
+      } else {
+        toast.error(result.error);
       }
     },
-    [newChatUsername, currentUser, router],
+    [newGroupTitle, newGroupMembers, currentUser, router, toast],
   );
 
   // Format timestamp
@@ -126,39 +225,73 @@ export default function ChatsPage() {
         <div className="container mx-auto px-4 pt-24 pb-8">
           {/* Create new chat form */}
           <div className="max-w-2xl mx-auto mb-8">
-            <form onSubmit={handleCreateChat} className="space-y-4">
-              <div className="flex gap-2">
-                <input
-                  type="text"
-                  placeholder="Enter username to start a chat"
-                  value={newChatUsername}
-                  onChange={(e) => setNewChatUsername(e.target.value)}
-                  className="flex-1 bg-[#1d1d1d] text-white border border-white/20 rounded-md p-3 outline-none focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 transition-all"
-                  disabled={isCreatingChat}
-                />
-                <Button
-                  type="submit"
-                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-6"
-                  disabled={isCreatingChat || !newChatUsername.trim()}
-                >
-                  {isCreatingChat ? (
-                    "Creating..."
-                  ) : (
-                    <>
-                      <UserPlus className="w-4 h-4 mr-2" />
-                      Start Chat
-                    </>
-                  )}
-                </Button>
-              </div>
+            {isGroupMode ? (
+              <CreateGroupForm
+                title={newGroupTitle}
+                members={newGroupMembers}
+                isCreating={isCreatingChat}
+                onTitleChange={setNewGroupTitle}
+                onMembersChange={setNewGroupMembers}
+                onSubmit={handleCreateGroup}
+              />
+            ) : (
+              <form onSubmit={handleCreateChat} className="space-y-4">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Enter username to start a chat"
+                    value={newChatUsername}
+                    onChange={(e) => setNewChatUsername(e.target.value)}
+                    className="flex-1 bg-[#1d1d1d] text-white border border-white/20 rounded-md p-3 outline-none focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 transition-all"
+                    disabled={isCreatingChat}
+                  />
+                  <Button
+                    type="submit"
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white px-6"
+                    disabled={isCreatingChat || !newChatUsername.trim()}
+                  >
+                    {isCreatingChat ? (
+                      "Creating..."
+                    ) : (
+                      <>
+                        <UserPlus className="w-4 h-4 mr-2" />
+                        Start Chat
+                      </>
+                    )}
+                  </Button>
+                </div>
+              </form>
+            )}
 
-              {error && <p className="text-red-400 text-sm">{error}</p>}
-            </form>
+            {error && <p className="text-red-400 text-sm mt-4">{error}</p>}
+
+            <button
+              type="button"
+              onClick={() => {
+                setIsGroupMode(!isGroupMode);
+                setError(null);
+              }}
+              className="mt-4 text-zinc-400 hover:text-white text-sm transition-colors flex items-center gap-2"
+            >
+              {isGroupMode ? (
+                <><UserPlus className="w-4 h-4" /> Start a direct message instead</>
+              ) : (
+                <><Users className="w-4 h-4" /> Create a group instead</>
+              )}
+            </button>
           </div>
 
           {/* Chat list */}
           <div className="max-w-2xl mx-auto">
-            <h2 className="text-xl font-bold mb-4 text-white/80">Your Chats</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold text-white/80">Your Chats</h2>
+              <Link
+                href="/search"
+                className="text-zinc-400 hover:text-white text-sm transition-colors flex items-center gap-2"
+              >
+                <Search className="w-4 h-4" /> Search messages
+              </Link>
+            </div>
 
             {chats.length === 0 ? (
               <EmptyChatState />
@@ -168,6 +301,12 @@ export default function ChatsPage() {
                   <ChatListItem
                     key={chat.id}
                     chat={chat}
+                    currentUserId={currentUser?.uid}
+                    presence={presence[chat.uid] ?? null}
+                    presenceNow={presenceNow}
+                    unreadCount={unreadCounts[chat.id] ?? 0}
+                    mentionCount={mentionCounts[chat.id] ?? 0}
+                    isMuted={mutedChats.includes(chat.id)}
                     formatTimestamp={formatTimestamp}
                   />
                 ))}
@@ -190,44 +329,170 @@ function EmptyChatState() {
       </div>
       <h3 className="text-lg font-semibold text-white/70 mb-1">No chats yet</h3>
       <p className="text-zinc-500 text-sm">
-        Enter a username above to start your first conversation
+        Enter a username above to start your first conversation or create a group
       </p>
     </div>
   );
 }
 
+interface CreateGroupFormProps {
+  title: string;
+  members: string;
+  isCreating: boolean;
+  onTitleChange: (title: string) => void;
+  onMembersChange: (members: string) => void;
+  onSubmit: (e: React.FormEvent) => void;
+}
+
+function CreateGroupForm({
+  title,
+  members,
+  isCreating,
+  onTitleChange,
+  onMembersChange,
+  onSubmit,
+}: CreateGroupFormProps) {
+  const inputClassName =
+    "w-full bg-[#1d1d1d] text-white border border-white/20 rounded-md p-3 outline-none focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 transition-all";
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-2">
+      <input
+        type="text"
+        placeholder="Group name"
+        value={title}
+        onChange={(e) => onTitleChange(e.target.value)}
+        className={inputClassName}
+        disabled={isCreating}
+      />
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="Members, separated by commas"
+          value={members}
+          onChange={(e) => onMembersChange(e.target.value)}
+          className={inputClassName}
+          disabled={isCreating}
+        />
+        <Button
+          type="submit"
+          className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 h-auto"
+          disabled={isCreating || !title.trim() || !members.trim()}
+        >
+          {isCreating ? (
+            "Creating..."
+          ) : (
+            <>
+              <Users className="w-4 h-4 mr-2" />
+              Create Group
+            </>
+          )}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
 interface ChatListItemProps {
   chat: ChatListItem;
+  currentUserId: string | undefined;
+  presence: UserPresence | null; // Other member's presence in a direct chat
+  presenceNow: number;
+  unreadCount: number;
+  mentionCount: number;
+  isMuted: boolean;
   formatTimestamp: (timestamp: any) => string;
 }
 
-function ChatListItem({ chat, formatTimestamp }: ChatListItemProps) {
+function ChatListItem({
+  chat,
+  currentUserId,
+  presence,
+  presenceNow,
+  unreadCount,
+  mentionCount,
+  isMuted,
+  formatTimestamp,
+}: ChatListItemProps) {
+  // Muted chats only stand out for mentions
+  const isUnread = unreadCount > 0 && (!isMuted || mentionCount > 0);
+  const typing = useTypingMembers(chat.typing, currentUserId);
+
   return (
     <Link
       href={`/chat/${chat.id}`}
       className="flex items-start gap-4 p-4 rounded-lg hover:bg-[#1d1d1d] transition-colors group border border-transparent hover:border-white/5"
     >
-      <Avatar className="w-12 h-12 mt-1 ring-2 ring-transparent group-hover:ring-indigo-500/20 transition-all">
-        <AvatarImage src={chat.photoURL} alt={chat.username} />
-        <AvatarFallback className="bg-indigo-500 text-white font-semibold">
-          {chat.username[0]?.toUpperCase()}
-        </AvatarFallback>
-      </Avatar>
+      <div className="relative mt-1 shrink-0">
+        <Avatar className="w-12 h-12 ring-2 ring-transparent group-hover:ring-indigo-500/20 transition-all">
+          <AvatarImage src={chat.photoURL} alt={chat.title} />
+          <AvatarFallback className="bg-indigo-500 text-white font-semibold">
+            {chat.isGroup ? <Users className="w-5 h-5" /> : chat.title[0]?.toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        {presence && (
+          <PresenceDot
+            status={presence.status}
+            label={describePresence(presence, presenceNow)}
+            className="absolute bottom-0 right-0"
+          />
+        )}
+      </div>
 
       <div className="flex-1 min-w-0">
         <div className="flex items-center gap-2 mb-1">
-          <span className="font-semibold text-white group-hover:text-indigo-400 transition-colors truncate">
-            {chat.username}
+          <span
+            className={`text-white group-hover:text-indigo-400 transition-colors truncate ${
+              isUnread ? "font-extrabold" : "font-semibold"
+            }`}
+          >
+            {chat.title}
           </span>
-          <span className="text-xs text-zinc-500 shrink-0">
+          {chat.isGroup && (
+            <span className="text-xs text-zinc-500 shrink-0">
+              {chat.memberCount} members
+            </span>
+          )}
+          {isMuted && <BellOff className="w-3 h-3 text-zinc-500 shrink-0" aria-label="Muted" />}
+          <span className={`text-xs shrink-0 ${isUnread ? "text-indigo-400" : "text-zinc-500"}`}>
             {formatTimestamp(chat.timestamp)}
           </span>
         </div>
-        <p className="text-[#dbdee1] text-sm leading-relaxed truncate">
-          {chat.message || "No messages yet"}
-        </p>
+        {typing.length > 0 ? (
+          <p className="text-sm leading-relaxed truncate italic text-indigo-400">
+            {describeTyping(typing)}
+          </p>
+        ) : (
+          <p
+            className={`text-sm leading-relaxed truncate ${
+              isUnread ? "font-semibold text-white" : "text-[#dbdee1]"
+            }`}
+          >
+            {chat.message || "No messages yet"}
+          </p>
+        )}
       </div>
 
+      {mentionCount > 0 && (
+        <span
+          className="shrink-0 self-center rounded-full bg-amber-500 px-2 py-0.5 text-center text-xs font-bold text-black"
+          aria-label={`${mentionCount} unread mentions`}
+        >
+          @{mentionCount > MAX_UNREAD_BADGE ? `${MAX_UNREAD_BADGE}+` : mentionCount}
+        </span>
+      )}
+
+      {unreadCount > 0 && (
+        <span
+          className={`shrink-0 self-center min-w-6 rounded-full px-2 py-0.5 text-center text-xs font-bold text-white ${
+            isMuted ? "bg-zinc-600" : "bg-indigo-500"
+          }`}
+          aria-label={`${unreadCount} unread messages`}
+        >
+          {unreadCount > MAX_UNREAD_BADGE ? `${MAX_UNREAD_BADGE}+` : unreadCount}
+        </span>
+      )}
+
       <div className="shrink-0 opacity-0 group-hover:opacity-100 transition-opacity">
         <div className="text-indigo-400">→</div>
       </div>
@@ -253,7 +518,7 @@ function ChatListItem({ chat, formatTimestamp }: ChatListItemProps) {
 //   const router = useRouter();
 
 //   const [userName, setUserName] = useState("");
-//   const [user, loader] = useAuthState(auth);
+//   const [user, loader] = useSession();
 //   const [chats, setChats] = useState<any[]>([]);
 
 //   useEffect(() => {
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import { MessageSquare, Settings } from "lucide-react";
+
+import Navbar from "@/components/Navbar";
+import { PresenceDot } from "@/components/PresenceDot";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/Toaster";
+import { usePresence } from "@/hooks/usePresence";
+import { useSession } from "@/hooks/useSession";
+import { createOrGetChat, getUserProfile } from "@/lib/api";
+import { describePresence } from "@/lib/presence";
+
+// Types
+interface UserProfile {
+  uid: string;
+  username: string;
+  photoURL: string;
+}
+
+export default function ProfilePage() {
+  const params = useParams();
+  const uid = params.uid as string;
+  const router = useRouter();
+  const [currentUser, isAuthLoading] = useSession();
+  const toast = useToast();
+
+  // State
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isNotFound, setIsNotFound] = useState(false);
+  const [isOpeningChat, setIsOpeningChat] = useState(false);
+  const [presence, presenceNow] = usePresence([uid]);
+  const userPresence = presence[uid];
+  const isOwnProfile = currentUser?.uid === uid;
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isAuthLoading && !currentUser) {
+      router.push("/login");
+    }
+  }, [currentUser, isAuthLoading, router]);
+
+  // Load profile
+  useEffect(() => {
+    if (!currentUser || !uid) return;
+
+    getUserProfile(uid).then((result) => {
+      if (result.ok) {
+        setProfile(result.data);
+      } else if (result.error.code === "profile-not-found") {
+        setIsNotFound(true);
+      } else {
+        toast.error(result.error);
+      }
+    });
+  }, [currentUser, uid, toast]);
+
+  const handleMessage = useCallback(async () => {
+    if (!currentUser?.email || !profile) return;
+
+    setIsOpeningChat(true);
+    const result = await createOrGetChat(currentUser.email, profile.username);
+    setIsOpeningChat(false);
+
+    if (result.ok) {
+      router.push(`/chat/${result.data}`);
+    } else {
+      toast.error(result.error);
+    }
+  }, [currentUser, profile, router, toast]);
+
+  if (isNotFound) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-zinc-400 text-lg">This user doesn&apos;t exist.</div>
+      </div>
+    );
+  }
+
+  if (isAuthLoading || !profile) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Navbar />
+      <div className="min-h-screen bg-black text-white">
+        <div className="container mx-auto px-4 pt-24 pb-8">
+          <div className="max-w-2xl mx-auto space-y-8">
+            <div className="flex items-center gap-4">
+              <div className="relative">
+                <Avatar className="w-16 h-16">
+                  <AvatarImage src={profile.photoURL} alt={profile.username} />
+                  <AvatarFallback className="bg-indigo-500 text-white font-semibold">
+                    {profile.username[0]?.toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                {userPresence && (
+                  <PresenceDot
+                    status={userPresence.status}
+                    label={describePresence(userPresence, presenceNow)}
+                    className="absolute bottom-0 right-0 w-4 h-4"
+                  />
+                )}
+              </div>
+              <div>
+                <p className="text-xl font-bold">@{profile.username}</p>
+                {userPresence && (
+                  <p className="text-sm text-zinc-500">
+                    {describePresence(userPresence, presenceNow)}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {isOwnProfile ? (
+              <Button asChild className="bg-indigo-500 hover:bg-indigo-600">
+                <Link href="/settings">
+                  <Settings className="w-4 h-4 mr-2" />
+                  Edit settings
+                </Link>
+              </Button>
+            ) : (
+              <Button
+                onClick={handleMessage}
+                disabled={isOpeningChat}
+                className="bg-indigo-500 hover:bg-indigo-600"
+              >
+                <MessageSquare className="w-4 h-4 mr-2" />
+                {isOpeningChat ? "Opening..." : "Send message"}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Search } from "lucide-react";
+
+import Navbar from "@/components/Navbar";
+import { SearchResultList } from "@/components/SearchResultList";
+import { useMessageSearch } from "@/hooks/useMessageSearch";
+import { useSession } from "@/hooks/useSession";
+import type { SearchResult } from "@/lib/search";
+
+// Constants
+const SEARCH_OPERATORS = [
+  { example: "from:alice", description: "sent by a user" },
+  { example: "has:image", description: "with an image" },
+  { example: "has:link", description: "with a link" },
+  { example: "before:2026-01-01", description: "sent before a day" },
+  { example: "after:2026-01-01", description: "sent on or after a day" },
+  { example: "in:weekend", description: "in a chat, by name" },
+];
+
+export default function SearchPage() {
+  const router = useRouter();
+  const [currentUser, isAuthLoading] = useSession();
+
+  // State
+  const [query, setQuery] = useState("");
+  const [results, isSearching] = useMessageSearch(currentUser?.email, query);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isAuthLoading && !currentUser) {
+      router.push("/login");
+    }
+  }, [currentUser, isAuthLoading, router]);
+
+  const handleSelect = useCallback(
+    (result: SearchResult) => {
+      // Thread replies open in their thread, next to the root
+      router.push(
+        result.threadId
+          ? `/chat/${result.chatId}?message=${result.threadId}&thread=1`
+          : `/chat/${result.chatId}?message=${result.messageId}`
+      );
+    },
+    [router]
+  );
+
+  const handleAddOperator = useCallback((operator: string) => {
+    setQuery((previous) => `${previous.trim()} ${operator}`.trimStart());
+  }, []);
+
+  if (isAuthLoading || !currentUser) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Navbar />
+      <div className="min-h-screen bg-black text-white">
+        <div className="container mx-auto px-4 pt-24 pb-8">
+          <div className="max-w-2xl mx-auto space-y-4">
+            <div className="relative">
+              <Search className="w-4 h-4 text-zinc-500 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                placeholder="Search messages in all your chats"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                className="w-full bg-[#1d1d1d] text-white border border-white/20 rounded-md p-3 pl-9 outline-none focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20 transition-all"
+                autoFocus
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {SEARCH_OPERATORS.map((operator) => (
+                <button
+                  key={operator.example}
+                  type="button"
+                  onClick={() => handleAddOperator(operator.example)}
+                  title={operator.description}
+                  className="px-2 py-1 rounded-md bg-[#2b2d31] text-xs text-zinc-400 hover:text-white transition-colors"
+                >
+                  {operator.example}
+                </button>
+              ))}
+            </div>
+
+            {results.length > 0 ? (
+              <SearchResultList results={results} showChatTitle onSelect={handleSelect} />
+            ) : (
+              query.trim() && (
+                <p className="text-center py-10 text-zinc-500 text-sm">
+                  {isSearching ? "Searching..." : "No messages found."}
+                </p>
+              )
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { AtSign, Bell, EyeOff } from "lucide-react";
+
+import Navbar from "@/components/Navbar";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/Toaster";
+import { useSession } from "@/hooks/useSession";
+import { changeUsername, getUserProfile, updatePrivacySettings } from "@/lib/api";
+import { disablePush, enablePush, getPushStatus, type PushStatus } from "@/lib/push";
+import { USERNAME_MAX_LENGTH } from "@/lib/username";
+
+// Types
+interface UserProfile {
+  username: string;
+  photoURL: string;
+  email: string;
+  privacy?: PrivacySettings;
+}
+
+interface PrivacySettings {
+  readReceipts?: boolean;
+  showPresence?: boolean;
+}
+
+// Constants
+// Why the push switch is off and can't be turned on
+const PUSH_UNAVAILABLE_REASONS: Partial<Record<PushStatus, string>> = {
+  unsupported: "This browser can't receive push notifications.",
+  unavailable: "Push notifications aren't set up for this site.",
+  blocked: "Notifications are blocked. Allow them in your browser's site settings to turn this on.",
+};
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const [currentUser, isAuthLoading] = useSession();
+  const toast = useToast();
+
+  // State
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [newUsername, setNewUsername] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [pushStatus, setPushStatus] = useState<PushStatus | null>(null); // null until checked
+  const [isUpdatingPush, setIsUpdatingPush] = useState(false);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isAuthLoading && !currentUser) {
+      router.push("/login");
+    }
+  }, [currentUser, isAuthLoading, router]);
+
+  // Load profile
+  useEffect(() => {
+    if (!currentUser) return;
+
+    getUserProfile(currentUser.uid).then((result) => {
+      if (result.ok) {
+        setProfile(result.data);
+      } else {
+        toast.error(result.error);
+      }
+    });
+  }, [currentUser, toast]);
+
+  // Push subscriptions belong to the device, so check this browser's
+  useEffect(() => {
+    getPushStatus().then(setPushStatus);
+  }, []);
+
+  const handleChangeUsername = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      setNotice(null);
+
+      if (!currentUser || !profile) return;
+
+      setIsSaving(true);
+
+      const result = await changeUsername(currentUser.uid, newUsername);
+      setIsSaving(false);
+
+      if (result.ok) {
+        setProfile({ ...profile, username: result.data });
+        setNewUsername("");
+        setNotice(`Your username is now @${result.data}.`);
+      } else {
+        toast.error(result.error);
+      }
+    },
+    [currentUser, profile, newUsername, toast],
+  );
+
+  const handleTogglePrivacy = useCallback(async (setting: keyof PrivacySettings) => {
+    if (!currentUser || !profile) return;
+
+    const changes = { [setting]: profile.privacy?.[setting] === false };
+    const previous = profile;
+
+    // Flip the switch right away and put it back if saving fails
+    setProfile({ ...profile, privacy: { ...profile.privacy, ...changes } });
+
+    const result = await updatePrivacySettings(currentUser.uid, changes);
+
+    if (!result.ok) {
+      setProfile(previous);
+      toast.error(result.error);
+    }
+  }, [currentUser, profile, toast]);
+
+  const handleTogglePush = useCallback(async () => {
+    if (!currentUser) return;
+
+    setIsUpdatingPush(true);
+
+    const result =
+      pushStatus === "enabled"
+        ? await disablePush(currentUser.uid)
+        : await enablePush(currentUser.uid);
+
+    setPushStatus(await getPushStatus());
+    setIsUpdatingPush(false);
+
+    if (!result.ok) {
+      toast.error(result.error);
+    }
+  }, [currentUser, pushStatus, toast]);
+
+  if (isAuthLoading || !profile) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="text-white text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Navbar />
+      <div className="min-h-screen bg-black text-white">
+        <div className="container mx-auto px-4 pt-24 pb-8">
+          <div className="max-w-2xl mx-auto space-y-8">
+            <div className="flex items-center gap-4">
+              <Avatar className="w-16 h-16">
+                <AvatarImage src={profile.photoURL} alt={profile.username} />
+                <AvatarFallback className="bg-indigo-500 text-white font-semibold">
+                  {profile.username[0]?.toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <div>
+                <p className="text-xl font-bold">@{profile.username}</p>
+                <p className="text-sm text-zinc-500">{profile.email}</p>
+              </div>
+            </div>
+
+            <section className="bg-[#1d1d1d] rounded-lg border border-white/10 p-6 space-y-4">
+              <div>
+                <h2 className="text-lg font-semibold text-white/80">Change username</h2>
+                <p className="text-sm text-zinc-500">
+                  Your chats and messages stay with you. People who look up your old name
+                  will still find you for a while.
+                </p>
+              </div>
+
+              <form onSubmit={handleChangeUsername} className="flex gap-2">
+                <Input
+                  placeholder="new_username"
+                  value={newUsername}
+                  onChange={(e) => setNewUsername(e.target.value.replace(/\s/g, ""))}
+                  maxLength={USERNAME_MAX_LENGTH}
+                  className="bg-black border-zinc-800 text-white"
+                  disabled={isSaving}
+                />
+                <Button
+                  type="submit"
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-6"
+                  disabled={isSaving || !newUsername.trim()}
+                >
+                  {isSaving ? (
+                    "Saving..."
+                  ) : (
+                    <>
+                      <AtSign className="w-4 h-4 mr-2" />
+                      Change
+                    </>
+                  )}
+                </Button>
+              </form>
+
+              {notice && <p className="text-green-400 text-sm">{notice}</p>}
+            </section>
+
+            <section className="bg-[#1d1d1d] rounded-lg border border-white/10 p-6 space-y-4">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-white/80">
+                <EyeOff className="w-4 h-4" />
+                Privacy
+              </h2>
+
+              <label className="flex items-start justify-between gap-4 cursor-pointer">
+                <span>
+                  <span className="block text-sm text-white">Send read receipts</span>
+                  <span className="block text-sm text-zinc-500">
+                    Let others see when you&apos;ve read their messages. They can still see
+                    that messages were delivered to you.
+                  </span>
+                </span>
+                <input
+                  type="checkbox"
+                  checked={profile.privacy?.readReceipts !== false}
+                  onChange={() => handleTogglePrivacy("readReceipts")}
+                  className="mt-1 h-4 w-4 accent-indigo-500"
+                />
+              </label>
+
+              <label className="flex items-start justify-between gap-4 cursor-pointer">
+                <span>
+                  <span className="block text-sm text-white">Show when I&apos;m online</span>
+                  <span className="block text-sm text-zinc-500">
+                    Turn this off to appear invisible. Others will see you as offline, last
+                    seen when you turned it off.
+                  </span>
+                </span>
+                <input
+                  type="checkbox"
+                  checked={profile.privacy?.showPresence !== false}
+                  onChange={() => handleTogglePrivacy("showPresence")}
+                  className="mt-1 h-4 w-4 accent-indigo-500"
+                />
+              </label>
+            </section>
+
+            <section className="bg-[#1d1d1d] rounded-lg border border-white/10 p-6 space-y-4">
+              <h2 className="flex items-center gap-2 text-lg font-semibold text-white/80">
+                <Bell className="w-4 h-4" />
+                Notifications
+              </h2>
+
+              <label className="flex items-start justify-between gap-4 cursor-pointer">
+                <span>
+                  <span className="block text-sm text-white">Push notifications on this device</span>
+                  <span className="block text-sm text-zinc-500">
+                    {(pushStatus && PUSH_UNAVAILABLE_REASONS[pushStatus]) ??
+                      "Get notified about new messages when Pagecord is closed. Muted chats only notify you when you're mentioned."}
+                  </span>
+                </span>
+                <input
+                  type="checkbox"
+                  checked={pushStatus === "enabled"}
+                  disabled={
+                    isUpdatingPush || (pushStatus !== "enabled" && pushStatus !== "disabled")
+                  }
+                  onChange={handleTogglePush}
+                  className="mt-1 h-4 w-4 accent-indigo-500 disabled:opacity-50"
+                />
+              </label>
+            </section>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
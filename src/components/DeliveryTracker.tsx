@@ -0,0 +1,24 @@
+"use client";
+
+import { useEffect } from "react";
+
+import { useSession } from "@/hooks/useSession";
+import { trackDeliveries } from "@/lib/api";
+
+/**
+ * Marks new messages in the user's chats as delivered while the app is
+ * open on any page. Renders nothing.
+ */
+export function DeliveryTracker() {
+  const [account] = useSession();
+  const uid = account?.uid;
+  const email = account?.email;
+
+  useEffect(() => {
+    if (!uid || !email) return;
+
+    return trackDeliveries(uid, email);
+  }, [uid, email]);
+
+  return null;
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+
+import { useToast } from "@/components/Toaster";
+import { useSession } from "@/hooks/useSession";
+import { subscribeToChats } from "@/lib/api";
+import { subscribeToMentionCounts } from "@/lib/unread";
+
+const NOTIFICATION_SOUND_PATH = "/ping.mp3";
+
+/**
+ * Notifies the user when someone mentions them in a chat they aren't
+ * looking at, even if that chat is muted. Renders nothing.
+ */
+export function MentionNotifier() {
+  const [account] = useSession();
+  const pathname = usePathname();
+  const router = useRouter();
+  const toast = useToast();
+  const [chatTitles, setChatTitles] = useState<Record<string, string>>({});
+  const [mentionCounts, setMentionCounts] = useState<Record<string, number> | null>(null);
+  const previousCounts = useRef<Record<string, number> | null>(null);
+  const uid = account?.uid;
+  const email = account?.email;
+
+  useEffect(() => {
+    if (!uid || !email) {
+      setMentionCounts(null);
+      previousCounts.current = null;
+      return;
+    }
+
+    const unsubscribeCounts = subscribeToMentionCounts(uid, email, setMentionCounts);
+    const unsubscribeChats = subscribeToChats(email, (chats) => {
+      setChatTitles(Object.fromEntries(chats.map((chat) => [chat.id, chat.title])));
+    });
+
+    return () => {
+      unsubscribeCounts();
+      unsubscribeChats();
+    };
+  }, [uid, email]);
+
+  useEffect(() => {
+    if (!mentionCounts) return;
+
+    const previous = previousCounts.current;
+    previousCounts.current = mentionCounts;
+
+    // The first counts are mentions from before the app opened
+    if (!previous) return;
+
+    Object.entries(mentionCounts).forEach(([chatId, count]) => {
+      const isViewing = pathname === `/chat/${chatId}` && document.visibilityState === "visible";
+      if (count <= (previous[chatId] ?? 0) || isViewing) return;
+
+      const title = chatTitles[chatId];
+      const message = title ? `You were mentioned in ${title}` : "You were mentioned in a chat";
+      const openChat = () => router.push(`/chat/${chatId}`);
+
+      new Audio(NOTIFICATION_SOUND_PATH)
+        .play()
+        .catch((err) => console.log("Audio playback blocked:", err));
+
+      const canNotify = "Notification" in window && Notification.permission === "granted";
+
+      if (document.visibilityState === "hidden" && canNotify) {
+        // Same tag as the service worker's, so a push for this message is replaced
+        const notification = new Notification(message, { tag: `chat:${chatId}` });
+        notification.onclick = () => {
+          window.focus();
+          openChat();
+        };
+      } else {
+        toast.success(message, { label: "View", onClick: openChat });
+      }
+    });
+  }, [mentionCounts, chatTitles, pathname, router, toast]);
+
+  return null;
+}
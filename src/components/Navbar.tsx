@@ -1,15 +1,12 @@
 "use client";
 
-import { auth} from "@/lib/firebase";
-import { useAuthState } from "react-firebase-hooks/auth";
+import { useSession } from "@/hooks/useSession";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
-import { signOut } from "firebase/auth";
-import { useRouter } from "next/navigation";
+import { signOut } from "@/lib/api";
 
 export default function Navbar() {
-  const [user, _] = useAuthState(auth);
-  let router = useRouter();
+  const [user, _] = useSession();
   return (
     <nav className="fixed top-0 w-full z-10 border-b border-white/10 bg-black/50 backdrop-blur-md">
       <div className="mx-auto px-4 h-16 flex items-center justify-between">
@@ -22,13 +19,20 @@ export default function Navbar() {
               <Button
                 variant="ghost"
                 className="text-white hover:text-gray-300"
-                onClick={() => {
-                  signOut(auth);
-                  router.push("/");
+                onClick={async () => {
+                  await signOut();
+                  // A full load starts the data layer again after sign-out
+                  window.location.assign("/");
                 }}
               >
                 Logout
               </Button>
+              <Button
+                variant="ghost"
+                className="text-white hover:text-gray-300"
+              >
+                <Link href="/settings">settings</Link>
+              </Button>
               <Button
                 variant="default"
                 className="bg-white text-black hover:bg-gray-200"
@@ -0,0 +1,24 @@
+"use client";
+
+import { WifiOff } from "lucide-react";
+
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+
+/**
+ * Tells the user they're offline and seeing saved data
+ */
+export function OfflineBanner() {
+  const isOnline = useOnlineStatus();
+
+  if (isOnline) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed top-20 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 rounded-full bg-amber-500/90 px-4 py-1.5 text-sm text-black shadow-lg"
+    >
+      <WifiOff className="w-4 h-4 shrink-0" />
+      You&apos;re offline. Showing saved chats; messages send when you reconnect.
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import type { PresenceStatus } from "@/lib/presence";
+
+// Constants
+const DOT_COLORS: Record<PresenceStatus, string> = {
+  online: "bg-green-500",
+  idle: "bg-amber-400",
+  offline: "bg-zinc-500",
+};
+
+interface PresenceDotProps {
+  status: PresenceStatus;
+  label: string; // Read out instead of the color, e.g. "last seen 5 min ago"
+  className?: string;
+}
+
+/**
+ * Colored status dot, meant to sit on the corner of an avatar
+ */
+export function PresenceDot({ status, label, className = "" }: PresenceDotProps) {
+  return (
+    <span
+      role="img"
+      aria-label={label}
+      title={label}
+      className={`block w-3 h-3 rounded-full ring-2 ring-[#111111] ${DOT_COLORS[status]} ${className}`}
+    />
+  );
+}
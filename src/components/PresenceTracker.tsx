@@ -0,0 +1,36 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { useSession } from "@/hooks/useSession";
+import { startPresence } from "@/lib/presence";
+import { subscribeToUserProfiles } from "@/lib/userDirectory";
+
+/**
+ * Reports the user as online or idle while the app is open, unless they
+ * chose to appear invisible. Renders nothing.
+ */
+export function PresenceTracker() {
+  const [account] = useSession();
+  const [showPresence, setShowPresence] = useState<boolean | null>(null); // null until loaded
+  const uid = account?.uid;
+
+  useEffect(() => {
+    if (!uid) {
+      setShowPresence(null);
+      return;
+    }
+
+    return subscribeToUserProfiles([uid], (profiles) => {
+      setShowPresence(profiles[uid]?.privacy?.showPresence !== false);
+    });
+  }, [uid]);
+
+  useEffect(() => {
+    if (!uid || !showPresence) return;
+
+    return startPresence(uid);
+  }, [uid, showPresence]);
+
+  return null;
+}
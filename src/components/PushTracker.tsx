@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect } from "react";
+
+import { useSession } from "@/hooks/useSession";
+import { refreshPushSubscription } from "@/lib/push";
+
+/**
+ * Keeps this device's push subscription stored for the signed-in user,
+ * since the browser can replace it between visits. Renders nothing.
+ */
+export function PushTracker() {
+  const [account] = useSession();
+  const uid = account?.uid;
+
+  useEffect(() => {
+    if (!uid) return;
+
+    refreshPushSubscription(uid);
+  }, [uid]);
+
+  return null;
+}
@@ -0,0 +1,58 @@
+import type { SearchResult } from "@/lib/search";
+
+interface SearchResultListProps {
+  results: SearchResult[];
+  showChatTitle?: boolean; // When results can come from more than one chat
+  onSelect: (result: SearchResult) => void;
+}
+
+/**
+ * Search results with the matched words highlighted in each snippet
+ */
+export function SearchResultList({ results, showChatTitle = false, onSelect }: SearchResultListProps) {
+  return (
+    <ul className="space-y-2">
+      {results.map((result) => (
+        <li key={`${result.chatId}/${result.messageId}`}>
+          <button
+            type="button"
+            onClick={() => onSelect(result)}
+            className="w-full p-3 text-left bg-[#2b2d31] hover:bg-white/5 rounded-md border border-white/5 transition-colors"
+          >
+            <div className="flex items-center gap-2 mb-1 text-xs">
+              <span className="font-bold text-white">{result.senderName}</span>
+              {showChatTitle && <span className="text-zinc-400">in {result.chatTitle}</span>}
+              {result.timestamp && (
+                <span className="text-[10px] text-zinc-500">
+                  {new Date(result.timestamp).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+            <p className="text-sm leading-relaxed wrap-break-word text-[#dbdee1]">
+              <HighlightedSnippet result={result} />
+            </p>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Sub-components
+function HighlightedSnippet({ result }: { result: SearchResult }) {
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  result.highlights.forEach(({ start, end }) => {
+    parts.push(result.snippet.slice(lastIndex, start));
+    parts.push(
+      <mark key={start} className="bg-amber-400/30 text-white rounded-sm">
+        {result.snippet.slice(start, end)}
+      </mark>
+    );
+    lastIndex = end;
+  });
+  parts.push(result.snippet.slice(lastIndex));
+
+  return <>{parts}</>;
+}
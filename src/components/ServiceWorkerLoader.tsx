@@ -0,0 +1,21 @@
+"use client";
+
+import { useEffect } from "react";
+
+import { isServiceWorkerSupported, registerServiceWorker } from "@/lib/serviceWorker";
+
+/**
+ * Registers the service worker so the app keeps working offline. Renders
+ * nothing.
+ */
+export function ServiceWorkerLoader() {
+  useEffect(() => {
+    if (!isServiceWorkerSupported()) return;
+
+    registerServiceWorker().catch((error) =>
+      console.error("Error registering service worker:", error)
+    );
+  }, []);
+
+  return null;
+}
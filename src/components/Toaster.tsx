@@ -0,0 +1,195 @@
+"use client";
+
+import { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { AlertCircle, CheckCircle2, X } from "lucide-react";
+
+import type { ApiError } from "@/lib/result";
+
+// Types
+type ToastVariant = "error" | "success";
+
+interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+interface Toast {
+  id: number;
+  variant: ToastVariant;
+  message: string;
+  action?: ToastAction;
+}
+
+interface ToastApi {
+  error: (error: ApiError) => void;
+  success: (message: string, action?: ToastAction) => void;
+}
+
+// Constants
+const TOAST_DURATION = 5000;
+const MAX_TOASTS = 3;
+
+const ToastContext = createContext<ToastApi | null>(null);
+
+/**
+ * Turns an API error into a message that tells the user what to do next
+ * @param error - Error from a failed API result
+ * @returns User-facing message
+ */
+export function describeError(error: ApiError): string {
+  switch (error.code) {
+    case "invalid-argument":
+      return "Some required information is missing. Fill in every field and try again.";
+    case "not-signed-in":
+      return "You're signed out. Log in again to continue.";
+    case "sign-in-cancelled":
+      return "Sign-in was cancelled. Pick a Google account to continue.";
+    case "profile-not-found":
+      return "We couldn't find your profile. If you're new here, sign up first.";
+    case "profile-exists":
+      return "This Google account already has a profile. Log in instead.";
+    case "user-not-found":
+      return error.detail
+        ? `No one is called @${error.detail}. Check the spelling and try again.`
+        : "That user doesn't exist. Check the spelling and try again.";
+    case "self-chat":
+      return "You can't start a chat with yourself. Enter a friend's username.";
+    case "chat-not-found":
+      return "This chat doesn't exist anymore.";
+    case "not-found":
+      return "That was deleted in the meantime.";
+    case "not-a-group":
+      return "That only works in group chats.";
+    case "not-group-owner":
+      return "Only the group owner can do that.";
+    case "group-too-small":
+      return "Add at least one other person to create a group.";
+    case "group-too-large":
+      return `Groups can have at most ${error.detail ?? "a limited number of"} members.`;
+    case "pin-limit-reached":
+      return `Chats can have at most ${error.detail ?? "a limited number of"} pinned messages. Unpin one first.`;
+    case "edit-window-closed":
+      return `Messages in this chat can only be edited for ${error.detail ?? "a while"} minutes after they're sent.`;
+    case "undo-expired":
+      return "It's too late to undo that.";
+    case "reaction-limit-reached":
+      return `A message can have at most ${error.detail ?? "a limited number of"} different reactions.`;
+    case "username-invalid":
+      return error.detail ?? "That username isn't allowed.";
+    case "username-taken":
+      return "That username is already taken. Try another one.";
+    case "invalid-file-type":
+      return "Only images (JPEG, PNG, GIF, WebP) and MP4 videos can be uploaded.";
+    case "upload-not-configured":
+      return "File uploads aren't set up on this site.";
+    case "push-unsupported":
+      return "This browser can't show push notifications.";
+    case "push-blocked":
+      return "Notifications are blocked for this site. Allow them in your browser settings first.";
+    case "push-not-configured":
+      return "Push notifications aren't set up on this site.";
+    case "upload-failed":
+      return error.detail ? `Upload failed: ${error.detail}` : "Upload failed. Try again.";
+    case "permission-denied":
+      return "You don't have permission to do that.";
+    case "unavailable":
+      return "Can't reach the server. Check your connection and try again.";
+    default:
+      return "Something went wrong. Try again in a moment.";
+  }
+}
+
+/**
+ * Provides useToast() to the app and renders the toast stack
+ */
+export function ToastProvider({ children }: { children: React.ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const show = useCallback(
+    (variant: ToastVariant, message: string, action?: ToastAction) => {
+      const id = Date.now() + Math.random();
+      setToasts((current) => [
+        ...current.slice(-(MAX_TOASTS - 1)),
+        { id, variant, message, action },
+      ]);
+      setTimeout(() => dismiss(id), TOAST_DURATION);
+    },
+    [dismiss]
+  );
+
+  const api = useMemo<ToastApi>(
+    () => ({
+      error: (error) => show("error", describeError(error)),
+      success: (message, action) => show("success", message, action),
+    }),
+    [show]
+  );
+
+  return (
+    <ToastContext.Provider value={api}>
+      {children}
+      <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]">
+        {toasts.map((toast) => (
+          <ToastItem key={toast.id} toast={toast} onDismiss={dismiss} />
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+}
+
+/**
+ * Returns functions for showing toasts
+ * @returns Toast API from the nearest ToastProvider
+ */
+export function useToast(): ToastApi {
+  const api = useContext(ToastContext);
+
+  if (!api) {
+    throw new Error("useToast must be used inside a ToastProvider");
+  }
+
+  return api;
+}
+
+// Sub-components
+interface ToastItemProps {
+  toast: Toast;
+  onDismiss: (id: number) => void;
+}
+
+function ToastItem({ toast, onDismiss }: ToastItemProps) {
+  const isError = toast.variant === "error";
+  const Icon = isError ? AlertCircle : CheckCircle2;
+
+  return (
+    <div
+      role={isError ? "alert" : "status"}
+      className="flex items-start gap-3 rounded-lg border border-white/10 bg-[#1d1d1d] p-3 text-sm text-white shadow-lg"
+    >
+      <Icon className={`w-4 h-4 mt-0.5 shrink-0 ${isError ? "text-red-400" : "text-green-400"}`} />
+      <p className="flex-1">{toast.message}</p>
+      {toast.action && (
+        <button
+          onClick={() => {
+            toast.action?.onClick();
+            onDismiss(toast.id);
+          }}
+          className="font-semibold text-indigo-400 hover:underline"
+        >
+          {toast.action.label}
+        </button>
+      )}
+      <button
+        onClick={() => onDismiss(toast.id)}
+        className="text-zinc-500 hover:text-white"
+        aria-label="Dismiss"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname } from "next/navigation";
+
+import { useSession } from "@/hooks/useSession";
+import { getTotalUnread, subscribeToUnreadCounts } from "@/lib/unread";
+
+// Matches the "(3) " prefix this component puts in front of the title
+const TITLE_COUNT_PATTERN = /^\(\d+\+?\) /;
+const MAX_TITLE_COUNT = 99;
+
+/**
+ * Shows the total number of unread messages in the document title and on
+ * the installed app's icon. Renders nothing.
+ */
+export function UnreadBadge() {
+  const [account] = useSession();
+  const pathname = usePathname();
+  const [total, setTotal] = useState(0);
+  const uid = account?.uid;
+  const email = account?.email;
+
+  useEffect(() => {
+    if (!uid || !email) {
+      setTotal(0);
+      return;
+    }
+
+    return subscribeToUnreadCounts(uid, email, (counts) => setTotal(getTotalUnread(counts)));
+  }, [uid, email]);
+
+  // Navigation can reset the title, so this runs again on every page
+  useEffect(() => {
+    const title = document.title.replace(TITLE_COUNT_PATTERN, "");
+    const count = total > MAX_TITLE_COUNT ? `${MAX_TITLE_COUNT}+` : String(total);
+
+    document.title = total > 0 ? `(${count}) ${title}` : title;
+  }, [total, pathname]);
+
+  useEffect(() => {
+    if (!("setAppBadge" in navigator)) return;
+
+    const update = total > 0 ? navigator.setAppBadge(total) : navigator.clearAppBadge();
+    update.catch((error) => console.log("App badge unavailable:", error));
+  }, [total]);
+
+  return null;
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useToast } from "@/components/Toaster";
+import { searchMessages } from "@/lib/search";
+import type { SearchResult } from "@/lib/search";
+
+// Constants
+const SEARCH_DELAY = 250;
+
+/**
+ * Searches messages as the user types, waiting for a pause before each
+ * search and ignoring results that arrive after a newer query
+ * @param email - Email of the signed-in user
+ * @param input - What the user typed
+ * @param chatId - Only search this chat
+ * @returns Results for the latest query, and whether a search is running
+ */
+export function useMessageSearch(
+  email: string | null | undefined,
+  input: string,
+  chatId?: string
+): [SearchResult[], boolean] {
+  const toast = useToast();
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    if (!email || !input.trim()) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    let isCancelled = false;
+    setIsSearching(true);
+
+    const timer = setTimeout(async () => {
+      const result = await searchMessages(email, input, chatId);
+      if (isCancelled) return;
+
+      setIsSearching(false);
+      if (result.ok) {
+        setResults(result.data);
+      } else {
+        toast.error(result.error);
+      }
+    }, SEARCH_DELAY);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timer);
+    };
+  }, [email, input, chatId, toast]);
+
+  return [results, isSearching];
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getUserPresence, subscribeToPresence } from "@/lib/presence";
+import type { UserPresence } from "@/lib/presence";
+import type { PresenceData } from "@/lib/backend";
+
+// Constants
+// Often enough for stale tabs to drop off and "last seen" to stay current
+const REFRESH_INTERVAL = 30 * 1000;
+
+/**
+ * Tracks the presence of a set of users
+ * @param uids - User IDs to watch
+ * @returns Presence keyed by uid, and the time it was worked out at
+ */
+export function usePresence(uids: string[]): [Record<string, UserPresence>, number] {
+  const [presence, setPresence] = useState<Record<string, PresenceData>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const uidsKey = Array.from(new Set(uids)).sort().join(",");
+
+  useEffect(() => {
+    if (!uidsKey) return;
+
+    return subscribeToPresence(uidsKey.split(","), (latest) => {
+      setPresence(latest);
+      setNow(Date.now());
+    });
+  }, [uidsKey]);
+
+  useEffect(() => {
+    if (!uidsKey) return;
+
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [uidsKey]);
+
+  const statuses: Record<string, UserPresence> = {};
+  uidsKey.split(",").filter(Boolean).forEach((uid) => {
+    statuses[uid] = getUserPresence(presence[uid], now);
+  });
+
+  return [statuses, now];
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { onSessionChanged } from "@/lib/api";
+import type { AuthAccount } from "@/lib/backend";
+
+/**
+ * Tracks the signed-in account
+ * @returns The account (null when signed out) and whether it is still loading
+ */
+export function useSession(): [AuthAccount | null, boolean] {
+  const [account, setAccount] = useState<AuthAccount | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    return onSessionChanged((latest) => {
+      setAccount(latest);
+      setIsLoading(false);
+    });
+  }, []);
+
+  return [account, isLoading];
+}
@@ -0,0 +1,92 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getActiveTypingMembers, setTyping } from "@/lib/api";
+
+// Types
+interface TypingMember {
+  uid: string;
+  username: string;
+  expiresAt: number;
+}
+
+// Constants
+// Well inside the expiry setTyping gives the indicator, so it stays up
+// while the user keeps typing
+const TYPING_REFRESH_INTERVAL = 3000;
+
+/**
+ * Keeps the user's typing indicator in sync with what they are writing.
+ * Writes at most once per refresh interval, and clears the indicator when
+ * the text is emptied or the chat is left.
+ * @param chatId - ID of the chat
+ * @param uid - uid of the signed-in user
+ * @returns Function to call with the current message text
+ */
+export function useTypingNotifier(
+  chatId: string,
+  uid: string | undefined
+): (text: string) => void {
+  const lastSentAt = useRef(0); // 0 while the indicator is hidden
+
+  useEffect(() => {
+    if (!chatId || !uid) return;
+
+    return () => {
+      if (lastSentAt.current) {
+        lastSentAt.current = 0;
+        setTyping(chatId, uid, false);
+      }
+    };
+  }, [chatId, uid]);
+
+  return useCallback(
+    (text: string) => {
+      if (!chatId || !uid) return;
+
+      if (!text.trim()) {
+        if (lastSentAt.current) {
+          lastSentAt.current = 0;
+          setTyping(chatId, uid, false);
+        }
+        return;
+      }
+
+      const now = Date.now();
+      if (now - lastSentAt.current < TYPING_REFRESH_INTERVAL) return;
+
+      lastSentAt.current = now;
+      setTyping(chatId, uid, true);
+    },
+    [chatId, uid]
+  );
+}
+
+/**
+ * Tracks who else is typing, dropping members as their indicator expires
+ * @param typing - Typing members from the chat
+ * @param uid - uid of the signed-in user
+ * @returns Members who are typing right now
+ */
+export function useTypingMembers(
+  typing: TypingMember[] | undefined,
+  uid: string | undefined
+): TypingMember[] {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Re-render when the next indicator expires
+  useEffect(() => {
+    const expiries = (typing ?? [])
+      .map((member) => member.expiresAt)
+      .filter((expiresAt) => expiresAt > now);
+    if (expiries.length === 0) return;
+
+    const timer = setTimeout(
+      () => setNow(Date.now()),
+      Math.max(0, Math.min(...expiries) - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [typing, now]);
+
+  return uid && typing ? getActiveTypingMembers(typing, uid, now) : [];
+}
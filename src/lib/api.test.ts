@@ -0,0 +1,472 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Timestamp } from "firebase/firestore";
+import { createMemoryBackend, getBackend, setBackend, type MessageData, type UserData } from "./backend";
+import {
+  addGroupMembers,
+  addReaction,
+  changeUsername,
+  createGroupChat,
+  createOrGetChat,
+  createUserProfile,
+  deleteMessage,
+  editMessage,
+  getMessage,
+  getMessageHistory,
+  isUsernameAvailable,
+  pinMessage,
+  removeGroupMember,
+  removeReaction,
+  restoreMessage,
+  sendMessage,
+  summarizeReactions,
+  unpinMessage,
+  updateGroupInfo,
+} from "./api";
+
+const ALICE: UserData = { uid: "alice", username: "alice", email: "alice@pagecord.test", photoURL: "" };
+const BOB: UserData = { uid: "bob", username: "bob", email: "bob@pagecord.test", photoURL: "" };
+const CAROL: UserData = { uid: "carol", username: "carol", email: "carol@pagecord.test", photoURL: "" };
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Builds a timestamp relative to now
+ * @param offset - Milliseconds from now; negative for the past
+ * @returns Timestamp
+ */
+function fromNow(offset: number): Timestamp {
+  return Timestamp.fromMillis(Date.now() + offset);
+}
+
+/**
+ * Starts every test from a group owned by Alice with Bob in it, holding
+ * one message from each of them
+ * @param messages - Extra messages for the group
+ */
+function useBackend(messages: MessageData[] = []) {
+  setBackend(
+    createMemoryBackend({
+      users: [ALICE, BOB, CAROL],
+      chats: [
+        {
+          id: "group",
+          type: "group",
+          title: "Weekend plans",
+          ownerEmail: ALICE.email,
+          members: [ALICE.email, BOB.email],
+          participants: {},
+          createdAt: fromNow(-10 * MINUTE),
+          lastMessage: "sure",
+          lastUpdated: fromNow(-MINUTE),
+        },
+      ],
+      messages: {
+        group: [
+          { id: "fromAlice", senderId: ALICE.uid, text: "saturday?", timestamp: fromNow(-2 * MINUTE) },
+          { id: "fromBob", senderId: BOB.uid, text: "sure", timestamp: fromNow(-MINUTE) },
+          ...messages,
+        ],
+      },
+    })
+  );
+}
+
+/**
+ * Reads a message straight from the backend
+ * @param messageId - ID of a message in the group
+ * @returns The stored message
+ */
+async function storedMessage(messageId: string): Promise<MessageData> {
+  const message = await getBackend().messages.get("group", messageId);
+  if (!message) throw new Error(`Message ${messageId} is missing`);
+  return message;
+}
+
+beforeEach(() => {
+  useBackend();
+  // Failures are logged on their way to the caller
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("usernames", () => {
+  it("creates a profile under the normalized name and reserves it", async () => {
+    const account = { uid: "dave", email: "dave@pagecord.test", displayName: "Dave", photoURL: null };
+
+    expect(await createUserProfile(account, "  Dave ")).toEqual({ ok: true, data: "dave" });
+    expect(await isUsernameAvailable("dave")).toEqual({ ok: true, data: false });
+  });
+
+  it("rejects names that are taken or malformed", async () => {
+    const account = { uid: "dave", email: "dave@pagecord.test", displayName: "Dave", photoURL: null };
+
+    expect(await createUserProfile(account, "alice")).toMatchObject({
+      ok: false,
+      error: { code: "username-taken" },
+    });
+    expect(await createUserProfile(account, "a")).toMatchObject({
+      ok: false,
+      error: { code: "username-invalid" },
+    });
+  });
+
+  it("keeps resolving the old name to the user after a rename", async () => {
+    expect(await changeUsername(ALICE.uid, "alice2")).toEqual({ ok: true, data: "alice2" });
+    expect(await isUsernameAvailable("alice")).toEqual({ ok: true, data: true });
+
+    const chat = await createOrGetChat(BOB.email, "alice");
+    expect(chat.ok).toBe(true);
+  });
+
+  it("rejects renaming to someone else's name", async () => {
+    expect(await changeUsername(ALICE.uid, "bob")).toMatchObject({
+      ok: false,
+      error: { code: "username-taken" },
+    });
+  });
+});
+
+describe("chats", () => {
+  it("reuses the direct chat between two users", async () => {
+    const first = await createOrGetChat(ALICE.email, "bob");
+    const second = await createOrGetChat(BOB.email, "alice");
+
+    expect(first.ok && second.ok && first.data === second.data).toBe(true);
+  });
+
+  it("rejects chats with yourself or unknown users", async () => {
+    expect(await createOrGetChat(ALICE.email, "alice")).toMatchObject({
+      ok: false,
+      error: { code: "self-chat" },
+    });
+    expect(await createOrGetChat(ALICE.email, "nobody")).toMatchObject({
+      ok: false,
+      error: { code: "user-not-found", detail: "nobody" },
+    });
+  });
+
+  it("creates a group with the owner as a member", async () => {
+    const result = await createGroupChat(ALICE.email, "  Book club ", ["bob"]);
+    if (!result.ok) throw new Error(result.error.code);
+
+    expect(await getBackend().chats.get(result.data)).toMatchObject({
+      type: "group",
+      title: "Book club",
+      ownerEmail: ALICE.email,
+      members: [ALICE.email, BOB.email],
+    });
+  });
+
+  it("rejects groups without anyone else", async () => {
+    expect(await createGroupChat(ALICE.email, "Solo", ["alice"])).toMatchObject({
+      ok: false,
+      error: { code: "group-too-small" },
+    });
+  });
+
+  it("lets members add people and only the owner remove them", async () => {
+    expect(await addGroupMembers("group", ["carol"])).toEqual({ ok: true, data: undefined });
+    expect(await removeGroupMember("group", BOB.email, CAROL.email)).toMatchObject({
+      ok: false,
+      error: { code: "not-group-owner" },
+    });
+    expect(await removeGroupMember("group", ALICE.email, CAROL.email)).toEqual({
+      ok: true,
+      data: undefined,
+    });
+    expect((await getBackend().chats.get("group"))?.members).toEqual([ALICE.email, BOB.email]);
+  });
+
+  it("rejects edit windows outside the allowed range", async () => {
+    expect(await updateGroupInfo("group", ALICE.email, { editWindowMinutes: -1 })).toMatchObject({
+      ok: false,
+      error: { code: "invalid-argument" },
+    });
+  });
+
+  it("lets only the owner rename the group", async () => {
+    expect(await updateGroupInfo("group", BOB.email, { title: "Mine now" })).toMatchObject({
+      ok: false,
+      error: { code: "not-group-owner" },
+    });
+    expect(await updateGroupInfo("group", ALICE.email, { title: "Road trip" })).toEqual({
+      ok: true,
+      data: undefined,
+    });
+    expect((await getBackend().chats.get("group"))?.title).toBe("Road trip");
+  });
+
+  it("rejects group settings on direct chats", async () => {
+    const chat = await createOrGetChat(ALICE.email, BOB.username);
+    if (!chat.ok) throw new Error(chat.error.code);
+
+    expect(await updateGroupInfo(chat.data, ALICE.email, { title: "Us" })).toMatchObject({
+      ok: false,
+      error: { code: "not-a-group" },
+    });
+  });
+});
+
+describe("sending messages", () => {
+  it("adds the message and updates the chat preview", async () => {
+    expect(await sendMessage("group", "  see you there ", BOB.uid)).toEqual({
+      ok: true,
+      data: undefined,
+    });
+
+    expect((await getBackend().chats.get("group"))?.lastMessage).toBe("see you there");
+  });
+
+  it("never sends the same client ID twice", async () => {
+    await sendMessage("group", "once", BOB.uid, undefined, "retry");
+    await sendMessage("group", "once", BOB.uid, undefined, "retry");
+
+    const page = await getBackend().messages.listChangedSince("group", null);
+    expect(page.filter((message) => message.id === "retry")).toHaveLength(1);
+  });
+
+  it("records mentions of other users but not of the sender", async () => {
+    await sendMessage("group", "@alice @bob lunch?", BOB.uid, undefined, "ping");
+
+    expect(await storedMessage("ping")).toMatchObject({
+      mentions: [{ uid: ALICE.uid, username: "alice" }],
+      mentionedUids: [ALICE.uid],
+    });
+  });
+
+  it("rejects replies to deleted or missing messages", async () => {
+    await deleteMessage("group", "fromAlice", ALICE);
+
+    expect(
+      await sendMessage("group", "what?", BOB.uid, { kind: "reply", messageId: "fromAlice" })
+    ).toMatchObject({ ok: false, error: { code: "not-found" } });
+    expect(
+      await sendMessage("group", "what?", BOB.uid, { kind: "thread", messageId: "missing" })
+    ).toMatchObject({ ok: false, error: { code: "not-found" } });
+  });
+
+  it("counts thread replies on the root message", async () => {
+    await sendMessage("group", "which time?", BOB.uid, { kind: "thread", messageId: "fromAlice" });
+
+    expect((await storedMessage("fromAlice")).threadReplyCount).toBe(1);
+  });
+
+  it("rejects empty messages and signed-out senders", async () => {
+    expect(await sendMessage("group", "   ", BOB.uid)).toMatchObject({
+      ok: false,
+      error: { code: "invalid-argument" },
+    });
+    expect(await sendMessage("group", "hi", "")).toMatchObject({
+      ok: false,
+      error: { code: "not-signed-in" },
+    });
+  });
+});
+
+describe("editing messages", () => {
+  it("keeps every version of an edited message", async () => {
+    await editMessage("group", "fromAlice", "sunday?", ALICE);
+    await editMessage("group", "fromAlice", "monday?", ALICE);
+
+    const history = await getMessageHistory("group", "fromAlice");
+    if (!history.ok) throw new Error(history.error.code);
+
+    expect(history.data.map((version) => version.text)).toEqual(["saturday?", "sunday?", "monday?"]);
+    expect(history.data.map((version) => version.editedBy)).toEqual([null, ALICE.uid, ALICE.uid]);
+  });
+
+  it("rejects edits by anyone but the author", async () => {
+    expect(await editMessage("group", "fromAlice", "never", BOB)).toMatchObject({
+      ok: false,
+      error: { code: "permission-denied" },
+    });
+    expect((await storedMessage("fromAlice")).text).toBe("saturday?");
+  });
+
+  it("lets legacy authors edit messages that carry their name", async () => {
+    useBackend([
+      { id: "legacy", senderName: BOB.username, text: "old", timestamp: fromNow(-MINUTE) },
+    ]);
+
+    expect(await editMessage("group", "legacy", "new", ALICE)).toMatchObject({
+      ok: false,
+      error: { code: "permission-denied" },
+    });
+    expect(await editMessage("group", "legacy", "new", BOB)).toEqual({ ok: true, data: undefined });
+  });
+
+  it("rejects edits after the chat's edit window", async () => {
+    await updateGroupInfo("group", ALICE.email, { editWindowMinutes: 1 });
+
+    expect(await editMessage("group", "fromAlice", "sunday?", ALICE)).toMatchObject({
+      ok: false,
+      error: { code: "edit-window-closed", detail: "1" },
+    });
+  });
+});
+
+describe("deleting messages", () => {
+  it("lets the author delete and undo right away", async () => {
+    expect(await deleteMessage("group", "fromBob", BOB)).toEqual({ ok: true, data: undefined });
+    expect((await storedMessage("fromBob")).deletedBy).toBe(BOB.uid);
+
+    expect(await restoreMessage("group", "fromBob", BOB.uid)).toEqual({ ok: true, data: undefined });
+    expect((await storedMessage("fromBob")).deletedAt).toBeUndefined();
+  });
+
+  it("lets the group owner delete anyone's message, but not other members", async () => {
+    expect(await deleteMessage("group", "fromAlice", BOB)).toMatchObject({
+      ok: false,
+      error: { code: "permission-denied" },
+    });
+    expect(await deleteMessage("group", "fromBob", ALICE)).toEqual({ ok: true, data: undefined });
+  });
+
+  it("only lets whoever deleted a message undo it", async () => {
+    await deleteMessage("group", "fromBob", ALICE);
+
+    expect(await restoreMessage("group", "fromBob", BOB.uid)).toMatchObject({
+      ok: false,
+      error: { code: "permission-denied" },
+    });
+  });
+
+  it("rejects undoing an old deletion", async () => {
+    useBackend([
+      {
+        id: "gone",
+        senderId: BOB.uid,
+        text: "oops",
+        timestamp: fromNow(-MINUTE),
+        deletedAt: fromNow(-MINUTE),
+        deletedBy: BOB.uid,
+      },
+    ]);
+
+    expect(await restoreMessage("group", "gone", BOB.uid)).toMatchObject({
+      ok: false,
+      error: { code: "undo-expired" },
+    });
+  });
+
+  it("keeps the tombstone readable", async () => {
+    await deleteMessage("group", "fromBob", BOB);
+
+    const message = await getMessage("group", "fromBob");
+    expect(message.ok && !!message.data.deletedAt).toBe(true);
+  });
+
+  it("stops counting the message as unread", async () => {
+    expect(await getBackend().messages.countUnread("group", ALICE.uid, null)).toBe(1);
+
+    await deleteMessage("group", "fromBob", BOB);
+
+    expect(await getBackend().messages.countUnread("group", ALICE.uid, null)).toBe(0);
+  });
+});
+
+describe("reactions", () => {
+  it("adds and removes the user's reaction", async () => {
+    await addReaction("group", "fromAlice", "👍", BOB.uid);
+    await addReaction("group", "fromAlice", "👍", ALICE.uid);
+
+    expect(summarizeReactions(await storedMessage("fromAlice"), BOB.uid)).toEqual([
+      { emoji: "👍", userIds: [BOB.uid, ALICE.uid], hasReacted: true },
+    ]);
+
+    await removeReaction("group", "fromAlice", "👍", BOB.uid);
+
+    expect(summarizeReactions(await storedMessage("fromAlice"), BOB.uid)).toEqual([
+      { emoji: "👍", userIds: [ALICE.uid], hasReacted: false },
+    ]);
+  });
+
+  it("drops an emoji along with its last reaction", async () => {
+    await addReaction("group", "fromAlice", "👍", BOB.uid);
+    await removeReaction("group", "fromAlice", "👍", BOB.uid);
+
+    expect((await storedMessage("fromAlice")).reactions).toEqual({});
+  });
+
+  it("counts emoji left empty by older clients toward the limit, like the rules", async () => {
+    const reactions = Object.fromEntries(
+      Array.from({ length: 20 }, (_, index) => [String.fromCodePoint(0x1f600 + index), []])
+    );
+    useBackend([
+      { id: "stale", senderId: ALICE.uid, text: "vote", timestamp: fromNow(-MINUTE), reactions },
+    ]);
+
+    expect(await addReaction("group", "stale", "🎉", BOB.uid)).toMatchObject({
+      ok: false,
+      error: { code: "reaction-limit-reached" },
+    });
+  });
+
+  it("rejects a new emoji once the message has 20", async () => {
+    const reactions = Object.fromEntries(
+      Array.from({ length: 20 }, (_, index) => [String.fromCodePoint(0x1f600 + index), [ALICE.uid]])
+    );
+    useBackend([
+      { id: "popular", senderId: ALICE.uid, text: "vote", timestamp: fromNow(-MINUTE), reactions },
+    ]);
+
+    expect(await addReaction("group", "popular", "🎉", BOB.uid)).toMatchObject({
+      ok: false,
+      error: { code: "reaction-limit-reached", detail: "20" },
+    });
+    expect(await addReaction("group", "popular", "😀", BOB.uid)).toEqual({ ok: true, data: undefined });
+  });
+
+  it("rejects reactions to deleted messages", async () => {
+    await deleteMessage("group", "fromBob", BOB);
+
+    expect(await addReaction("group", "fromBob", "👍", ALICE.uid)).toMatchObject({
+      ok: false,
+      error: { code: "not-found" },
+    });
+  });
+});
+
+describe("pins", () => {
+  it("pins a message once and unpins it", async () => {
+    await pinMessage("group", "fromAlice", BOB.uid);
+    await pinMessage("group", "fromAlice", ALICE.uid);
+
+    expect(await getBackend().pins.list("group")).toMatchObject([
+      { messageId: "fromAlice", pinnedBy: BOB.uid },
+    ]);
+
+    await unpinMessage("group", "fromAlice");
+
+    expect(await getBackend().pins.list("group")).toEqual([]);
+  });
+
+  it("counts pins on the chat", async () => {
+    await pinMessage("group", "fromAlice", BOB.uid);
+    await pinMessage("group", "fromBob", BOB.uid);
+    await unpinMessage("group", "fromAlice");
+
+    expect(await getBackend().chats.get("group")).toMatchObject({
+      pinCount: 1,
+      lastPinChange: "fromAlice",
+    });
+  });
+
+  it("rejects pins past the limit", async () => {
+    const messages = Array.from({ length: 26 }, (_, index) => ({
+      id: `m${index}`,
+      senderId: ALICE.uid,
+      text: String(index),
+      timestamp: fromNow(-MINUTE),
+    }));
+    useBackend(messages);
+
+    for (const message of messages.slice(0, 25)) {
+      expect((await pinMessage("group", message.id, ALICE.uid)).ok).toBe(true);
+    }
+
+    expect(await pinMessage("group", "m25", ALICE.uid)).toMatchObject({
+      ok: false,
+      error: { code: "pin-limit-reached", detail: "25" },
+    });
+  });
+});
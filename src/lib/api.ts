@@ -1,290 +1,1928 @@
-import {
-  collection,
-  addDoc,
-  doc,
-  query,
-  where,
-  getDocs,
-  serverTimestamp,
-  setDoc,
-  onSnapshot,
-  orderBy,
-  QuerySnapshot,
-  DocumentData,
+import { getBackend, getMessagePreview, isCoveredByMarker } from "./backend";
+import type {
+  AuthAccount,
+  ChatParticipant,
+  ChatRecord,
+  ChatType,
+  ChatUpdate,
+  MessageCursor,
+  MessageData,
+  MessageMention,
+  MessagePage,
+  NewMessage,
+  PinData,
+  PrivacySettings,
+  ReceiptMarker,
+  RenameResult,
   Unsubscribe,
-} from "firebase/firestore";
-import { db } from "./firebase";
+  UserData,
+} from "./backend";
+import { resolveUidByEmail, subscribeToUserProfiles } from "./userDirectory";
+import { fail, ok, toFailure, type Failure, type Result } from "./result";
+import { normalizeUsername, validateUsername } from "./username";
+import { findMentionedUsernames } from "./mentions";
+import { clearPushSubscription } from "./push";
+import { clearUserCaches } from "./serviceWorker";
+import { clearSearchIndex } from "./search";
+import { clearOutbox } from "./outbox";
+
+export type { MessageCursor } from "./backend";
+export type { ApiError, ApiErrorCode, Result } from "./result";
 
 // Types
-interface UserData {
+interface ChatMember extends ChatParticipant {
+  uid: string;
+}
+
+interface ChatDetails {
+  id: string;
+  type: ChatType;
+  title: string;
+  photoURL: string;
+  ownerEmail: string;
+  editWindowMinutes: number | null;
+  members: ChatMember[];
+  deliveredTo: Record<string, ReceiptMarker>; // Keyed by uid
+  readBy: Record<string, ReceiptMarker>; // Keyed by uid
+  typing: TypingMember[];
+}
+
+interface MentionSuggestion {
+  uid: string;
+  username: string;
+  photoURL: string;
+  isMember: boolean; // Whether the user is in the chat and will be notified
+}
+
+interface TypingMember {
+  uid: string;
+  username: string;
+  expiresAt: number; // Milliseconds since the epoch
+}
+
+interface GroupInfo {
+  title?: string;
+  photoURL?: string;
+  editWindowMinutes?: number | null;
+}
+
+interface MessageSender {
+  uid: string | null;
+  name: string;
+  photo: string;
+}
+
+interface SenderProfile {
   username: string;
-  email: string;
   photoURL: string;
 }
 
-interface ChatData {
-  members: string[];
-  createdAt: any;
-  lastMessage: string;
-  lastUpdated: any;
+interface MediaData {
+  senderId: string;
+  mediaUrl: string;
+  mediaId: string;
+}
+
+interface CloudinaryUploadResponse {
+  url: string;
+  type: string;
+  publicId: string;
+}
+
+interface ChatListItem {
+  id: string;
+  message: string;
+  timestamp: any;
+  isGroup: boolean;
+  title: string;
+  uid: string; // The other member of a direct chat; empty for groups
+  username: string;
+  email: string;
+  photoURL: string;
+  memberCount: number;
+  typing: TypingMember[];
 }
 
-interface MessageData {
-  id: string,
-  senderName: string;
-  senderPhoto: string;
+interface MessageVersion {
   text: string;
   timestamp: any;
-  isEdited?: boolean;
-  mediaUrl?: string;
-  mediaId?: string;
+  editedBy: string | null; // null for the text the message was sent with
+}
+
+interface ReactionSummary {
+  emoji: string;
+  userIds: string[];
+  hasReacted: boolean; // Whether the current user is one of userIds
+}
+
+type DeliveryStatus = "sent" | "delivered" | "seen";
+
+interface MessageReceipt {
+  status: DeliveryStatus;
+  seenBy: string[]; // uids of the other members who have read the message
+}
+
+// What a new message answers: an inline reply quotes a message in the
+// chat; a thread reply goes into the thread under its root message
+interface MessageParent {
+  kind: "reply" | "thread";
+  messageId: string;
+}
+
+interface PinnedMessage extends PinData {
+  message: MessageData | null; // null until the message has loaded
+}
+
+// Constants
+const MAX_GROUP_MEMBERS = 50;
+// The rules check participant entries one by one, so adds are split into
+// writes of at most this many. Mirrored in firestore.rules.
+const MAX_PARTICIPANT_CHANGES = 10;
+const MAX_GROUP_TITLE_LENGTH = 60;
+const MAX_PINNED_MESSAGES = 25; // Mirrored in firestore.rules
+const MAX_EDIT_WINDOW_MINUTES = 7 * 24 * 60;
+const UNDO_DELETE_SECONDS = 10;
+const MAX_REACTIONS_PER_MESSAGE = 20;
+const MAX_REACTION_LENGTH = 16; // Room for flags and multi-part emoji
+const DELETED_MESSAGE_RETENTION_DAYS = 30;
+const MESSAGE_PAGE_SIZE = 30;
+const USERNAME_REDIRECT_DAYS = 30;
+const TYPING_EXPIRY_SECONDS = 6;
+const MAX_MENTIONS_PER_MESSAGE = 20;
+const MAX_MENTION_SUGGESTIONS = 8;
+const PUSH_ROUTE = "/api/push";
+
+/**
+ * Subscribe to the signed-in account
+ * @param callback - Function to call with the account, or null when signed out
+ * @returns Unsubscribe function
+ */
+export function onSessionChanged(callback: (account: AuthAccount | null) => void): Unsubscribe {
+  return getBackend().auth.subscribe(callback);
+}
+
+/**
+ * Signs in with Google (or the demo account in demo mode)
+ * @returns The signed-in account
+ */
+export async function signIn(): Promise<Result<AuthAccount>> {
+  try {
+    return ok(await getBackend().auth.signIn());
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Signs out the current account and deletes what it left on this device:
+ * its push subscription, the backend's offline cache and the pages and
+ * images the service worker cached. The data layer can't be used again
+ * until the page reloads, so callers leave with a full navigation.
+ */
+export async function signOut(): Promise<void> {
+  const { auth } = getBackend();
+
+  // The next person to sign in on this device mustn't get this account's
+  // pushes, read its cached chats and search index or send its unsent
+  // messages
+  await clearPushSubscription();
+  await auth.signOut();
+
+  const results = await Promise.allSettled([
+    auth.clearOfflineData(),
+    clearUserCaches(),
+    clearSearchIndex(),
+    clearOutbox(),
+  ]);
+  results.forEach((result) => {
+    // Other open tabs keep Firestore's cache in use until they close
+    if (result.status === "rejected") {
+      console.error("Error clearing offline data:", result.reason);
+    }
+  });
+}
+
+/**
+ * Signs out an account that never got a profile, e.g. when signup fails
+ * after the Google popup. It has nothing cached yet, so unlike signOut the
+ * app keeps working without a reload.
+ */
+export async function cancelSignIn(): Promise<void> {
+  return getBackend().auth.signOut();
+}
+
+/**
+ * Fetches a user profile by uid
+ * @param uid - User's uid
+ * @returns User data, or profile-not-found if the user has no profile
+ */
+export async function getUserProfile(uid: string): Promise<Result<UserData>> {
+  if (!uid) {
+    return fail("not-signed-in");
+  }
+
+  try {
+    const user = await getBackend().users.get(uid);
+    return user ? ok(user) : fail("profile-not-found");
+  } catch (error) {
+    console.error("Error fetching user profile:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Fetches a username by email address
+ * @param email - User's email address
+ * @returns Username or null if not found
+ */
+export async function getUsernameByEmail(email: string): Promise<string | null> {
+  if (!email) {
+    console.error("Email is required");
+    return null;
+  }
+
+  try {
+    const userData = await getBackend().users.findByEmail(email);
+
+    if (!userData) {
+      console.log("No user found with email:", email);
+      return null;
+    }
+
+    return userData.username;
+  } catch (error) {
+    console.error("Error fetching username:", error);
+    return null;
+  }
+}
+
+/**
+ * Fetches a user profile by username. Names that were recently changed
+ * redirect to their new owner during a grace period.
+ * @param username - Username to look up
+ * @returns User data or null if not found
+ */
+async function getUserByUsername(username: string): Promise<UserData | null> {
+  const { users } = getBackend();
+  const normalizedUsername = username.toLowerCase();
+
+  const user = await users.findByUsername(normalizedUsername);
+  if (user) {
+    return user;
+  }
+
+  const redirect = await users.getUsernameRedirect(normalizedUsername);
+  if (!redirect || redirect.expiresAt.toMillis() < Date.now()) {
+    return null;
+  }
+
+  return users.get(redirect.uid);
+}
+
+/**
+ * Builds the per-member metadata stored on a chat document
+ * @param users - Profiles of the chat members
+ * @returns Participants map keyed by uid
+ */
+function toParticipants(users: UserData[]): Record<string, ChatParticipant> {
+  return Object.fromEntries(
+    users.map((user) => [
+      user.uid,
+      { username: user.username, email: user.email, photoURL: user.photoURL || "" },
+    ])
+  );
+}
+
+/**
+ * Builds the lookup key shared by both sides of a direct chat
+ * @param uidA - First member's uid
+ * @param uidB - Second member's uid
+ * @returns Order-independent key
+ */
+function getDirectChatKey(uidA: string, uidB: string): string {
+  return [uidA, uidB].sort().join(":");
+}
+
+/**
+ * Finds an existing direct chat between two users
+ * @param uidA - First member's uid
+ * @param uidB - Second member's uid
+ * @returns Chat ID or null if the users have no direct chat yet
+ */
+export async function findDirectChat(uidA: string, uidB: string): Promise<string | null> {
+  if (!uidA || !uidB) {
+    console.error("Both user IDs are required");
+    return null;
+  }
+
+  try {
+    return await getBackend().chats.findByDmKey(getDirectChatKey(uidA, uidB));
+  } catch (error) {
+    console.error("Error finding direct chat:", error);
+    return null;
+  }
+}
+
+/**
+ * Creates or retrieves a chat between two users
+ * @param currentUserEmail - Email of the current user
+ * @param targetUsername - Username of the user to chat with
+ * @returns Chat ID
+ */
+export async function createOrGetChat(
+  currentUserEmail: string,
+  targetUsername: string
+): Promise<Result<string>> {
+  if (!currentUserEmail) {
+    return fail("not-signed-in");
+  }
+
+  if (!targetUsername.trim()) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const { users, chats } = getBackend();
+
+    // Find target user by username
+    const targetUser = await getUserByUsername(targetUsername);
+
+    if (!targetUser) {
+      return fail("user-not-found", targetUsername);
+    }
+
+    // Prevent chatting with self
+    if (currentUserEmail === targetUser.email) {
+      return fail("self-chat");
+    }
+
+    const currentUser = await users.findByEmail(currentUserEmail);
+    if (!currentUser) {
+      return fail("profile-not-found");
+    }
+
+    const existingChatId = await findDirectChat(currentUser.uid, targetUser.uid);
+    if (existingChatId) {
+      return ok(existingChatId);
+    }
+
+    const chatFields = {
+      members: [currentUser.email, targetUser.email].sort(),
+      participants: toParticipants([currentUser, targetUser]),
+      dmKey: getDirectChatKey(currentUser.uid, targetUser.uid),
+      type: "direct" as const,
+    };
+
+    // Chats created before opaque IDs were keyed by the sorted usernames;
+    // adopt such a chat instead of starting a second one
+    const legacyChatId = [currentUser.username, targetUser.username].sort().join("_");
+    const legacyChat = await chats.get(legacyChatId);
+
+    if (legacyChat) {
+      await chats.update(legacyChatId, chatFields);
+      return ok(legacyChatId);
+    }
+
+    return ok(await chats.create(chatFields));
+  } catch (error) {
+    console.error("Error creating chat:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Creates a named group chat owned by the current user
+ * @param ownerEmail - Email of the user creating the group
+ * @param title - Display title of the group
+ * @param memberUsernames - Usernames of the other members
+ * @param photoURL - Optional group avatar URL
+ * @returns Chat ID
+ */
+export async function createGroupChat(
+  ownerEmail: string,
+  title: string,
+  memberUsernames: string[],
+  photoURL: string = ""
+): Promise<Result<string>> {
+  const trimmedTitle = title.trim().substring(0, MAX_GROUP_TITLE_LENGTH);
+
+  if (!ownerEmail) {
+    return fail("not-signed-in");
+  }
+
+  if (!trimmedTitle) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const owner = await getBackend().users.findByEmail(ownerEmail);
+    if (!owner) {
+      return fail("profile-not-found");
+    }
+
+    const memberUsers = await resolveMembers(memberUsernames);
+    if (!memberUsers.ok) {
+      return memberUsers;
+    }
+
+    const users = [owner, ...memberUsers.data.filter((user) => user.uid !== owner.uid)];
+
+    if (users.length < 2) {
+      return fail("group-too-small");
+    }
+
+    if (users.length > MAX_GROUP_MEMBERS) {
+      return fail("group-too-large", String(MAX_GROUP_MEMBERS));
+    }
+
+    const chatId = await getBackend().chats.create({
+      members: users.map((user) => user.email),
+      participants: toParticipants(users),
+      type: "group",
+      title: trimmedTitle,
+      photoURL,
+      ownerEmail,
+    });
+
+    return ok(chatId);
+  } catch (error) {
+    console.error("Error creating group chat:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Adds members to an existing group chat
+ * @param chatId - ID of the group chat
+ * @param usernames - Usernames of the users to add
+ */
+export async function addGroupMembers(
+  chatId: string,
+  usernames: string[]
+): Promise<Result<void>> {
+  if (!chatId || usernames.length === 0) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const users = await resolveMembers(usernames);
+    if (!users.ok) {
+      return users;
+    }
+
+    const memberEmails = users.data.map((user) => user.email);
+
+    for (let start = 0; start < users.data.length; start += MAX_PARTICIPANT_CHANGES) {
+      const batch = users.data.slice(start, start + MAX_PARTICIPANT_CHANGES);
+      let failure: Failure | null = null;
+
+      const isAdded = await getBackend().chats.transact(chatId, (chat): ChatUpdate | null => {
+        if (!chat || chat.type !== "group") {
+          failure = fail(chat ? "not-a-group" : "chat-not-found");
+          return null;
+        }
+
+        // Checked against every new member, so a group that would grow too
+        // large fails before the first write
+        if (new Set([...chat.members, ...memberEmails]).size > MAX_GROUP_MEMBERS) {
+          failure = fail("group-too-large", String(MAX_GROUP_MEMBERS));
+          return null;
+        }
+
+        const newUsers = batch.filter((user) => !chat.members.includes(user.email));
+        if (newUsers.length === 0) return null;
+
+        return {
+          members: [...chat.members, ...newUsers.map((user) => user.email)],
+          participants: { ...chat.participants, ...toParticipants(newUsers) },
+        };
+      });
+
+      if (!isAdded && failure) return failure;
+    }
+
+    return ok();
+  } catch (error) {
+    console.error("Error adding group members:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Removes a member from a group chat. The owner can remove anyone and
+ * members can remove themselves; ownership passes on when the owner leaves.
+ * @param chatId - ID of the group chat
+ * @param actorEmail - Email of the user performing the removal
+ * @param memberEmail - Email of the member to remove
+ */
+export async function removeGroupMember(
+  chatId: string,
+  actorEmail: string,
+  memberEmail: string
+): Promise<Result<void>> {
+  if (!actorEmail) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId || !memberEmail) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    let failure: Failure | null = null;
+
+    const isRemoved = await getBackend().chats.transact(chatId, (chat): ChatUpdate | null => {
+      if (!chat || chat.type !== "group") {
+        failure = fail(chat ? "not-a-group" : "chat-not-found");
+        return null;
+      }
+
+      const isOwner = chat.ownerEmail === actorEmail;
+      if (!isOwner && actorEmail !== memberEmail) {
+        failure = fail("not-group-owner");
+        return null;
+      }
+
+      const members = chat.members.filter((email) => email !== memberEmail);
+      const ownerEmail =
+        chat.ownerEmail === memberEmail ? members[0] ?? "" : chat.ownerEmail;
+      const participants = Object.fromEntries(
+        Object.entries(chat.participants ?? {}).filter(
+          ([, participant]) => participant.email !== memberEmail
+        )
+      );
+
+      return {
+        members,
+        ownerEmail,
+        ...(chat.participants ? { participants } : {}),
+      };
+    });
+
+    return isRemoved ? ok() : failure ?? fail("unknown");
+  } catch (error) {
+    console.error("Error removing group member:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Updates the title, avatar and/or edit window of a group chat. Only the
+ * owner can change them.
+ * @param chatId - ID of the group chat
+ * @param actorEmail - Email of the user making the change
+ * @param info - Fields to update
+ */
+export async function updateGroupInfo(
+  chatId: string,
+  actorEmail: string,
+  info: GroupInfo
+): Promise<Result<void>> {
+  if (!actorEmail) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId) {
+    return fail("invalid-argument");
+  }
+
+  const updates: GroupInfo = {};
+  if (info.title !== undefined) {
+    const trimmedTitle = info.title.trim().substring(0, MAX_GROUP_TITLE_LENGTH);
+    if (!trimmedTitle) {
+      return fail("invalid-argument");
+    }
+    updates.title = trimmedTitle;
+  }
+  if (info.photoURL !== undefined) {
+    updates.photoURL = info.photoURL;
+  }
+  if (info.editWindowMinutes !== undefined) {
+    const minutes = info.editWindowMinutes;
+    if (
+      minutes !== null &&
+      (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_EDIT_WINDOW_MINUTES)
+    ) {
+      return fail("invalid-argument");
+    }
+    updates.editWindowMinutes = minutes;
+  }
+
+  try {
+    let failure: Failure | null = null;
+
+    const isUpdated = await getBackend().chats.transact(chatId, (chat): ChatUpdate | null => {
+      if (!chat || chat.type !== "group") {
+        failure = fail(chat ? "not-a-group" : "chat-not-found");
+        return null;
+      }
+
+      if (chat.ownerEmail !== actorEmail) {
+        failure = fail("not-group-owner");
+        return null;
+      }
+
+      return updates;
+    });
+
+    return isUpdated ? ok() : failure ?? fail("unknown");
+  } catch (error) {
+    console.error("Error updating group info:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Resolves usernames to user profiles, failing if any of them doesn't exist
+ * @param usernames - Usernames to resolve
+ * @returns Profiles, or user-not-found naming the first missing user
+ */
+async function resolveMembers(usernames: string[]): Promise<Result<UserData[]>> {
+  const uniqueUsernames = Array.from(
+    new Set(usernames.map((name) => name.trim().toLowerCase()).filter(Boolean))
+  );
+
+  if (uniqueUsernames.length === 0) {
+    return fail("invalid-argument");
+  }
+
+  const users = await Promise.all(uniqueUsernames.map(getUserByUsername));
+
+  const missingIndex = users.findIndex((user) => user === null);
+  if (missingIndex !== -1) {
+    return fail("user-not-found", uniqueUsernames[missingIndex]);
+  }
+
+  return ok(users as UserData[]);
+}
+
+/**
+ * Checks whether a username is free in the username index. Readable
+ * before sign-in, so signup can fail fast before the Google popup.
+ * @param username - Username to check
+ * @returns True if no one has reserved the username
+ */
+export async function isUsernameAvailable(username: string): Promise<Result<boolean>> {
+  try {
+    return ok(!(await getBackend().users.isUsernameReserved(normalizeUsername(username))));
+  } catch (error) {
+    console.error("Error checking username:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Creates a user's profile and reserves their username in one
+ * transaction, so two signups can never claim the same name
+ * @param account - The newly signed-in account
+ * @param requestedUsername - Username picked at signup
+ * @returns The normalized username
+ */
+export async function createUserProfile(
+  account: AuthAccount,
+  requestedUsername: string
+): Promise<Result<string>> {
+  const username = normalizeUsername(requestedUsername);
+
+  const validationError = validateUsername(username);
+  if (validationError) {
+    return fail("username-invalid", validationError);
+  }
+
+  try {
+    // Accounts created before the username index existed are only findable
+    // by querying profiles, which can't happen inside a transaction
+    const legacyUser = await getUserByUsername(username);
+    if (legacyUser && legacyUser.uid !== account.uid && legacyUser.username === username) {
+      return fail("username-taken");
+    }
+
+    const status = await getBackend().users.create({
+      uid: account.uid,
+      email: account.email,
+      displayName: account.displayName,
+      photoURL: account.photoURL,
+      username,
+    });
+
+    return status === "created" ? ok(username) : fail(status);
+  } catch (error) {
+    console.error("Error creating user profile:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Changes the user's privacy settings; settings left out keep their value
+ * @param uid - uid of the user
+ * @param privacy - Settings to change
+ */
+export async function updatePrivacySettings(
+  uid: string,
+  privacy: PrivacySettings
+): Promise<Result<void>> {
+  if (!uid) {
+    return fail("not-signed-in");
+  }
+
+  try {
+    await getBackend().users.updatePrivacy(uid, privacy);
+    return ok();
+  } catch (error) {
+    console.error("Error updating privacy settings:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Changes a user's username. The new name is reserved and the old one
+ * freed in a single transaction; lookups of the old name keep resolving
+ * to the user for a grace period. Denormalized copies of the name are
+ * updated afterwards on a best-effort basis.
+ * @param uid - uid of the user changing their name
+ * @param newUsername - Requested username
+ * @returns The normalized new username
+ */
+export async function changeUsername(uid: string, newUsername: string): Promise<Result<string>> {
+  const username = normalizeUsername(newUsername);
+
+  if (!uid) {
+    return fail("not-signed-in");
+  }
+
+  const validationError = validateUsername(username);
+  if (validationError) {
+    return fail("username-invalid", validationError);
+  }
+
+  let result: RenameResult;
+
+  try {
+    // Accounts created before the username index existed are only findable
+    // by querying profiles, which can't happen inside a transaction
+    const existingUser = await getUserByUsername(username);
+    if (existingUser && existingUser.uid !== uid && existingUser.username === username) {
+      return fail("username-taken");
+    }
+
+    result = await getBackend().users.rename(
+      uid,
+      username,
+      new Date(Date.now() + USERNAME_REDIRECT_DAYS * 24 * 60 * 60 * 1000)
+    );
+  } catch (error) {
+    console.error("Error changing username:", error);
+    return toFailure(error);
+  }
+
+  if (result.status === "not-found") {
+    return fail("profile-not-found");
+  }
+
+  if (result.status === "username-taken") {
+    return fail("username-taken");
+  }
+
+  if (result.status === "renamed") {
+    try {
+      await propagateUsernameChange(result.previous, username);
+    } catch (error) {
+      // The profile is already renamed; stale copies fall back to live profiles
+      console.error("Error propagating username change:", error);
+    }
+  }
+
+  return ok(username);
+}
+
+/**
+ * Updates denormalized copies of a renamed user's username: participant
+ * metadata on their chats, legacy chats that are still keyed by username,
+ * and legacy messages that only recorded the sender's name.
+ * @param user - The user's profile before the change
+ * @param newUsername - The user's new username
+ */
+async function propagateUsernameChange(user: UserData, newUsername: string): Promise<void> {
+  const { users, chats, messages } = getBackend();
+  const userChats = await chats.listForMember(user.email);
+  const chatIds = new Set(userChats.map((chat) => chat.id));
+  const writes: Promise<void>[] = [];
+
+  for (const chat of userChats) {
+    const participant = chat.participants?.[user.uid];
+
+    if (participant) {
+      writes.push(chats.setParticipant(chat.id, user.uid, { ...participant, username: newUsername }));
+    } else if (!chat.participants && chat.type !== "group") {
+      // Legacy direct chats are found by their username-based ID, which is
+      // about to stop matching; give them a dmKey so lookups keep working
+      const otherEmail = chat.members.find((email) => email !== user.email);
+      const otherUser = otherEmail ? await users.findByEmail(otherEmail) : null;
+
+      if (otherUser) {
+        writes.push(
+          chats.update(chat.id, {
+            participants: toParticipants([{ ...user, username: newUsername }, otherUser]),
+            dmKey: getDirectChatKey(user.uid, otherUser.uid),
+            type: "direct",
+          })
+        );
+      }
+    }
+  }
+
+  // Legacy messages only carry the sender's name
+  const legacyMessages = await messages.findLegacyBySenderName(user.username);
+
+  legacyMessages
+    .filter(({ chatId }) => chatIds.has(chatId))
+    .forEach(({ chatId, messageId }) => {
+      writes.push(messages.update(chatId, messageId, { senderId: user.uid }));
+    });
+
+  await Promise.all(writes);
+}
+
+/**
+ * Sends a text message in a chat, optionally as a reply
+ * @param chatId - ID of the chat
+ * @param text - Message text content
+ * @param senderId - uid of the sending user
+ * @param parent - Message to quote, or thread root to reply in
+ * @param messageId - Client-generated ID, so retrying a send never duplicates it.
+ *   Ignored for thread replies, which aren't sent through the outbox.
+ */
+export async function sendMessage(
+  chatId: string,
+  text: string,
+  senderId: string,
+  parent?: MessageParent,
+  messageId?: string
+): Promise<Result<void>> {
+  if (!senderId) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId || !text.trim() || (parent && !parent.messageId)) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const { messages, threads } = getBackend();
+
+    if (parent) {
+      const parentMessage = await messages.get(chatId, parent.messageId);
+
+      if (!parentMessage || parentMessage.deletedAt) {
+        return fail("not-found");
+      }
+    }
+
+    const mentions = await resolveMentions(text, senderId);
+
+    if (parent?.kind === "thread") {
+      const id = await threads.add(chatId, parent.messageId, {
+        senderId,
+        text: text.trim(),
+        ...mentions,
+      });
+      void requestPush(chatId, id, parent.messageId);
+      return ok();
+    }
+
+    // Also updates the chat's preview and ordering in the same write
+    const id = await messages.add(
+      chatId,
+      {
+        senderId,
+        text: text.trim(),
+        ...mentions,
+        ...(parent ? { replyTo: parent.messageId } : {}),
+      },
+      messageId
+    );
+    void requestPush(chatId, id);
+    return ok();
+  } catch (error) {
+    console.error("Error sending message:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Looks up the users a message mentions. Unknown names and the sender's
+ * own name stay plain text.
+ * @param text - Message text
+ * @param senderId - uid of the sender
+ * @returns Mention fields for the new message; empty if there are none
+ */
+async function resolveMentions(
+  text: string,
+  senderId: string
+): Promise<Pick<NewMessage, "mentions" | "mentionedUids">> {
+  const usernames = findMentionedUsernames(text).slice(0, MAX_MENTIONS_PER_MESSAGE);
+  if (usernames.length === 0) return {};
+
+  const users = await Promise.all(
+    usernames.map((username) => getBackend().users.findByUsername(username))
+  );
+  const mentions: MessageMention[] = users
+    .filter((user): user is UserData => !!user && user.uid !== senderId)
+    .map((user) => ({ uid: user.uid, username: user.username }));
+
+  return mentions.length > 0
+    ? { mentions, mentionedUids: mentions.map((mention) => mention.uid) }
+    : {};
+}
+
+/**
+ * Asks the server to push a message the user just sent to the other
+ * members' devices. Runs in the background: the message is already sent,
+ * so a failed push is only logged.
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the new message
+ * @param threadId - Root of the thread, for thread replies
+ */
+async function requestPush(chatId: string, messageId: string, threadId?: string): Promise<void> {
+  try {
+    const idToken = await getBackend().auth.getIdToken();
+    // Demo accounts have no token, and nothing to push to
+    if (!idToken) return;
+
+    const response = await fetch(PUSH_ROUTE, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${idToken}` },
+      body: JSON.stringify({ chatId, messageId, ...(threadId ? { threadId } : {}) }),
+    });
+
+    // 503 just means this deployment doesn't send pushes
+    if (!response.ok && response.status !== 503) {
+      console.error(`Push request failed with ${response.status}`);
+    }
+  } catch (error) {
+    console.error("Error requesting push:", error);
+  }
+}
+
+/**
+ * Sends a message with media attachment
+ * @param chatId - ID of the chat
+ * @param text - Optional message text
+ * @param mediaData - Media and sender information
+ */
+export async function sendMessageWithMedia(
+  chatId: string,
+  text: string,
+  mediaData: MediaData
+): Promise<Result<void>> {
+  if (!mediaData.senderId) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId || !mediaData.mediaUrl) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const id = await getBackend().messages.add(chatId, {
+      senderId: mediaData.senderId,
+      text: text.trim(),
+      mediaUrl: mediaData.mediaUrl,
+      mediaId: mediaData.mediaId,
+    });
+    void requestPush(chatId, id);
+    return ok();
+  } catch (error) {
+    console.error("Error sending media message:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Replaces the text of a message and marks it as edited, keeping the old
+ * text as a revision. If it is the chat's latest message, the chat preview
+ * changes with it.
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the message
+ * @param text - New message text
+ * @param editor - Profile of the member editing the message
+ */
+export async function editMessage(
+  chatId: string,
+  messageId: string,
+  text: string,
+  editor: UserData
+): Promise<Result<void>> {
+  if (!editor.uid) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId || !messageId || !text.trim()) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const { chats, messages } = getBackend();
+    const [chat, message] = await Promise.all([
+      chats.get(chatId),
+      messages.get(chatId, messageId),
+    ]);
+
+    if (!chat) {
+      return fail("chat-not-found");
+    }
+
+    if (!message || message.deletedAt) {
+      return fail("not-found");
+    }
+
+    if (!isMessageFromUser(message, editor.uid, editor.username)) {
+      return fail("permission-denied");
+    }
+
+    if (!isEditWindowOpen(message, chat.editWindowMinutes)) {
+      return fail("edit-window-closed", String(chat.editWindowMinutes));
+    }
+
+    await messages.edit(chatId, messageId, text.trim(), editor.uid);
+    return ok();
+  } catch (error) {
+    console.error("Error editing message:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Checks whether a message can still be edited under a chat's edit window
+ * @param message - Message to check
+ * @param editWindowMinutes - The chat's edit window; null or undefined means unlimited
+ * @returns True if the window hasn't closed yet
+ */
+export function isEditWindowOpen(
+  message: MessageData,
+  editWindowMinutes: number | null | undefined
+): boolean {
+  if (!editWindowMinutes || !message.timestamp) return true;
+
+  return Date.now() < message.timestamp.toMillis() + editWindowMinutes * 60 * 1000;
+}
+
+/**
+ * Loads every version of a message, from the text it was sent with to its
+ * current text. Messages edited before revisions were recorded only have
+ * their current version.
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the message
+ * @returns Versions, oldest first
+ */
+export async function getMessageHistory(
+  chatId: string,
+  messageId: string
+): Promise<Result<MessageVersion[]>> {
+  if (!chatId || !messageId) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const { messages } = getBackend();
+    const [message, revisions] = await Promise.all([
+      messages.get(chatId, messageId),
+      messages.listRevisions(chatId, messageId),
+    ]);
+
+    if (!message) {
+      return fail("not-found");
+    }
+
+    // A revision holds the text its edit replaced, so each version was
+    // written by the edit before it
+    const texts = [...revisions.map((revision) => revision.text), message.text];
+    const versions = texts.map((text, index) => {
+      const edit = revisions[index - 1];
+      return {
+        text,
+        timestamp: edit ? edit.editedAt : message.timestamp,
+        editedBy: edit?.editedBy ?? null,
+      };
+    });
+
+    return ok(versions);
+  } catch (error) {
+    console.error("Error loading message history:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Deletes a message, leaving a tombstone in the conversation. The content
+ * is kept for a retention period, so the deletion can be undone for a few
+ * seconds, and is purged afterwards.
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the message
+ * @param user - Profile of the member deleting it
+ */
+export async function deleteMessage(
+  chatId: string,
+  messageId: string,
+  user: UserData
+): Promise<Result<void>> {
+  if (!user.uid) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId || !messageId) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const { chats, messages } = getBackend();
+    const [chat, message] = await Promise.all([
+      chats.get(chatId),
+      messages.get(chatId, messageId),
+    ]);
+
+    if (!chat) {
+      return fail("chat-not-found");
+    }
+
+    if (!message) {
+      return fail("not-found");
+    }
+
+    if (!canDeleteMessage(message, chat, user)) {
+      return fail("permission-denied");
+    }
+
+    if (message.deletedAt) {
+      return ok();
+    }
+
+    const purgeAfter = new Date(Date.now() + DELETED_MESSAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    await messages.delete(chatId, messageId, user.uid, purgeAfter);
+    return ok();
+  } catch (error) {
+    console.error("Error deleting message:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Undoes a deletion made in the last few seconds
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the deleted message
+ * @param uid - uid of the member who deleted it
+ */
+export async function restoreMessage(
+  chatId: string,
+  messageId: string,
+  uid: string
+): Promise<Result<void>> {
+  if (!chatId || !messageId) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const { messages } = getBackend();
+    const message = await messages.get(chatId, messageId);
+
+    if (!message) {
+      return fail("not-found");
+    }
+
+    if (!message.deletedAt) {
+      return ok();
+    }
+
+    if (message.deletedBy !== uid) {
+      return fail("permission-denied");
+    }
+
+    if (Date.now() > message.deletedAt.toMillis() + UNDO_DELETE_SECONDS * 1000) {
+      return fail("undo-expired");
+    }
+
+    await messages.restore(chatId, messageId);
+    return ok();
+  } catch (error) {
+    console.error("Error restoring message:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Checks whether a user may delete a message: authors can delete their own
+ * messages and group owners can delete any message in their group
+ * @param message - Message to check
+ * @param chat - Chat the message belongs to
+ * @param user - User who wants to delete it
+ * @returns True if the user may delete the message
+ */
+export function canDeleteMessage(
+  message: MessageData,
+  chat: Pick<ChatRecord, "type" | "ownerEmail">,
+  user: Pick<UserData, "uid" | "username" | "email">
+): boolean {
+  return (
+    isMessageFromUser(message, user.uid, user.username) ||
+    (chat.type === "group" && chat.ownerEmail === user.email)
+  );
+}
+
+/**
+ * Permanently removes the content of messages that were deleted longer
+ * than the retention period ago. Any member can run it; it is cheap when
+ * there is nothing to purge.
+ * @param chatId - ID of the chat
+ */
+export async function purgeDeletedMessages(chatId: string): Promise<Result<number>> {
+  if (!chatId) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    return ok(await getBackend().messages.purgeDeleted(chatId));
+  } catch (error) {
+    console.error("Error purging deleted messages:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Adds the user's reaction to a message
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the message
+ * @param emoji - Emoji to react with
+ * @param uid - uid of the reacting member
+ */
+export async function addReaction(
+  chatId: string,
+  messageId: string,
+  emoji: string,
+  uid: string
+): Promise<Result<void>> {
+  if (!uid) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId || !messageId || !emoji || emoji.length > MAX_REACTION_LENGTH) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const { messages } = getBackend();
+    const message = await messages.get(chatId, messageId);
+
+    if (!message || message.deletedAt) {
+      return fail("not-found");
+    }
+
+    // Counted like the rules do: messages from before emptied emoji were
+    // dropped can still hold some
+    const emojis = Object.keys(message.reactions ?? {});
+    if (!emojis.includes(emoji) && emojis.length >= MAX_REACTIONS_PER_MESSAGE) {
+      return fail("reaction-limit-reached", String(MAX_REACTIONS_PER_MESSAGE));
+    }
+
+    await messages.setReaction(chatId, messageId, emoji, uid, true);
+    return ok();
+  } catch (error) {
+    console.error("Error adding reaction:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Removes the user's reaction from a message
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the message
+ * @param emoji - Emoji the user reacted with
+ * @param uid - uid of the reacting member
+ */
+export async function removeReaction(
+  chatId: string,
+  messageId: string,
+  emoji: string,
+  uid: string
+): Promise<Result<void>> {
+  if (!uid) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId || !messageId || !emoji) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    await getBackend().messages.setReaction(chatId, messageId, emoji, uid, false);
+    return ok();
+  } catch (error) {
+    console.error("Error removing reaction:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Groups a message's reactions by emoji, skipping emoji nobody uses anymore
+ * @param message - Message to summarize
+ * @param uid - Current user's uid
+ * @returns Reactions, most popular first
+ */
+export function summarizeReactions(message: MessageData, uid: string): ReactionSummary[] {
+  return Object.entries(message.reactions ?? {})
+    .filter(([, userIds]) => userIds.length > 0)
+    .map(([emoji, userIds]) => ({ emoji, userIds, hasReacted: userIds.includes(uid) }))
+    .sort((a, b) => b.userIds.length - a.userIds.length);
+}
+
+/**
+ * Subscribe to the latest messages in a chat. Only the newest page is
+ * fetched up front; everything from that page onwards stays live, and
+ * older pages are read on demand with loadOlderMessages.
+ * @param chatId - ID of the chat
+ * @param callback - Function to call with updated messages (oldest first)
+ *   and a cursor for the next older page, or null if there is no more history
+ * @param pageSize - Number of messages in the initial page
+ * @returns Unsubscribe function
+ */
+export function subscribeToMessages(
+  chatId: string,
+  callback: (messages: MessageData[], cursor: MessageCursor | null) => void,
+  pageSize: number = MESSAGE_PAGE_SIZE
+): Unsubscribe {
+  if (!chatId) {
+    console.error("Chat ID is required");
+    return () => {};
+  }
+
+  return getBackend().messages.subscribeLatest(chatId, pageSize, callback);
+}
+
+/**
+ * Loads the page of messages older than a cursor
+ * @param chatId - ID of the chat
+ * @param cursor - Cursor from subscribeToMessages or a previous page
+ * @param pageSize - Number of messages to load
+ * @returns Messages (oldest first) and the cursor for the next older page
+ */
+export async function loadOlderMessages(
+  chatId: string,
+  cursor: MessageCursor,
+  pageSize: number = MESSAGE_PAGE_SIZE
+): Promise<Result<MessagePage>> {
+  if (!chatId || !cursor) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    return ok(await getBackend().messages.loadBefore(chatId, cursor, pageSize));
+  } catch (error) {
+    console.error("Error loading older messages:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Subscribe to the latest replies in a thread. Works like
+ * subscribeToMessages, with older pages read by loadOlderThreadMessages.
+ * @param chatId - ID of the chat
+ * @param rootId - ID of the message the thread hangs off
+ * @param callback - Function to call with updated replies (oldest first)
+ *   and a cursor for the next older page, or null if there is no more history
+ * @param pageSize - Number of replies in the initial page
+ * @returns Unsubscribe function
+ */
+export function subscribeToThread(
+  chatId: string,
+  rootId: string,
+  callback: (messages: MessageData[], cursor: MessageCursor | null) => void,
+  pageSize: number = MESSAGE_PAGE_SIZE
+): Unsubscribe {
+  if (!chatId || !rootId) {
+    console.error("Chat ID and root message ID are required");
+    return () => {};
+  }
+
+  return getBackend().threads.subscribeLatest(chatId, rootId, pageSize, callback);
+}
+
+/**
+ * Loads the page of thread replies older than a cursor
+ * @param chatId - ID of the chat
+ * @param rootId - ID of the message the thread hangs off
+ * @param cursor - Cursor from subscribeToThread or a previous page
+ * @param pageSize - Number of replies to load
+ * @returns Replies (oldest first) and the cursor for the next older page
+ */
+export async function loadOlderThreadMessages(
+  chatId: string,
+  rootId: string,
+  cursor: MessageCursor,
+  pageSize: number = MESSAGE_PAGE_SIZE
+): Promise<Result<MessagePage>> {
+  if (!chatId || !rootId || !cursor) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    return ok(await getBackend().threads.loadBefore(chatId, rootId, cursor, pageSize));
+  } catch (error) {
+    console.error("Error loading older thread messages:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Reads a single message, e.g. the one a reply quotes when it isn't loaded
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the message
+ * @returns The message, including tombstones
+ */
+export async function getMessage(chatId: string, messageId: string): Promise<Result<MessageData>> {
+  if (!chatId || !messageId) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    const message = await getBackend().messages.get(chatId, messageId);
+    return message ? ok(message) : fail("not-found");
+  } catch (error) {
+    console.error("Error loading message:", error);
+    return toFailure(error);
+  }
 }
 
-interface MessageSender {
-  name: string;
-  photo: string;
+/**
+ * Shortens a message to the snippet shown when it is quoted
+ * @param message - Quoted message
+ * @returns One-line snippet, or a placeholder for attachments and deleted messages
+ */
+export function getMessageSnippet(
+  message: Pick<MessageData, "text" | "mediaUrl" | "deletedAt">
+): string {
+  return getMessagePreview(message);
 }
 
-interface MediaData extends MessageSender {
-  mediaUrl: string;
-  mediaId: string;
-}
+/**
+ * Resolves who sent a message. Messages with a senderId use the sender's
+ * live profile; legacy messages fall back to the name and photo copied
+ * onto the document when they were sent.
+ * @param message - Message to resolve
+ * @param profiles - Live profiles keyed by uid
+ * @returns Sender uid (null for legacy messages), display name and avatar
+ */
+export function resolveMessageSender(
+  message: MessageData,
+  profiles: Record<string, SenderProfile>
+): MessageSender {
+  if (message.senderId) {
+    const profile = profiles[message.senderId];
+    return {
+      uid: message.senderId,
+      name: profile?.username ?? "",
+      photo: profile?.photoURL ?? "",
+    };
+  }
 
-interface CloudinaryUploadResponse {
-  url: string;
-  type: string;
-  publicId: string;
+  return {
+    uid: null,
+    name: message.senderName ?? "",
+    photo: message.senderPhoto ?? "",
+  };
 }
 
-interface ChatListItem {
-  id: string;
-  message: string;
-  timestamp: any;
-  username: string;
-  email: string;
-  photoURL: string;
+/**
+ * Checks whether a message was sent by a user
+ * @param message - Message to check
+ * @param uid - User's uid
+ * @param username - User's username, used for legacy messages without a senderId
+ * @returns True if the user sent the message
+ */
+export function isMessageFromUser(
+  message: MessageData,
+  uid: string,
+  username: string
+): boolean {
+  return message.senderId ? message.senderId === uid : message.senderName === username;
 }
 
 /**
- * Fetches a username from Firestore by email address
- * @param email - User's email address
- * @returns Username or null if not found
+ * Pins a message to the top of a chat. Pinning a message that is already
+ * pinned keeps the original pin.
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the message to pin
+ * @param pinnedBy - uid of the member pinning it
  */
-export async function getUsernameByEmail(email: string): Promise<string | null> {
-  if (!email) {
-    console.error("Email is required");
-    return null;
+export async function pinMessage(
+  chatId: string,
+  messageId: string,
+  pinnedBy: string
+): Promise<Result<void>> {
+  if (!pinnedBy) {
+    return fail("not-signed-in");
   }
 
-  try {
-    const usersQuery = query(
-      collection(db, "users"),
-      where("email", "==", email)
-    );
-    const querySnapshot = await getDocs(usersQuery);
+  if (!chatId || !messageId) {
+    return fail("invalid-argument");
+  }
 
-    if (querySnapshot.empty) {
-      console.log("No user found with email:", email);
-      return null;
-    }
+  try {
+    // Checked against the chat's pinCount in the same transaction as the pin
+    const status = await getBackend().pins.add(chatId, messageId, pinnedBy, MAX_PINNED_MESSAGES);
 
-    const userData = querySnapshot.docs[0].data() as UserData;
-    return userData.username;
+    return status === "pinned" ? ok() : fail(status, String(MAX_PINNED_MESSAGES));
   } catch (error) {
-    console.error("Error fetching username:", error);
-    return null;
+    console.error("Error pinning message:", error);
+    return toFailure(error);
   }
 }
 
 /**
- * Creates or retrieves a chat between two users
- * @param currentUserEmail - Email of the current user
- * @param targetUsername - Username of the user to chat with
- * @returns Chat ID (channel name) or null if failed
+ * Removes a message from a chat's pins
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the pinned message
  */
-export async function createOrGetChat(
-  currentUserEmail: string,
-  targetUsername: string
-): Promise<string | null> {
-  if (!currentUserEmail || !targetUsername) {
-    console.error("Both current user email and target username are required");
-    return null;
+export async function unpinMessage(chatId: string, messageId: string): Promise<Result<void>> {
+  if (!chatId || !messageId) {
+    return fail("invalid-argument");
   }
 
   try {
-    // Find target user by username
-    const targetUserQuery = query(
-      collection(db, "users"),
-      where("username", "==", targetUsername)
+    await getBackend().pins.remove(chatId, messageId);
+    return ok();
+  } catch (error) {
+    console.error("Error unpinning message:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Subscribe to a chat's pinned messages. Each pin follows its message, so
+ * edits show up in the pin list as they happen.
+ * @param chatId - ID of the chat
+ * @param callback - Function to call with the pins, most recently pinned first
+ * @returns Unsubscribe function
+ */
+export function subscribeToPinnedMessages(
+  chatId: string,
+  callback: (pins: PinnedMessage[]) => void
+): Unsubscribe {
+  if (!chatId) {
+    console.error("Chat ID is required");
+    return () => {};
+  }
+
+  const { messages, pins } = getBackend();
+  const messageListeners = new Map<string, Unsubscribe>();
+  const pinnedMessages = new Map<string, MessageData | null>();
+  let currentPins: PinData[] = [];
+
+  const notify = () => {
+    callback(
+      currentPins.map((pin) => ({ ...pin, message: pinnedMessages.get(pin.messageId) ?? null }))
     );
-    const targetUserSnapshot = await getDocs(targetUserQuery);
+  };
 
-    if (targetUserSnapshot.empty) {
-      console.error("Target user not found:", targetUsername);
-      return null;
-    }
+  const unsubscribePins = pins.subscribe(chatId, (newPins) => {
+    const pinnedIds = new Set(newPins.map((pin) => pin.messageId));
+    currentPins = newPins;
 
-    const targetUserData = targetUserSnapshot.docs[0].data() as UserData;
-    const targetUserEmail = targetUserData.email;
+    messageListeners.forEach((unsubscribe, messageId) => {
+      if (pinnedIds.has(messageId)) return;
 
-    // Prevent chatting with self
-    if (currentUserEmail === targetUserEmail) {
-      console.error("Cannot create chat with yourself");
-      return null;
-    }
+      unsubscribe();
+      messageListeners.delete(messageId);
+      pinnedMessages.delete(messageId);
+    });
 
-    // Get current user's username
-    const currentUsername = await getUsernameByEmail(currentUserEmail);
-    if (!currentUsername) {
-      console.error("Current user not found");
-      return null;
-    }
+    pinnedIds.forEach((messageId) => {
+      if (messageListeners.has(messageId)) return;
 
-    // Create consistent chat ID by sorting usernames
-    const chatId = [currentUsername, targetUsername].sort().join("_");
+      messageListeners.set(
+        messageId,
+        messages.subscribe(chatId, messageId, (message) => {
+          pinnedMessages.set(messageId, message);
+          notify();
+        })
+      );
+    });
 
-    // Create or update chat document
-    const chatRef = doc(db, "chats", chatId);
-    await setDoc(
-      chatRef,
-      {
-        members: [currentUserEmail, targetUserEmail].sort(),
-        createdAt: serverTimestamp(),
-        lastMessage: "",
-        lastUpdated: serverTimestamp(),
-      },
-      { merge: true }
-    );
+    notify();
+  });
 
-    return chatId;
-  } catch (error) {
-    console.error("Error creating chat:", error);
-    return null;
-  }
+  return () => {
+    unsubscribePins();
+    messageListeners.forEach((unsubscribe) => unsubscribe());
+  };
 }
 
 /**
- * Sends a text message in a chat
+ * Records that the user has read a chat up to a message. The user's own
+ * read marker always moves; users who turned read receipts off only show
+ * up to others as having received it.
  * @param chatId - ID of the chat
- * @param text - Message text content
- * @param sender - Sender information (name and photo)
+ * @param user - Reading user, with their privacy settings
+ * @param message - Newest message the user has seen
  */
-export async function sendMessage(
+export async function markChatRead(
   chatId: string,
-  text: string,
-  sender: MessageSender
-): Promise<void> {
-  if (!chatId || !text.trim() || !sender.name) {
-    console.error("Invalid message parameters");
-    return;
+  user: UserData,
+  message: MessageData
+): Promise<Result<void>> {
+  if (!user?.uid) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId || !message?.id || !message.timestamp) {
+    return fail("invalid-argument");
   }
 
   try {
-    const messagesRef = collection(db, "chats", chatId, "messages");
-    
-    await addDoc(messagesRef, {
-      senderName: sender.name,
-      senderPhoto: sender.photo,
-      text: text.trim(),
-      timestamp: serverTimestamp(),
-    });
+    const { chats, readMarkers } = getBackend();
+    const marker = { messageId: message.id, timestamp: message.timestamp };
+
+    await Promise.all([
+      readMarkers.advance(user.uid, chatId, marker),
+      chats.advanceReceipts(chatId, user.uid, marker, user.privacy?.readReceipts !== false),
+    ]);
+    return ok();
+  } catch (error) {
+    console.error("Error marking chat as read:", error);
+    return toFailure(error);
+  }
+}
 
-    // Update chat metadata
-    const chatRef = doc(db, "chats", chatId);
-    await setDoc(
-      chatRef,
-      {
-        lastMessage: text.trim().substring(0, 100), // Limit preview length
-        lastUpdated: serverTimestamp(),
-      },
-      { merge: true }
+/**
+ * Suggests users to mention: members of the chat first, then anyone else
+ * whose username matches
+ * @param query - Start of the username, as typed after "@"
+ * @param members - Members of the chat
+ * @param currentUid - Current user's uid, who is left out
+ * @returns Matching users
+ */
+export async function getMentionSuggestions(
+  query: string,
+  members: ChatMember[],
+  currentUid: string
+): Promise<Result<MentionSuggestion[]>> {
+  if (!currentUid) {
+    return fail("not-signed-in");
+  }
+
+  const prefix = query.toLowerCase();
+  const memberSuggestions: MentionSuggestion[] = members
+    .filter((member) => member.uid !== currentUid && member.username.startsWith(prefix))
+    .sort((a, b) => a.username.localeCompare(b.username))
+    .map((member) => ({ ...member, isMember: true }));
+
+  // Other users are only worth a query once something has been typed
+  if (!prefix || memberSuggestions.length >= MAX_MENTION_SUGGESTIONS) {
+    return ok(memberSuggestions.slice(0, MAX_MENTION_SUGGESTIONS));
+  }
+
+  try {
+    const memberUids = new Set(members.map((member) => member.uid));
+    const users = await getBackend().users.searchByUsernamePrefix(
+      prefix,
+      MAX_MENTION_SUGGESTIONS
     );
+    const otherSuggestions: MentionSuggestion[] = users
+      .filter((user) => user.uid !== currentUid && !memberUids.has(user.uid))
+      .map((user) => ({
+        uid: user.uid,
+        username: user.username,
+        photoURL: user.photoURL,
+        isMember: false,
+      }));
+
+    return ok([...memberSuggestions, ...otherSuggestions].slice(0, MAX_MENTION_SUGGESTIONS));
   } catch (error) {
-    console.error("Error sending message:", error);
-    throw error;
+    console.error("Error searching users:", error);
+    return toFailure(error);
   }
 }
 
 /**
- * Sends a message with media attachment
+ * Checks whether a message mentions the user
+ * @param message - Message to check
+ * @param uid - uid of the user
+ * @returns True if the user is one of the message's mentions
+ */
+export function isMentioned(message: MessageData, uid: string): boolean {
+  return !!uid && !!message.mentionedUids?.includes(uid);
+}
+
+/**
+ * Mutes or unmutes a chat for the user. Muted chats still notify the
+ * user when they are mentioned.
+ * @param uid - uid of the user
  * @param chatId - ID of the chat
- * @param text - Optional message text
- * @param mediaData - Media and sender information
+ * @param isMuted - Whether the chat should be muted
  */
-export async function sendMessageWithMedia(
+export async function setChatMuted(
+  uid: string,
   chatId: string,
-  text: string,
-  mediaData: MediaData
-): Promise<void> {
-  if (!chatId || !mediaData.mediaUrl || !mediaData.name) {
-    console.error("Invalid media message parameters");
-    return;
+  isMuted: boolean
+): Promise<Result<void>> {
+  if (!uid) {
+    return fail("not-signed-in");
   }
 
-  try {
-    const messagesRef = collection(db, "chats", chatId, "messages");
-    
-    await addDoc(messagesRef, {
-      senderName: mediaData.name,
-      senderPhoto: mediaData.photo,
-      text: text.trim(),
-      mediaUrl: mediaData.mediaUrl,
-      mediaId: mediaData.mediaId,
-      timestamp: serverTimestamp(),
-    });
+  if (!chatId) {
+    return fail("invalid-argument");
+  }
 
-    // Update chat metadata
-    const chatRef = doc(db, "chats", chatId);
-    await setDoc(
-      chatRef,
-      {
-        lastMessage: text.trim() || "📎 Sent an attachment",
-        lastUpdated: serverTimestamp(),
-      },
-      { merge: true }
-    );
+  try {
+    await getBackend().users.setChatMuted(uid, chatId, isMuted);
+    return ok();
   } catch (error) {
-    console.error("Error sending media message:", error);
-    throw error;
+    console.error("Error muting chat:", error);
+    return toFailure(error);
   }
 }
 
 /**
- * Subscribe to real-time messages in a chat
+ * Shows or hides the user's typing indicator in a chat. The indicator
+ * expires on its own, so callers refresh it while the user keeps typing.
  * @param chatId - ID of the chat
- * @param callback - Function to call with updated messages
- * @returns Unsubscribe function
+ * @param uid - uid of the typing user
+ * @param isTyping - Whether the user is typing
  */
-export function subscribeToMessages(
+export async function setTyping(
   chatId: string,
-  callback: (messages: MessageData[]) => void
-): Unsubscribe {
+  uid: string,
+  isTyping: boolean
+): Promise<Result<void>> {
+  if (!uid) {
+    return fail("not-signed-in");
+  }
+
   if (!chatId) {
-    console.error("Chat ID is required");
+    return fail("invalid-argument");
+  }
+
+  try {
+    const expiresAt = isTyping ? new Date(Date.now() + TYPING_EXPIRY_SECONDS * 1000) : null;
+    await getBackend().chats.setTyping(chatId, uid, expiresAt);
+    return ok();
+  } catch (error) {
+    console.error("Error updating typing indicator:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Picks the members who are typing right now
+ * @param typing - Typing members from the chat
+ * @param currentUid - Current user's uid, who is left out
+ * @param now - Current time in milliseconds
+ * @returns Members whose indicator hasn't expired, in a stable order
+ */
+export function getActiveTypingMembers(
+  typing: TypingMember[],
+  currentUid: string,
+  now: number
+): TypingMember[] {
+  return typing
+    .filter((member) => member.uid !== currentUid && member.expiresAt > now)
+    .sort((a, b) => a.uid.localeCompare(b.uid));
+}
+
+/**
+ * Describes who is typing, e.g. "alice is typing…"
+ * @param typing - Members who are typing
+ * @returns Description, or an empty string if no one is typing
+ */
+export function describeTyping(typing: TypingMember[]): string {
+  const names = typing.map((member) => member.username);
+
+  switch (names.length) {
+    case 0:
+      return "";
+    case 1:
+      return `${names[0]} is typing…`;
+    case 2:
+      return `${names[0]} and ${names[1]} are typing…`;
+    default:
+      return `${names.length} people are typing…`;
+  }
+}
+
+/**
+ * Reads how far the user has read a chat
+ * @param uid - uid of the user
+ * @param chatId - ID of the chat
+ * @returns The user's read marker, or null if they never opened the chat
+ */
+export async function getReadMarker(
+  uid: string,
+  chatId: string
+): Promise<Result<ReceiptMarker | null>> {
+  if (!uid) {
+    return fail("not-signed-in");
+  }
+
+  if (!chatId) {
+    return fail("invalid-argument");
+  }
+
+  try {
+    return ok(await getBackend().readMarkers.get(uid, chatId));
+  } catch (error) {
+    console.error("Error loading read marker:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Finds where new messages start, for the divider shown when a chat opens
+ * @param messages - Loaded messages, oldest first
+ * @param marker - The user's read marker from before this visit
+ * @param uid - uid of the user
+ * @returns ID of the first message someone else sent after the marker, or
+ *   null if there is none or the user never opened the chat
+ */
+export function findFirstUnreadMessage(
+  messages: MessageData[],
+  marker: ReceiptMarker | null,
+  uid: string
+): string | null {
+  if (!marker) return null;
+
+  const message = messages.find(
+    (candidate) =>
+      candidate.senderId !== uid && !isCoveredByMarker(marker, candidate.timestamp)
+  );
+  return message?.id ?? null;
+}
+
+/**
+ * Marks the newest message of each of the user's chats as delivered,
+ * for as long as the subscription is open
+ * @param uid - uid of the signed-in user
+ * @param email - Email of the signed-in user
+ * @returns Unsubscribe function
+ */
+export function trackDeliveries(uid: string, email: string): Unsubscribe {
+  if (!uid || !email) {
     return () => {};
   }
 
-  const messagesRef = collection(db, "chats", chatId, "messages");
-  const messagesQuery = query(messagesRef, orderBy("timestamp", "asc"));
+  const { chats } = getBackend();
 
-  return onSnapshot(
-    messagesQuery,
-    (snapshot: QuerySnapshot<DocumentData>) => {
-      const messages = snapshot.docs.map((doc) => ({
-        id:doc.id,
-        ...doc.data(),
-      })) as MessageData[];
-      
-      callback(messages);
-    },
-    (error) => {
-      console.error("Error subscribing to messages:", error);
-    }
+  return chats.subscribeForMember(email, (memberChats) => {
+    memberChats.forEach((chat) => {
+      // lastUpdated is the send time of the message lastMessageId points at
+      if (!chat.lastMessageId || isCoveredByMarker(chat.deliveredTo?.[uid], chat.lastUpdated)) {
+        return;
+      }
+
+      chats
+        .advanceReceipts(
+          chat.id,
+          uid,
+          { messageId: chat.lastMessageId, timestamp: chat.lastUpdated },
+          false
+        )
+        .catch((error) => {
+          console.error("Error marking messages as delivered:", error);
+        });
+    });
+  });
+}
+
+/**
+ * Works out how far one of the user's messages has got with the other
+ * members of the chat
+ * @param message - Message the user sent
+ * @param chat - Chat with its members and receipts
+ * @param uid - uid of the sender
+ * @returns Seen once any other member has read it, delivered once it has
+ *   reached any of them, and sent otherwise
+ */
+export function getMessageReceipt(
+  message: MessageData,
+  chat: Pick<ChatDetails, "members" | "deliveredTo" | "readBy">,
+  uid: string
+): MessageReceipt {
+  const recipients = chat.members.map((member) => member.uid).filter((memberUid) => memberUid !== uid);
+  const seenBy = recipients.filter((recipient) =>
+    isCoveredByMarker(chat.readBy[recipient], message.timestamp)
   );
+  const isDelivered = recipients.some((recipient) =>
+    isCoveredByMarker(chat.deliveredTo[recipient], message.timestamp)
+  );
+
+  return {
+    status: seenBy.length > 0 ? "seen" : isDelivered ? "delivered" : "sent",
+    seenBy,
+  };
 }
 
 /**
- * Subscribe to user's chat list
+ * Subscribe to user's chat list. Rows render from the member metadata on
+ * each chat document and are refreshed from the shared profile directory,
+ * so a chat update never triggers per-chat profile reads.
  * @param userEmail - Email of the current user
  * @param callback - Function to call with updated chat list
  * @returns Unsubscribe function
@@ -298,87 +1936,256 @@ export function subscribeToChats(
     return () => {};
   }
 
-  const chatsRef = collection(db, "chats");
-  const chatsQuery = query(
-    chatsRef,
-    where("members", "array-contains", userEmail),
-    orderBy("lastUpdated", "desc")
-  );
+  let chatDocs: ChatRecord[] = [];
+  let otherUids: Record<string, string> = {}; // chat ID -> other member's uid
+  let profiles: Record<string, ChatParticipant> = {};
+  let unsubscribeProfiles: Unsubscribe = () => {};
+  let snapshotVersion = 0;
 
-  return onSnapshot(
-    chatsQuery,
-    async (snapshot: QuerySnapshot<DocumentData>) => {
-      const chatDocs = snapshot.docs.map((doc) => ({
-        id: doc.id,
-        ...doc.data(),
-      })) as (ChatData & { id: string })[];
+  const emit = () => {
+    const chatList = chatDocs
+      .map((chat) => toChatListItem(chat, userEmail, otherUids[chat.id], profiles))
+      .filter((chat): chat is ChatListItem => chat !== null);
 
-      // Fetch other user's details for each chat
-      const chatListPromises = chatDocs.map(async (chat) => {
-        const otherUserEmail = chat.members.find((email) => email !== userEmail);
+    callback(chatList);
+  };
 
-        if (!otherUserEmail) {
-          return null;
-        }
+  const unsubscribeChats = getBackend().chats.subscribeForMember(userEmail, async (chats) => {
+    const version = ++snapshotVersion;
+    chatDocs = chats;
 
-        const userQuery = query(
-          collection(db, "users"),
-          where("email", "==", otherUserEmail)
-        );
-        const userSnapshot = await getDocs(userQuery);
+    const directChats = chatDocs.filter((chat) => chat.type !== "group");
+    const resolvedUids = await Promise.all(
+      directChats.map((chat) => getOtherMemberUid(chat, userEmail))
+    );
 
-        if (userSnapshot.empty) {
-          return null;
-        }
+    // A newer snapshot arrived while legacy members were being resolved
+    if (version !== snapshotVersion) return;
 
-        const otherUserData = userSnapshot.docs[0].data() as UserData;
+    otherUids = {};
+    directChats.forEach((chat, index) => {
+      const uid = resolvedUids[index];
+      if (uid) otherUids[chat.id] = uid;
+    });
 
-        return {
-          id: chat.id,
-          message: chat.lastMessage,
-          timestamp: chat.lastUpdated,
-          username: otherUserData.username,
-          email: otherUserData.email,
-          photoURL: otherUserData.photoURL,
-        } as ChatListItem;
-      });
+    // Subscribe before releasing the previous set so shared listeners survive
+    const previousUnsubscribe = unsubscribeProfiles;
+    unsubscribeProfiles = subscribeToUserProfiles(Object.values(otherUids), (latest) => {
+      profiles = latest;
+      emit();
+    });
+    previousUnsubscribe();
 
-      const resolvedChats = await Promise.all(chatListPromises);
-      const validChats = resolvedChats.filter(
-        (chat): chat is ChatListItem => chat !== null
-      );
+    emit();
+  });
 
-      callback(validChats);
-    },
-    (error) => {
-      console.error("Error subscribing to chats:", error);
-    }
+  return () => {
+    unsubscribeChats();
+    unsubscribeProfiles();
+  };
+}
+
+/**
+ * Finds the uid of the other member of a direct chat, resolving it from
+ * the email for legacy chats that predate the participants map
+ * @param chat - Chat document data
+ * @param userEmail - Email of the current user
+ * @returns Other member's uid or null
+ */
+async function getOtherMemberUid(chat: ChatRecord, userEmail: string): Promise<string | null> {
+  const participantUid = Object.keys(chat.participants ?? {}).find(
+    (uid) => chat.participants?.[uid].email !== userEmail
   );
+  if (participantUid) {
+    return participantUid;
+  }
+
+  const otherUserEmail = chat.members.find((email) => email !== userEmail);
+  return otherUserEmail ? resolveUidByEmail(otherUserEmail) : null;
 }
 
 /**
- * Extracts the other user's name from a chat ID
- * @param chatId - Chat ID in format "user1_user2"
- * @param currentUsername - Current user's username
- * @returns Other user's username or null
+ * Builds a chat list row, preferring the live profile over the snapshot
+ * stored on the chat document
+ * @param chat - Chat document data with its ID
+ * @param userEmail - Email of the current user
+ * @param otherUid - uid of the other member for direct chats
+ * @param profiles - Live profiles keyed by uid
+ * @returns Chat list row or null if the other member is unknown
  */
-export function getOtherUsername(
-  chatId: string,
-  currentUsername: string
-): string | null {
-  if (!chatId || !currentUsername) {
+function toChatListItem(
+  chat: ChatRecord,
+  userEmail: string,
+  otherUid: string | undefined,
+  profiles: Record<string, ChatParticipant>
+): ChatListItem | null {
+  if (chat.type === "group") {
+    return {
+      id: chat.id,
+      message: chat.lastMessage,
+      timestamp: chat.lastUpdated,
+      isGroup: true,
+      title: chat.title || "Untitled group",
+      uid: "",
+      username: "",
+      email: "",
+      photoURL: chat.photoURL || "",
+      memberCount: chat.members.length,
+      typing: toTypingMembers(chat, profiles),
+    };
+  }
+
+  const otherUser =
+    (otherUid && profiles[otherUid]) ||
+    (otherUid && chat.participants?.[otherUid]) ||
+    null;
+
+  if (!otherUser || otherUser.email === userEmail) {
     return null;
   }
 
-  const participants = chatId.split("_");
-  
-  if (participants.length !== 2) {
-    console.error("Invalid chat ID format:", chatId);
+  return {
+    id: chat.id,
+    message: chat.lastMessage,
+    timestamp: chat.lastUpdated,
+    isGroup: false,
+    title: otherUser.username,
+    uid: otherUid ?? "",
+    username: otherUser.username,
+    email: otherUser.email,
+    photoURL: otherUser.photoURL,
+    memberCount: chat.members.length,
+    typing: toTypingMembers(chat, profiles),
+  };
+}
+
+/**
+ * Reads who a chat shows as typing, including expired entries that
+ * haven't been cleared yet
+ * @param chat - Chat document data
+ * @param profiles - Live profiles keyed by uid, preferred over participants
+ * @returns Typing members
+ */
+function toTypingMembers(
+  chat: ChatRecord,
+  profiles: Record<string, ChatParticipant>
+): TypingMember[] {
+  return Object.entries(chat.typing ?? {}).map(([uid, expiresAt]) => ({
+    uid,
+    username: profiles[uid]?.username ?? chat.participants?.[uid]?.username ?? "Someone",
+    expiresAt: expiresAt?.toMillis?.() ?? 0,
+  }));
+}
+
+/**
+ * Reads the uids of a chat's members, resolving them from emails for
+ * legacy chats that predate the participants map
+ * @param chat - Chat document data
+ * @returns Member uids
+ */
+async function getMemberUids(chat: ChatRecord): Promise<string[]> {
+  if (chat.participants) {
+    return Object.keys(chat.participants);
+  }
+
+  const uids = await Promise.all(chat.members.map(resolveUidByEmail));
+  return uids.filter((uid): uid is string => uid !== null);
+}
+
+/**
+ * Subscribe to a single chat's metadata. Member names and avatars come
+ * from the live profile directory when available.
+ * @param chatId - ID of the chat
+ * @param callback - Function to call with the chat details, or null if it doesn't exist
+ * @returns Unsubscribe function
+ */
+export function subscribeToChat(
+  chatId: string,
+  callback: (chat: ChatDetails | null) => void
+): Unsubscribe {
+  if (!chatId) {
+    console.error("Chat ID is required");
+    return () => {};
+  }
+
+  let chat: ChatRecord | null = null;
+  let memberUids: string[] = [];
+  let profiles: Record<string, ChatParticipant> = {};
+  let unsubscribeProfiles: Unsubscribe = () => {};
+  let snapshotVersion = 0;
+
+  const emit = () => {
+    if (!chat) return;
+
+    const members = memberUids
+      .map((uid) => {
+        const member = profiles[uid] ?? chat?.participants?.[uid];
+        return member
+          ? { uid, username: member.username, email: member.email, photoURL: member.photoURL }
+          : null;
+      })
+      .filter((member): member is ChatMember => member !== null);
+
+    callback({
+      id: chatId,
+      type: chat.type || "direct",
+      title: chat.title || "",
+      photoURL: chat.photoURL || "",
+      ownerEmail: chat.ownerEmail || "",
+      editWindowMinutes: chat.editWindowMinutes ?? null,
+      members,
+      deliveredTo: chat.deliveredTo ?? {},
+      readBy: chat.readBy ?? {},
+      typing: toTypingMembers(chat, profiles),
+    });
+  };
+
+  const unsubscribeChat = getBackend().chats.subscribe(chatId, async (chatData) => {
+    const version = ++snapshotVersion;
+
+    if (!chatData) {
+      chat = null;
+      callback(null);
+      return;
+    }
+
+    const uids = await getMemberUids(chatData);
+    if (version !== snapshotVersion) return;
+
+    chat = chatData;
+    memberUids = uids;
+
+    const previousUnsubscribe = unsubscribeProfiles;
+    unsubscribeProfiles = subscribeToUserProfiles(memberUids, (latest) => {
+      profiles = latest;
+      emit();
+    });
+    previousUnsubscribe();
+
+    emit();
+  });
+
+  return () => {
+    unsubscribeChat();
+    unsubscribeProfiles();
+  };
+}
+
+/**
+ * Finds the other member of a direct chat
+ * @param chat - Chat details from subscribeToChat
+ * @param currentUid - Current user's uid
+ * @returns Other member or null
+ */
+export function getOtherMember(
+  chat: ChatDetails,
+  currentUid: string
+): ChatMember | null {
+  if (!chat || !currentUid) {
     return null;
   }
 
-  const otherUser = participants.find((username) => username !== currentUsername);
-  return otherUser || participants[0];
+  return chat.members.find((member) => member.uid !== currentUid) ?? null;
 }
 
 /**
@@ -388,18 +2195,18 @@ export function getOtherUsername(
  */
 export async function uploadToCloudinary(
   file: File
-): Promise<CloudinaryUploadResponse> {
+): Promise<Result<CloudinaryUploadResponse>> {
   const cloudName = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME;
   const uploadPreset = process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET || "pagecord-images";
 
   if (!cloudName) {
-    throw new Error("Cloudinary cloud name is not configured");
+    return fail("upload-not-configured");
   }
 
   // Validate file type
   const validTypes = ["image/jpeg", "image/png", "image/gif", "image/webp", "video/mp4"];
   if (!validTypes.includes(file.type)) {
-    throw new Error("Invalid file type. Only images and videos are allowed");
+    return fail("invalid-file-type");
   }
 
   try {
@@ -417,19 +2224,19 @@ export async function uploadToCloudinary(
 
     if (!response.ok) {
       const errorData = await response.json();
-      throw new Error(errorData.error?.message || "Upload failed");
+      return fail("upload-failed", errorData.error?.message);
     }
 
     const data = await response.json();
 
-    return {
+    return ok({
       url: (data.secure_url || data.url).replace("/upload/", "/upload/w_800/q_auto/f_auto/"),
       type: data.resource_type,
       publicId: data.public_id,
-    };
+    });
   } catch (error) {
     console.error("Cloudinary upload error:", error);
-    throw error;
+    return fail("upload-failed", error instanceof Error ? error.message : undefined);
   }
 }
 
@@ -438,7 +2245,6 @@ export const getUserName = getUsernameByEmail;
 export const makeChat = createOrGetChat;
 export const sendFile = sendMessageWithMedia;
 export const getChats = subscribeToChats;
-export const getOtherUser = getOtherUsername;
 
 // import {
 //   collection,
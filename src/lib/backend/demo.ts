@@ -0,0 +1,89 @@
+import { Timestamp } from "firebase/firestore";
+import type { MemorySeed } from "./memory";
+import type { ChatParticipant, UserData } from "./types";
+
+const DEMO_USER: UserData = {
+  uid: "demo-user",
+  username: "demo",
+  email: "demo@pagecord.local",
+  photoURL: "",
+};
+
+const ALICE: UserData = {
+  uid: "demo-alice",
+  username: "alice",
+  email: "alice@pagecord.local",
+  photoURL: "",
+};
+
+const BOB: UserData = {
+  uid: "demo-bob",
+  username: "bob",
+  email: "bob@pagecord.local",
+  photoURL: "",
+};
+
+/**
+ * Builds the data demo mode starts with: a signed-out demo account that
+ * already has a profile, a direct chat and a small group
+ * @returns Seed for createMemoryBackend
+ */
+export function createDemoSeed(): MemorySeed {
+  const minutesAgo = (minutes: number) => Timestamp.fromMillis(Date.now() - minutes * 60 * 1000);
+  const participants = (users: UserData[]): Record<string, ChatParticipant> =>
+    Object.fromEntries(
+      users.map((user) => [
+        user.uid,
+        { username: user.username, email: user.email, photoURL: user.photoURL },
+      ])
+    );
+
+  return {
+    account: {
+      uid: DEMO_USER.uid,
+      email: DEMO_USER.email,
+      displayName: "Demo User",
+      photoURL: null,
+    },
+    users: [DEMO_USER, ALICE, BOB],
+    presence: {
+      [ALICE.uid]: { sessions: {}, lastActiveAt: minutesAgo(5) },
+      [BOB.uid]: { sessions: {}, lastActiveAt: minutesAgo(42) },
+    },
+    chats: [
+      {
+        id: "demo-direct",
+        members: [ALICE.email, DEMO_USER.email],
+        participants: participants([DEMO_USER, ALICE]),
+        dmKey: [DEMO_USER.uid, ALICE.uid].sort().join(":"),
+        type: "direct",
+        createdAt: minutesAgo(60),
+        lastMessage: "Everything here lives in memory 👀",
+        lastUpdated: minutesAgo(5),
+      },
+      {
+        id: "demo-group",
+        members: [DEMO_USER.email, ALICE.email, BOB.email],
+        participants: participants([DEMO_USER, ALICE, BOB]),
+        type: "group",
+        title: "Weekend plans",
+        photoURL: "",
+        ownerEmail: DEMO_USER.email,
+        createdAt: minutesAgo(120),
+        lastMessage: "Saturday works for me",
+        lastUpdated: minutesAgo(30),
+      },
+    ],
+    messages: {
+      "demo-direct": [
+        { id: "demo-direct-1", senderId: ALICE.uid, text: "Hey! Welcome to **demo mode**.", timestamp: minutesAgo(10) },
+        { id: "demo-direct-2", senderId: DEMO_USER.uid, text: "Is any of this saved?", timestamp: minutesAgo(8) },
+        { id: "demo-direct-3", senderId: ALICE.uid, text: "Everything here lives in memory 👀", timestamp: minutesAgo(5) },
+      ],
+      "demo-group": [
+        { id: "demo-group-1", senderId: DEMO_USER.uid, text: "Game night this weekend?", timestamp: minutesAgo(40) },
+        { id: "demo-group-2", senderId: BOB.uid, text: "Saturday works for me", timestamp: minutesAgo(30) },
+      ],
+    },
+  };
+}
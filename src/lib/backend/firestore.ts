@@ -0,0 +1,978 @@
+import {
+  collection,
+  addDoc,
+  deleteDoc,
+  doc,
+  query,
+  where,
+  getDoc,
+  getDocs,
+  setDoc,
+  limit,
+  startAt,
+  startAfter,
+  endAt,
+  serverTimestamp,
+  updateDoc,
+  onSnapshot,
+  orderBy,
+  runTransaction,
+  writeBatch,
+  arrayUnion,
+  arrayRemove,
+  FieldPath,
+  collectionGroup,
+  deleteField,
+  getCountFromServer,
+  increment,
+  Timestamp,
+  CollectionReference,
+  QueryDocumentSnapshot,
+  DocumentData,
+  DocumentSnapshot,
+  Transaction,
+  clearIndexedDbPersistence,
+  terminate,
+} from "firebase/firestore";
+import { onAuthStateChanged, signInWithPopup, signOut, User } from "firebase/auth";
+import { auth, db, googleProvider } from "../firebase";
+import { getMessagePreview } from "./preview";
+import { applyPresenceReport } from "./presence";
+import { isCoveredByMarker } from "./receipts";
+import type {
+  AuthAccount,
+  Backend,
+  ChatRecord,
+  MessageCursor,
+  MessageData,
+  MessagePage,
+  MessageRevision,
+  PinData,
+  PresenceData,
+  ReceiptMarker,
+  Unsubscribe,
+  UserData,
+  UsernameRedirect,
+} from "./types";
+
+/**
+ * Creates the backend that reads and writes the Firebase project
+ * configured in firebase.ts
+ * @returns Firestore-backed repositories
+ */
+export function createFirestoreBackend(): Backend {
+  return {
+    auth: {
+      subscribe(callback) {
+        return onAuthStateChanged(auth, (user) => callback(user ? toAuthAccount(user) : null));
+      },
+
+      async signIn() {
+        const result = await signInWithPopup(auth, googleProvider);
+        return toAuthAccount(result.user);
+      },
+
+      signOut() {
+        return signOut(auth);
+      },
+
+      async getIdToken() {
+        return auth.currentUser ? auth.currentUser.getIdToken() : null;
+      },
+
+      async clearOfflineData() {
+        // The cache can only be cleared once the instance has stopped
+        await terminate(db);
+        await clearIndexedDbPersistence(db);
+      },
+    },
+
+    users: {
+      async get(uid) {
+        const userSnap = await getDoc(doc(db, "users", uid));
+        return toUserData(userSnap);
+      },
+
+      async findByEmail(email) {
+        const snapshot = await getDocs(query(collection(db, "users"), where("email", "==", email)));
+        return snapshot.empty ? null : toUserData(snapshot.docs[0]);
+      },
+
+      async findByUsername(username) {
+        const snapshot = await getDocs(
+          query(collection(db, "users"), where("username", "==", username))
+        );
+        return snapshot.empty ? null : toUserData(snapshot.docs[0]);
+      },
+
+      subscribe(uid, callback) {
+        return onSnapshot(
+          doc(db, "users", uid),
+          (userSnap) => callback(toUserData(userSnap)),
+          (error) => {
+            console.error("Error subscribing to user profile:", error);
+          }
+        );
+      },
+
+      async isUsernameReserved(username) {
+        const usernameSnap = await getDoc(doc(db, "usernames", username));
+        return usernameSnap.exists();
+      },
+
+      async getUsernameRedirect(username) {
+        const redirectSnap = await getDoc(doc(db, "usernameRedirects", username));
+        return (redirectSnap.data() as UsernameRedirect | undefined) ?? null;
+      },
+
+      create(profile) {
+        const userRef = doc(db, "users", profile.uid);
+        const usernameRef = doc(db, "usernames", profile.username);
+
+        return runTransaction(db, async (transaction) => {
+          const usernameSnap = await transaction.get(usernameRef);
+          const userSnap = await transaction.get(userRef);
+
+          if (userSnap.exists()) return "profile-exists";
+          if (usernameSnap.exists()) return "username-taken";
+
+          transaction.set(usernameRef, { uid: profile.uid, createdAt: serverTimestamp() });
+          transaction.set(userRef, { ...profile, createdAt: serverTimestamp() });
+          return "created";
+        });
+      },
+
+      rename(uid, username, redirectExpiresAt) {
+        const userRef = doc(db, "users", uid);
+        const newUsernameRef = doc(db, "usernames", username);
+
+        return runTransaction(db, async (transaction) => {
+          const userSnap = await transaction.get(userRef);
+          const newUsernameSnap = await transaction.get(newUsernameRef);
+
+          const user = toUserData(userSnap);
+          if (!user) return { status: "not-found" };
+          if (user.username === username) return { status: "unchanged" };
+
+          if (newUsernameSnap.exists() && newUsernameSnap.data().uid !== uid) {
+            return { status: "username-taken" };
+          }
+
+          transaction.set(newUsernameRef, { uid, createdAt: serverTimestamp() });
+          transaction.delete(doc(db, "usernames", user.username));
+          transaction.delete(doc(db, "usernameRedirects", username));
+          transaction.set(doc(db, "usernameRedirects", user.username), {
+            uid,
+            username,
+            expiresAt: Timestamp.fromDate(redirectExpiresAt),
+          });
+          transaction.update(userRef, { username, usernameChangedAt: serverTimestamp() });
+
+          return { status: "renamed", previous: user };
+        });
+      },
+
+      async searchByUsernamePrefix(prefix, maxResults) {
+        const snapshot = await getDocs(
+          query(
+            collection(db, "users"),
+            orderBy("username"),
+            startAt(prefix),
+            endAt(`${prefix}\uf8ff`),
+            limit(maxResults)
+          )
+        );
+        return snapshot.docs
+          .map(toUserData)
+          .filter((user): user is UserData => user !== null);
+      },
+
+      async setChatMuted(uid, chatId, isMuted) {
+        await updateDoc(doc(db, "users", uid), {
+          mutedChats: isMuted ? arrayUnion(chatId) : arrayRemove(chatId),
+        });
+      },
+
+      async updatePrivacy(uid, privacy) {
+        // Field paths merge into the map instead of replacing it
+        const updates = Object.fromEntries(
+          Object.entries(privacy).map(([setting, value]) => [`privacy.${setting}`, value])
+        );
+        await updateDoc(doc(db, "users", uid), updates);
+      },
+    },
+
+    chats: {
+      async get(chatId) {
+        const chatSnap = await getDoc(doc(db, "chats", chatId));
+        return toChatRecord(chatSnap);
+      },
+
+      async findByDmKey(dmKey) {
+        const snapshot = await getDocs(
+          query(collection(db, "chats"), where("dmKey", "==", dmKey), limit(1))
+        );
+        return snapshot.empty ? null : snapshot.docs[0].id;
+      },
+
+      async listForMember(email) {
+        const snapshot = await getDocs(
+          query(collection(db, "chats"), where("members", "array-contains", email))
+        );
+        return snapshot.docs.map((chatDoc) => toChatRecord(chatDoc) as ChatRecord);
+      },
+
+      async create(chat) {
+        const chatRef = await addDoc(collection(db, "chats"), {
+          ...chat,
+          createdAt: serverTimestamp(),
+          lastMessage: "",
+          lastUpdated: serverTimestamp(),
+        });
+        return chatRef.id;
+      },
+
+      async update(chatId, updates) {
+        await updateDoc(doc(db, "chats", chatId), { ...updates });
+      },
+
+      transact(chatId, updateFn) {
+        const chatRef = doc(db, "chats", chatId);
+
+        return runTransaction(db, async (transaction) => {
+          const updates = updateFn(toChatRecord(await transaction.get(chatRef)));
+          if (!updates) return false;
+
+          transaction.update(chatRef, { ...updates });
+          return true;
+        });
+      },
+
+      async setParticipant(chatId, uid, participant) {
+        await updateDoc(doc(db, "chats", chatId), { [`participants.${uid}`]: participant });
+      },
+
+      async advanceReceipts(chatId, uid, marker, isRead) {
+        const chatRef = doc(db, "chats", chatId);
+
+        await runTransaction(db, async (transaction) => {
+          const chat = toChatRecord(await transaction.get(chatRef));
+          if (!chat) {
+            throw notFound(`Chat ${chatId} does not exist`);
+          }
+
+          const updates: Record<string, ReceiptMarker> = {};
+          if (!isCoveredByMarker(chat.deliveredTo?.[uid], marker.timestamp)) {
+            updates[`deliveredTo.${uid}`] = marker;
+          }
+          if (isRead && !isCoveredByMarker(chat.readBy?.[uid], marker.timestamp)) {
+            updates[`readBy.${uid}`] = marker;
+          }
+
+          if (Object.keys(updates).length > 0) {
+            transaction.update(chatRef, updates);
+          }
+        });
+      },
+
+      async setTyping(chatId, uid, expiresAt) {
+        await updateDoc(doc(db, "chats", chatId), {
+          [`typing.${uid}`]: expiresAt ? Timestamp.fromDate(expiresAt) : deleteField(),
+        });
+      },
+
+      subscribe(chatId, callback) {
+        return onSnapshot(
+          doc(db, "chats", chatId),
+          (chatSnap) => callback(toChatRecord(chatSnap)),
+          (error) => {
+            console.error("Error subscribing to chat:", error);
+          }
+        );
+      },
+
+      subscribeForMember(email, callback) {
+        const chatsQuery = query(
+          collection(db, "chats"),
+          where("members", "array-contains", email),
+          orderBy("lastUpdated", "desc")
+        );
+
+        return onSnapshot(
+          chatsQuery,
+          (snapshot) => callback(snapshot.docs.map((chatDoc) => toChatRecord(chatDoc) as ChatRecord)),
+          (error) => {
+            console.error("Error subscribing to chats:", error);
+          }
+        );
+      },
+    },
+
+    messages: {
+      async add(chatId, message, messageId) {
+        const messagesRef = collection(db, "chats", chatId, "messages");
+        const messageRef = messageId ? doc(messagesRef, messageId) : doc(messagesRef);
+
+        await runTransaction(db, async (transaction) => {
+          if (messageId && (await transaction.get(messageRef)).exists()) return;
+
+          transaction.set(messageRef, { ...message, timestamp: serverTimestamp() });
+          transaction.update(doc(db, "chats", chatId), {
+            lastMessage: getMessagePreview(message),
+            lastMessageId: messageRef.id,
+            lastUpdated: serverTimestamp(),
+          });
+        });
+
+        return messageRef.id;
+      },
+
+      async get(chatId, messageId) {
+        const messageSnap = await getDoc(doc(db, "chats", chatId, "messages", messageId));
+        return messageSnap.exists() ? toMessageData(messageSnap) : null;
+      },
+
+      async edit(chatId, messageId, text, editedBy) {
+        const chatRef = doc(db, "chats", chatId);
+        const messageRef = doc(db, "chats", chatId, "messages", messageId);
+        const latestIds = await getLatestMessageIds(chatId, 1);
+
+        await runTransaction(db, async (transaction) => {
+          const chat = toChatRecord(await transaction.get(chatRef));
+          const messageSnap = await transaction.get(messageRef);
+
+          if (!messageSnap.exists()) {
+            throw notFound(`Message ${messageId} does not exist`);
+          }
+
+          const message = messageSnap.data() as MessageData;
+          const revisionCount = (message.revisionCount ?? 0) + 1;
+
+          transaction.set(doc(messageRef, "revisions", String(revisionCount)), {
+            text: message.text,
+            editedAt: serverTimestamp(),
+            editedBy,
+          });
+          transaction.update(messageRef, {
+            text,
+            isEdited: true,
+            editedAt: serverTimestamp(),
+            revisionCount,
+          });
+
+          if (chat && isLatestMessage(chat, messageId, latestIds)) {
+            transaction.update(chatRef, {
+              lastMessage: getMessagePreview({ ...message, text }),
+              lastMessageId: messageId,
+            });
+          }
+        });
+      },
+
+      async setReaction(chatId, messageId, emoji, uid, hasReacted) {
+        const messageRef = doc(db, "chats", chatId, "messages", messageId);
+        const field = new FieldPath("reactions", emoji);
+
+        // Array transforms merge on the server, unlike a read-modify-write
+        if (hasReacted) {
+          await updateDoc(messageRef, field, arrayUnion(uid));
+          return;
+        }
+
+        // The last reactor drops the emoji, which the rules insist on so
+        // the reaction limit only counts emoji someone still uses
+        await runTransaction(db, async (transaction) => {
+          const snapshot = await transaction.get(messageRef);
+          const reactors: string[] = snapshot.get(field) ?? [];
+          const isLastReactor = reactors.every((reactor) => reactor === uid);
+
+          transaction.update(messageRef, field, isLastReactor ? deleteField() : arrayRemove(uid));
+        });
+      },
+
+      async update(chatId, messageId, updates) {
+        await updateDoc(doc(db, "chats", chatId, "messages", messageId), { ...updates });
+      },
+
+      async delete(chatId, messageId, deletedBy, purgeAfter) {
+        await writeDeletion(chatId, messageId, {
+          deletedBy,
+          purgeAfter: Timestamp.fromDate(purgeAfter),
+        });
+      },
+
+      async restore(chatId, messageId) {
+        await writeDeletion(chatId, messageId, null);
+      },
+
+      async purgeDeleted(chatId) {
+        const snapshot = await getDocs(
+          query(
+            collection(db, "chats", chatId, "messages"),
+            where("purgeAfter", "<=", Timestamp.now())
+          )
+        );
+
+        // One at a time, since unpinning them all touches the chat's pinCount
+        for (const messageDoc of snapshot.docs) {
+          const message = messageDoc.data() as MessageData;
+
+          await runTransaction(db, async (transaction) => {
+            await removePin(transaction, chatId, messageDoc.id);
+
+            // Revision IDs count up from 1, so they can be deleted without a query
+            for (let revision = 1; revision <= (message.revisionCount ?? 0); revision++) {
+              transaction.delete(doc(messageDoc.ref, "revisions", String(revision)));
+            }
+            // Uploaded files stay with the media host; only the reference is removed
+            transaction.update(messageDoc.ref, {
+              text: "",
+              mediaUrl: deleteField(),
+              mediaId: deleteField(),
+              revisionCount: deleteField(),
+              purgeAfter: deleteField(),
+            });
+          });
+        }
+
+        return snapshot.size;
+      },
+
+      subscribeLatest(chatId, pageSize, callback) {
+        return subscribeToLatestPage(collection(db, "chats", chatId, "messages"), pageSize, callback);
+      },
+
+      loadBefore(chatId, cursor, pageSize) {
+        return loadPageBefore(collection(db, "chats", chatId, "messages"), cursor, pageSize);
+      },
+
+      subscribe(chatId, messageId, callback) {
+        return onSnapshot(
+          doc(db, "chats", chatId, "messages", messageId),
+          (messageSnap) => callback(messageSnap.exists() ? toMessageData(messageSnap) : null),
+          (error) => {
+            console.error("Error subscribing to message:", error);
+          }
+        );
+      },
+
+      async countUnread(chatId, uid, after) {
+        const messagesRef = collection(db, "chats", chatId, "messages");
+        const since = after ? [where("timestamp", ">", after.timestamp)] : [];
+
+        // Legacy messages have no senderId, so own messages are counted
+        // separately and subtracted rather than filtered out. A message is
+        // deleted after it was sent, so deletedAt finds every tombstone
+        // past the marker; there are few, so they're read and subtracted.
+        const [total, own, deleted] = await Promise.all([
+          getCountFromServer(query(messagesRef, ...since)),
+          getCountFromServer(query(messagesRef, where("senderId", "==", uid), ...since)),
+          getDocs(
+            query(
+              messagesRef,
+              after ? where("deletedAt", ">", after.timestamp) : where("deletedAt", "!=", null)
+            )
+          ),
+        ]);
+        const deletedFromOthers = deleted.docs.filter((messageDoc) => {
+          const message = messageDoc.data();
+          return (
+            message.senderId !== uid && !isCoveredByMarker(after ?? undefined, message.timestamp)
+          );
+        });
+
+        return total.data().count - own.data().count - deletedFromOthers.length;
+      },
+
+      async countUnreadMentions(chatId, uid, after) {
+        const messagesRef = collection(db, "chats", chatId, "messages");
+        const since = after ? [where("timestamp", ">", after.timestamp)] : [];
+        const countMentions = async (messages: CollectionReference<DocumentData>) => {
+          const snapshot = await getCountFromServer(
+            query(messages, where("mentionedUids", "array-contains", uid), ...since)
+          );
+          return snapshot.data().count;
+        };
+
+        // Only threads replied to after the marker can hold unread replies
+        const roots = await getDocs(
+          query(
+            messagesRef,
+            after
+              ? where("lastThreadReplyAt", ">", after.timestamp)
+              : where("threadReplyCount", ">", 0)
+          )
+        );
+        const counts = await Promise.all([
+          countMentions(messagesRef),
+          ...roots.docs.map((root) => countMentions(collection(root.ref, "thread"))),
+        ]);
+
+        return counts.reduce((total, count) => total + count, 0);
+      },
+
+      async listChangedSince(chatId, since) {
+        const messagesRef = collection(db, "chats", chatId, "messages");
+
+        if (!since) {
+          const snapshot = await getDocs(messagesRef);
+          return snapshot.docs.map(toMessageData);
+        }
+
+        // Each kind of change stamps its own field, so each needs a query
+        const changedAt = Timestamp.fromDate(since);
+        const snapshots = await Promise.all(
+          ["timestamp", "editedAt", "deletedAt", "restoredAt", "lastThreadReplyAt"].map((field) =>
+            getDocs(query(messagesRef, where(field, ">=", changedAt)))
+          )
+        );
+        const changed = new Map<string, MessageData>();
+
+        snapshots.forEach((snapshot) => {
+          snapshot.docs.forEach((messageDoc) => changed.set(messageDoc.id, toMessageData(messageDoc)));
+        });
+
+        return Array.from(changed.values());
+      },
+
+      async listRevisions(chatId, messageId) {
+        const snapshot = await getDocs(
+          query(
+            collection(db, "chats", chatId, "messages", messageId, "revisions"),
+            orderBy("editedAt", "asc")
+          )
+        );
+        return snapshot.docs.map(
+          (revisionDoc) => ({ id: revisionDoc.id, ...revisionDoc.data() }) as MessageRevision
+        );
+      },
+
+      async findLegacyBySenderName(senderName) {
+        const snapshot = await getDocs(
+          query(collectionGroup(db, "messages"), where("senderName", "==", senderName))
+        );
+
+        return snapshot.docs
+          .filter((messageDoc) => !messageDoc.data().senderId)
+          .map((messageDoc) => ({
+            chatId: messageDoc.ref.parent.parent?.id ?? "",
+            messageId: messageDoc.id,
+          }));
+      },
+    },
+
+    threads: {
+      async add(chatId, rootId, message) {
+        const rootRef = doc(db, "chats", chatId, "messages", rootId);
+        const replyRef = doc(collection(rootRef, "thread"));
+        const batch = writeBatch(db);
+
+        // The root update fails if the root is gone, taking the reply with it.
+        // The chat's stamp lets unread counts notice mentions in threads.
+        batch.set(replyRef, { ...message, threadId: rootId, timestamp: serverTimestamp() });
+        batch.update(rootRef, {
+          threadReplyCount: increment(1),
+          lastThreadReplyAt: serverTimestamp(),
+        });
+        batch.update(doc(db, "chats", chatId), { lastThreadReplyAt: serverTimestamp() });
+        await batch.commit();
+
+        return replyRef.id;
+      },
+
+      subscribeLatest(chatId, rootId, pageSize, callback) {
+        return subscribeToLatestPage(
+          collection(db, "chats", chatId, "messages", rootId, "thread"),
+          pageSize,
+          callback
+        );
+      },
+
+      loadBefore(chatId, rootId, cursor, pageSize) {
+        return loadPageBefore(
+          collection(db, "chats", chatId, "messages", rootId, "thread"),
+          cursor,
+          pageSize
+        );
+      },
+
+      async listSince(chatId, rootId, since) {
+        const threadRef = collection(db, "chats", chatId, "messages", rootId, "thread");
+        const snapshot = await getDocs(
+          since
+            ? query(threadRef, where("timestamp", ">=", Timestamp.fromDate(since)))
+            : threadRef
+        );
+        return snapshot.docs.map(toMessageData);
+      },
+    },
+
+    readMarkers: {
+      async get(uid, chatId) {
+        const markerSnap = await getDoc(doc(db, "users", uid, "readMarkers", chatId));
+        return (markerSnap.data() as ReceiptMarker | undefined) ?? null;
+      },
+
+      async advance(uid, chatId, marker) {
+        const markerRef = doc(db, "users", uid, "readMarkers", chatId);
+
+        await runTransaction(db, async (transaction) => {
+          const current = (await transaction.get(markerRef)).data() as ReceiptMarker | undefined;
+          if (isCoveredByMarker(current, marker.timestamp)) return;
+
+          transaction.set(markerRef, { messageId: marker.messageId, timestamp: marker.timestamp });
+        });
+      },
+
+      subscribe(uid, callback) {
+        return onSnapshot(
+          collection(db, "users", uid, "readMarkers"),
+          (snapshot) => {
+            callback(
+              Object.fromEntries(
+                snapshot.docs.map((markerDoc) => [markerDoc.id, markerDoc.data() as ReceiptMarker])
+              )
+            );
+          },
+          (error) => {
+            console.error("Error subscribing to read markers:", error);
+          }
+        );
+      },
+    },
+
+    presence: {
+      async report(uid, sessionId, state, staleBefore) {
+        const presenceRef = doc(db, "presence", uid);
+
+        await runTransaction(db, async (transaction) => {
+          const current = (await transaction.get(presenceRef)).data() as PresenceData | undefined;
+          transaction.set(
+            presenceRef,
+            applyPresenceReport(current ?? null, sessionId, state, staleBefore, serverTimestamp())
+          );
+        });
+      },
+
+      subscribe(uid, callback) {
+        return onSnapshot(
+          doc(db, "presence", uid),
+          (presenceSnap) => {
+            // Estimate pending heartbeats so this tab doesn't briefly look stale
+            const presence = presenceSnap.data({ serverTimestamps: "estimate" });
+            callback((presence as PresenceData | undefined) ?? null);
+          },
+          (error) => {
+            console.error("Error subscribing to presence:", error);
+          }
+        );
+      },
+    },
+
+    push: {
+      async saveSubscription(uid, deviceId, subscription) {
+        await setDoc(doc(db, "users", uid, "pushSubscriptions", deviceId), {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+          updatedAt: serverTimestamp(),
+        });
+      },
+
+      async removeSubscription(uid, deviceId) {
+        await deleteDoc(doc(db, "users", uid, "pushSubscriptions", deviceId));
+      },
+    },
+
+    pins: {
+      async list(chatId) {
+        const snapshot = await getDocs(
+          query(collection(db, "chats", chatId, "pins"), orderBy("pinnedAt", "desc"))
+        );
+        return snapshot.docs.map(toPinData);
+      },
+
+      add(chatId, messageId, pinnedBy, maxPins) {
+        const chatRef = doc(db, "chats", chatId);
+        const pinRef = doc(chatRef, "pins", messageId);
+
+        return runTransaction(db, async (transaction) => {
+          const chatSnap = await transaction.get(chatRef);
+          const pinSnap = await transaction.get(pinRef);
+
+          if (pinSnap.exists()) return "pinned";
+
+          const pinCount: number = chatSnap.get("pinCount") ?? 0;
+          if (pinCount >= maxPins) return "pin-limit-reached";
+
+          transaction.set(pinRef, { pinnedBy, pinnedAt: serverTimestamp() });
+          transaction.update(chatRef, { pinCount: pinCount + 1, lastPinChange: messageId });
+          return "pinned";
+        });
+      },
+
+      async remove(chatId, messageId) {
+        await runTransaction(db, (transaction) => removePin(transaction, chatId, messageId));
+      },
+
+      subscribe(chatId, callback) {
+        return onSnapshot(
+          query(collection(db, "chats", chatId, "pins"), orderBy("pinnedAt", "desc")),
+          (snapshot) => callback(snapshot.docs.map(toPinData)),
+          (error) => {
+            console.error("Error subscribing to pinned messages:", error);
+          }
+        );
+      },
+    },
+  };
+}
+
+/**
+ * Subscribes to the latest page of a message stream and everything added
+ * after it. The live window is anchored at the oldest message of that
+ * page, so messages never fall out of it as new ones arrive.
+ * @param messagesRef - Chat messages or thread replies
+ * @param pageSize - Number of messages in the first page
+ * @param callback - Called with messages (oldest first) and a cursor to the next older page
+ * @returns Unsubscribe function
+ */
+function subscribeToLatestPage(
+  messagesRef: CollectionReference<DocumentData>,
+  pageSize: number,
+  callback: (messages: MessageData[], cursor: MessageCursor | null) => void
+): Unsubscribe {
+  let unsubscribe: (() => void) | null = null;
+  let isCancelled = false;
+
+  getDocs(query(messagesRef, orderBy("timestamp", "desc"), limit(pageSize)))
+    .then((latestSnapshot) => {
+      if (isCancelled) return;
+
+      const anchor = latestSnapshot.docs[latestSnapshot.docs.length - 1];
+      const cursor = latestSnapshot.docs.length === pageSize ? toCursor(anchor) : null;
+      const messagesQuery = anchor
+        ? query(messagesRef, orderBy("timestamp", "asc"), startAt(anchor))
+        : query(messagesRef, orderBy("timestamp", "asc"));
+
+      unsubscribe = onSnapshot(
+        messagesQuery,
+        (snapshot) => {
+          callback(snapshot.docs.map(toMessageData), cursor);
+        },
+        (error) => {
+          console.error("Error subscribing to messages:", error);
+        }
+      );
+    })
+    .catch((error) => {
+      console.error("Error loading latest messages:", error);
+    });
+
+  return () => {
+    isCancelled = true;
+    unsubscribe?.();
+  };
+}
+
+/**
+ * Loads the page of a message stream just before a cursor
+ * @param messagesRef - Chat messages or thread replies
+ * @param cursor - Cursor from the previous page
+ * @param pageSize - Maximum number of messages to load
+ * @returns Messages (oldest first) and a cursor to the next older page
+ */
+async function loadPageBefore(
+  messagesRef: CollectionReference<DocumentData>,
+  cursor: MessageCursor,
+  pageSize: number
+): Promise<MessagePage> {
+  const pageSnapshot = await getDocs(
+    query(messagesRef, orderBy("timestamp", "desc"), startAfter(fromCursor(cursor)), limit(pageSize))
+  );
+  const docs = pageSnapshot.docs;
+
+  return {
+    messages: docs.map(toMessageData).reverse(),
+    cursor: docs.length === pageSize ? toCursor(docs[docs.length - 1]) : null,
+  };
+}
+
+/**
+ * Reads the IDs of a chat's newest messages. Transactions can't run
+ * queries, so this happens just before one.
+ * @param chatId - ID of the chat
+ * @param count - Number of IDs to read
+ * @returns Message IDs, newest first
+ */
+async function getLatestMessageIds(chatId: string, count: number): Promise<string[]> {
+  const snapshot = await getDocs(
+    query(collection(db, "chats", chatId, "messages"), orderBy("timestamp", "desc"), limit(count))
+  );
+  return snapshot.docs.map((messageDoc) => messageDoc.id);
+}
+
+/**
+ * Checks whether a message is the one the chat preview shows. Chats from
+ * before lastMessageId existed fall back to the newest message.
+ * @param chat - Chat read inside the transaction
+ * @param messageId - Message being changed
+ * @param latestIds - Newest message IDs from getLatestMessageIds
+ * @returns True if the chat preview must follow the change
+ */
+function isLatestMessage(chat: ChatRecord, messageId: string, latestIds: string[]): boolean {
+  return chat.lastMessageId ? chat.lastMessageId === messageId : latestIds[0] === messageId;
+}
+
+/**
+ * Marks a message as deleted, or restores it, refreshing the chat preview
+ * if it is the latest message
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the message
+ * @param deletion - Who deleted it and when to purge it, or null to restore it
+ */
+async function writeDeletion(
+  chatId: string,
+  messageId: string,
+  deletion: Pick<MessageData, "deletedBy" | "purgeAfter"> | null
+): Promise<void> {
+  const chatRef = doc(db, "chats", chatId);
+  const messageRef = doc(db, "chats", chatId, "messages", messageId);
+  const latestIds = await getLatestMessageIds(chatId, 1);
+
+  await runTransaction(db, async (transaction) => {
+    const chat = toChatRecord(await transaction.get(chatRef));
+    const messageSnap = await transaction.get(messageRef);
+
+    if (!messageSnap.exists()) {
+      throw notFound(`Message ${messageId} does not exist`);
+    }
+
+    const message = messageSnap.data() as MessageData;
+
+    transaction.update(
+      messageRef,
+      deletion
+        ? { ...deletion, deletedAt: serverTimestamp() }
+        : {
+            deletedAt: deleteField(),
+            deletedBy: deleteField(),
+            purgeAfter: deleteField(),
+            restoredAt: serverTimestamp(),
+          }
+    );
+
+    if (chat && isLatestMessage(chat, messageId, latestIds)) {
+      transaction.update(chatRef, {
+        lastMessage: getMessagePreview({ ...message, deletedAt: deletion ? true : undefined }),
+        lastMessageId: messageId,
+      });
+    }
+  });
+}
+
+/**
+ * Unpins a message inside a transaction, counting it off the chat's
+ * pinCount. Does nothing if the message isn't pinned. Reads first, so
+ * callers must add their own writes after it.
+ * @param transaction - Transaction to unpin in
+ * @param chatId - ID of the chat
+ * @param messageId - ID of the pinned message
+ */
+async function removePin(transaction: Transaction, chatId: string, messageId: string): Promise<void> {
+  const chatRef = doc(db, "chats", chatId);
+  const pinRef = doc(chatRef, "pins", messageId);
+  const chatSnap = await transaction.get(chatRef);
+  const pinSnap = await transaction.get(pinRef);
+
+  if (!pinSnap.exists()) return;
+
+  // Chats pinned before the count existed start it from zero
+  const pinCount: number = chatSnap.get("pinCount") ?? 0;
+  transaction.delete(pinRef);
+  transaction.update(chatRef, { pinCount: Math.max(pinCount - 1, 0), lastPinChange: messageId });
+}
+
+/**
+ * Builds an error with the code Firestore uses for missing documents
+ * @param message - Error message
+ * @returns Error with code "not-found"
+ */
+function notFound(message: string): Error {
+  return Object.assign(new Error(message), { code: "not-found" });
+}
+
+/**
+ * Maps a Firebase Auth user to an AuthAccount
+ * @param user - Signed-in Firebase user
+ * @returns Account fields the app uses
+ */
+function toAuthAccount(user: User): AuthAccount {
+  return {
+    uid: user.uid,
+    email: user.email,
+    displayName: user.displayName,
+    photoURL: user.photoURL,
+  };
+}
+
+/**
+ * Maps a user document to UserData
+ * @param userSnap - Firestore user document
+ * @returns User data with its uid, or null if the document doesn't exist
+ */
+function toUserData(userSnap: DocumentSnapshot<DocumentData>): UserData | null {
+  const data = userSnap.data();
+  return data
+    ? {
+        uid: userSnap.id,
+        username: data.username,
+        email: data.email,
+        photoURL: data.photoURL || "",
+        ...(data.privacy ? { privacy: data.privacy } : {}),
+        ...(data.mutedChats ? { mutedChats: data.mutedChats } : {}),
+      }
+    : null;
+}
+
+/**
+ * Maps a chat document to ChatRecord
+ * @param chatSnap - Firestore chat document
+ * @returns Chat data with its ID, or null if the document doesn't exist
+ */
+function toChatRecord(chatSnap: DocumentSnapshot<DocumentData>): ChatRecord | null {
+  return chatSnap.exists() ? ({ id: chatSnap.id, ...chatSnap.data() } as ChatRecord) : null;
+}
+
+/**
+ * Maps a message document to MessageData
+ * @param messageDoc - Firestore message document
+ * @returns Message data with its ID
+ */
+function toMessageData(messageDoc: QueryDocumentSnapshot<DocumentData>): MessageData {
+  // Local writes have no server timestamp yet; estimate it so they sort and render
+  return {
+    id: messageDoc.id,
+    ...messageDoc.data({ serverTimestamps: "estimate" }),
+  } as MessageData;
+}
+
+/**
+ * Maps a pin document to PinData
+ * @param pinDoc - Firestore pin document, keyed by the pinned message's ID
+ * @returns Pin data
+ */
+function toPinData(pinDoc: QueryDocumentSnapshot<DocumentData>): PinData {
+  return {
+    messageId: pinDoc.id,
+    ...pinDoc.data({ serverTimestamps: "estimate" }),
+  } as PinData;
+}
+
+// Cursors wrap the last document of a page, which Firestore can resume from
+function toCursor(messageDoc: QueryDocumentSnapshot<DocumentData>): MessageCursor {
+  return messageDoc as unknown as MessageCursor;
+}
+
+function fromCursor(cursor: MessageCursor): QueryDocumentSnapshot<DocumentData> {
+  return cursor as unknown as QueryDocumentSnapshot<DocumentData>;
+}
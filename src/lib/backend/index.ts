@@ -0,0 +1,37 @@
+import { createDemoSeed } from "./demo";
+import { createFirestoreBackend } from "./firestore";
+import { createMemoryBackend } from "./memory";
+import type { Backend } from "./types";
+
+export { createFirestoreBackend } from "./firestore";
+export { createMemoryBackend } from "./memory";
+export { getMessagePreview } from "./preview";
+export { isCoveredByMarker } from "./receipts";
+export type { MemorySeed } from "./memory";
+export type * from "./types";
+
+// Demo mode runs the whole app against seeded in-memory data
+export const isDemoMode = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+let activeBackend: Backend | null = null;
+
+/**
+ * Returns the backend the data layer reads and writes, creating the
+ * default one on first use
+ * @returns Firestore backend, or the in-memory backend in demo mode
+ */
+export function getBackend(): Backend {
+  if (!activeBackend) {
+    activeBackend = isDemoMode ? createMemoryBackend(createDemoSeed()) : createFirestoreBackend();
+  }
+
+  return activeBackend;
+}
+
+/**
+ * Replaces the active backend, e.g. with createMemoryBackend() in tests
+ * @param backend - Backend to use from now on
+ */
+export function setBackend(backend: Backend): void {
+  activeBackend = backend;
+}
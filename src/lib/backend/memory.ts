@@ -0,0 +1,778 @@
+import { Timestamp } from "firebase/firestore";
+import { getMessagePreview } from "./preview";
+import { applyPresenceReport } from "./presence";
+import { isCoveredByMarker } from "./receipts";
+import type {
+  AuthAccount,
+  Backend,
+  ChatRecord,
+  ChatUpdate,
+  MessageCursor,
+  MessageData,
+  MessagePage,
+  MessageRevision,
+  PinData,
+  PresenceData,
+  PushSubscriptionData,
+  ReceiptMarker,
+  Unsubscribe,
+  UserData,
+  UsernameRedirect,
+} from "./types";
+
+// Types
+export interface MemorySeed {
+  account?: AuthAccount | null; // Account that signIn() signs in as
+  isSignedIn?: boolean;
+  users?: UserData[];
+  chats?: ChatRecord[];
+  messages?: Record<string, MessageData[]>; // Keyed by chat ID
+  pins?: Record<string, PinData[]>; // Keyed by chat ID
+  presence?: Record<string, PresenceData>; // Keyed by uid
+}
+
+interface CursorPosition {
+  millis: number;
+  id: string;
+}
+
+/**
+ * Creates a backend that keeps everything in memory. Subscriptions are
+ * live and fire asynchronously, like Firestore listeners, so the app and
+ * the API behave the same without a Firebase project.
+ * @param seed - Initial data
+ * @returns In-memory repositories
+ */
+export function createMemoryBackend(seed: MemorySeed = {}): Backend {
+  let account: AuthAccount | null = seed.isSignedIn ? seed.account ?? null : null;
+  const users = new Map<string, UserData>();
+  const usernames = new Map<string, string>(); // username -> uid
+  const redirects = new Map<string, UsernameRedirect>();
+  const chats = new Map<string, ChatRecord>();
+  const messages = new Map<string, MessageData[]>();
+  const revisions = new Map<string, MessageRevision[]>(); // Keyed by messageKey()
+  const threads = new Map<string, MessageData[]>(); // Keyed by messageKey() of the root
+  const pins = new Map<string, PinData[]>(); // Most recently pinned first
+  const readMarkers = new Map<string, Record<string, ReceiptMarker>>(); // uid -> chat ID -> marker
+  const presence = new Map<string, PresenceData>();
+  const pushSubscriptions = new Map<string, PushSubscriptionData>(); // Keyed by "uid/deviceId"
+  const topics = new Map<string, Set<() => void>>();
+  let lastMillis = 0;
+  let nextId = 0;
+
+  seed.users?.forEach((user) => {
+    users.set(user.uid, { ...user });
+    usernames.set(user.username, user.uid);
+  });
+  seed.chats?.forEach((chat) => chats.set(chat.id, { ...chat }));
+  Object.entries(seed.messages ?? {}).forEach(([chatId, chatMessages]) => {
+    messages.set(chatId, chatMessages.map((message) => ({ ...message })).sort(compareMessages));
+  });
+  Object.entries(seed.pins ?? {}).forEach(([chatId, chatPins]) => {
+    pins.set(chatId, chatPins.map((pin) => ({ ...pin })));
+  });
+  Object.entries(seed.presence ?? {}).forEach(([uid, userPresence]) => {
+    presence.set(uid, { ...userPresence, sessions: { ...userPresence.sessions } });
+  });
+
+  // Timestamps are strictly increasing so messages sent in the same
+  // millisecond keep their order
+  const now = () => {
+    lastMillis = Math.max(Date.now(), lastMillis + 1);
+    return Timestamp.fromMillis(lastMillis);
+  };
+
+  const createId = () => `mem-${(++nextId).toString(36)}-${Date.now().toString(36)}`;
+
+  // Listeners are grouped by topic and called on a microtask, so a
+  // subscriber never runs inside the write that triggered it
+  const listen = (topic: string, listener: () => void): Unsubscribe => {
+    let listeners = topics.get(topic);
+    if (!listeners) {
+      listeners = new Set();
+      topics.set(topic, listeners);
+    }
+
+    const scheduled = () => queueMicrotask(() => {
+      if (topics.get(topic)?.has(scheduled)) listener();
+    });
+    listeners.add(scheduled);
+    scheduled();
+
+    return () => {
+      topics.get(topic)?.delete(scheduled);
+    };
+  };
+
+  const publish = (...changedTopics: string[]) => {
+    changedTopics.forEach((topic) => {
+      topics.get(topic)?.forEach((listener) => listener());
+    });
+  };
+
+  const getChat = (chatId: string) => {
+    const chat = chats.get(chatId);
+    return chat ? copyChat(chat) : null;
+  };
+
+  const writeChat = (chatId: string, updates: ChatUpdate | Partial<ChatRecord>) => {
+    const chat = chats.get(chatId);
+    if (!chat) {
+      throw notFound(`Chat ${chatId} does not exist`);
+    }
+
+    chats.set(chatId, { ...chat, ...updates, id: chatId });
+    publish(`chat:${chatId}`, "chats");
+  };
+
+  const getMessages = (chatId: string) => messages.get(chatId) ?? [];
+
+  const messageKey = (chatId: string, messageId: string) => `${chatId}/${messageId}`;
+
+  const getRevisions = (chatId: string, messageId: string) =>
+    revisions.get(messageKey(chatId, messageId)) ?? [];
+
+  const getThread = (chatId: string, rootId: string) =>
+    threads.get(messageKey(chatId, rootId)) ?? [];
+
+  const getPins = (chatId: string) => pins.get(chatId) ?? [];
+
+  // Like the Firestore adapter, the chat's pinCount moves with the pin
+  const removePin = (chatId: string, messageId: string) => {
+    if (!getPins(chatId).some((pin) => pin.messageId === messageId)) return;
+
+    const pinCount = chats.get(chatId)?.pinCount ?? 0;
+    writeChat(chatId, { pinCount: Math.max(pinCount - 1, 0), lastPinChange: messageId });
+    pins.set(chatId, getPins(chatId).filter((pin) => pin.messageId !== messageId));
+  };
+
+  const isLatestMessage = (chatId: string, messageId: string) => {
+    const chat = chats.get(chatId);
+    const chatMessages = getMessages(chatId);
+    return chat?.lastMessageId
+      ? chat.lastMessageId === messageId
+      : chatMessages[chatMessages.length - 1]?.id === messageId;
+  };
+
+  const findMessage = (chatId: string, messageId: string) => {
+    const message = getMessages(chatId).find((candidate) => candidate.id === messageId);
+    if (!message) {
+      throw notFound(`Message ${messageId} does not exist`);
+    }
+    return message;
+  };
+
+  const replaceMessage = (chatId: string, message: MessageData, updated: MessageData) => {
+    messages.set(
+      chatId,
+      getMessages(chatId).map((candidate) => (candidate === message ? updated : candidate))
+    );
+  };
+
+  // Swaps in a new version of a message, refreshing the chat preview if
+  // it is the latest message
+  const writeMessage = (chatId: string, message: MessageData, updated: MessageData) => {
+    replaceMessage(chatId, message, updated);
+
+    if (isLatestMessage(chatId, message.id)) {
+      writeChat(chatId, { lastMessage: getMessagePreview(updated), lastMessageId: message.id });
+    }
+    publish(`messages:${chatId}`);
+  };
+
+  // Like the Firestore adapter, the live window starts at the oldest
+  // message of the latest page and grows as new messages arrive
+  const watchLatestPage = (
+    topic: string,
+    getStream: () => MessageData[],
+    pageSize: number,
+    callback: (messages: MessageData[], cursor: MessageCursor | null) => void
+  ) => {
+    const latestPage = getStream().slice(-pageSize);
+    const anchor = latestPage.length > 0 ? toPosition(latestPage[0]) : null;
+    const cursor = latestPage.length === pageSize ? toCursor(anchor) : null;
+
+    return listen(topic, () => {
+      const window = anchor
+        ? getStream().filter((message) => comparePosition(message, anchor) >= 0)
+        : getStream();
+      callback(window.map((message) => ({ ...message })), cursor);
+    });
+  };
+
+  return {
+    auth: {
+      subscribe(callback) {
+        return listen("auth", () => callback(account ? { ...account } : null));
+      },
+
+      async signIn() {
+        if (!seed.account) {
+          throw new Error("No account is configured for this backend");
+        }
+
+        account = { ...seed.account };
+        publish("auth");
+        return { ...account };
+      },
+
+      async signOut() {
+        account = null;
+        publish("auth");
+      },
+
+      // There is no server to call in memory
+      async getIdToken() {
+        return null;
+      },
+
+      // Nothing outlives the page
+      async clearOfflineData() {},
+    },
+
+    users: {
+      async get(uid) {
+        const user = users.get(uid);
+        return user ? { ...user } : null;
+      },
+
+      async findByEmail(email) {
+        const user = Array.from(users.values()).find((candidate) => candidate.email === email);
+        return user ? { ...user } : null;
+      },
+
+      async findByUsername(username) {
+        const user = Array.from(users.values()).find((candidate) => candidate.username === username);
+        return user ? { ...user } : null;
+      },
+
+      subscribe(uid, callback) {
+        return listen(`user:${uid}`, () => {
+          const user = users.get(uid);
+          callback(user ? { ...user } : null);
+        });
+      },
+
+      async isUsernameReserved(username) {
+        return usernames.has(username);
+      },
+
+      async getUsernameRedirect(username) {
+        const redirect = redirects.get(username);
+        return redirect ? { ...redirect } : null;
+      },
+
+      async create(profile) {
+        if (users.has(profile.uid)) return "profile-exists";
+        if (usernames.has(profile.username)) return "username-taken";
+
+        usernames.set(profile.username, profile.uid);
+        users.set(profile.uid, {
+          uid: profile.uid,
+          username: profile.username,
+          email: profile.email ?? "",
+          photoURL: profile.photoURL ?? "",
+        });
+        publish(`user:${profile.uid}`);
+        return "created";
+      },
+
+      async rename(uid, username, redirectExpiresAt) {
+        const user = users.get(uid);
+        if (!user) return { status: "not-found" };
+        if (user.username === username) return { status: "unchanged" };
+
+        const holder = usernames.get(username);
+        if (holder && holder !== uid) return { status: "username-taken" };
+
+        usernames.set(username, uid);
+        usernames.delete(user.username);
+        redirects.delete(username);
+        redirects.set(user.username, {
+          uid,
+          username,
+          expiresAt: Timestamp.fromDate(redirectExpiresAt),
+        });
+        users.set(uid, { ...user, username });
+        publish(`user:${uid}`);
+
+        return { status: "renamed", previous: { ...user } };
+      },
+
+      async searchByUsernamePrefix(prefix, maxResults) {
+        return Array.from(users.values())
+          .filter((user) => user.username.startsWith(prefix))
+          .sort((a, b) => a.username.localeCompare(b.username))
+          .slice(0, maxResults)
+          .map((user) => ({ ...user }));
+      },
+
+      async setChatMuted(uid, chatId, isMuted) {
+        const user = users.get(uid);
+        if (!user) {
+          throw notFound(`User ${uid} does not exist`);
+        }
+
+        const mutedChats = (user.mutedChats ?? []).filter((id) => id !== chatId);
+        users.set(uid, { ...user, mutedChats: isMuted ? [...mutedChats, chatId] : mutedChats });
+        publish(`user:${uid}`);
+      },
+
+      async updatePrivacy(uid, privacy) {
+        const user = users.get(uid);
+        if (!user) {
+          throw notFound(`User ${uid} does not exist`);
+        }
+
+        users.set(uid, { ...user, privacy: { ...user.privacy, ...privacy } });
+        publish(`user:${uid}`);
+      },
+    },
+
+    chats: {
+      async get(chatId) {
+        return getChat(chatId);
+      },
+
+      async findByDmKey(dmKey) {
+        const chat = Array.from(chats.values()).find((candidate) => candidate.dmKey === dmKey);
+        return chat?.id ?? null;
+      },
+
+      async listForMember(email) {
+        return Array.from(chats.values())
+          .filter((chat) => chat.members.includes(email))
+          .map(copyChat);
+      },
+
+      async create(chat) {
+        const id = createId();
+        const timestamp = now();
+
+        chats.set(id, {
+          ...chat,
+          id,
+          createdAt: timestamp,
+          lastMessage: "",
+          lastUpdated: timestamp,
+        });
+        publish(`chat:${id}`, "chats");
+        return id;
+      },
+
+      async update(chatId, updates) {
+        writeChat(chatId, updates);
+      },
+
+      async transact(chatId, updateFn) {
+        const updates = updateFn(getChat(chatId));
+        if (!updates) return false;
+
+        writeChat(chatId, updates);
+        return true;
+      },
+
+      async setParticipant(chatId, uid, participant) {
+        const chat = chats.get(chatId);
+        writeChat(chatId, {
+          participants: { ...chat?.participants, [uid]: { ...participant } },
+        });
+      },
+
+      async advanceReceipts(chatId, uid, marker, isRead) {
+        const chat = chats.get(chatId);
+        const updates: Partial<ChatRecord> = {};
+
+        if (!isCoveredByMarker(chat?.deliveredTo?.[uid], marker.timestamp)) {
+          updates.deliveredTo = { ...chat?.deliveredTo, [uid]: { ...marker } };
+        }
+        if (isRead && !isCoveredByMarker(chat?.readBy?.[uid], marker.timestamp)) {
+          updates.readBy = { ...chat?.readBy, [uid]: { ...marker } };
+        }
+
+        if (Object.keys(updates).length > 0) {
+          writeChat(chatId, updates);
+        }
+      },
+
+      async setTyping(chatId, uid, expiresAt) {
+        const typing = { ...chats.get(chatId)?.typing };
+
+        if (expiresAt) {
+          typing[uid] = Timestamp.fromDate(expiresAt);
+        } else {
+          delete typing[uid];
+        }
+
+        writeChat(chatId, { typing });
+      },
+
+      subscribe(chatId, callback) {
+        return listen(`chat:${chatId}`, () => callback(getChat(chatId)));
+      },
+
+      subscribeForMember(email, callback) {
+        return listen("chats", () => {
+          callback(
+            Array.from(chats.values())
+              .filter((chat) => chat.members.includes(email))
+              .sort((a, b) => toMillis(b.lastUpdated) - toMillis(a.lastUpdated))
+              .map(copyChat)
+          );
+        });
+      },
+    },
+
+    messages: {
+      async add(chatId, message, messageId) {
+        if (messageId && getMessages(chatId).some((existing) => existing.id === messageId)) {
+          return messageId;
+        }
+
+        const id = messageId ?? createId();
+        const timestamp = now();
+
+        // Writing the chat first means a missing chat fails the whole send
+        writeChat(chatId, {
+          lastMessage: getMessagePreview(message),
+          lastMessageId: id,
+          lastUpdated: timestamp,
+        });
+        messages.set(chatId, [...getMessages(chatId), { ...message, id, timestamp }]);
+        publish(`messages:${chatId}`);
+        return id;
+      },
+
+      async get(chatId, messageId) {
+        const message = getMessages(chatId).find((candidate) => candidate.id === messageId);
+        return message ? { ...message } : null;
+      },
+
+      async edit(chatId, messageId, text, editedBy) {
+        const message = findMessage(chatId, messageId);
+        const editedAt = now();
+        const revisionCount = (message.revisionCount ?? 0) + 1;
+        const updated = { ...message, text, isEdited: true, editedAt, revisionCount };
+
+        revisions.set(messageKey(chatId, messageId), [
+          ...getRevisions(chatId, messageId),
+          { id: String(revisionCount), text: message.text, editedAt, editedBy },
+        ]);
+        writeMessage(chatId, message, updated);
+      },
+
+      async setReaction(chatId, messageId, emoji, uid, hasReacted) {
+        const message = findMessage(chatId, messageId);
+        const { [emoji]: current = [], ...others } = message.reactions ?? {};
+        const reactors = current.filter((reactor) => reactor !== uid);
+
+        // Like Firestore, the last reactor drops the emoji
+        replaceMessage(chatId, message, {
+          ...message,
+          reactions: hasReacted || reactors.length > 0
+            ? { ...others, [emoji]: hasReacted ? [...reactors, uid] : reactors }
+            : others,
+        });
+        publish(`messages:${chatId}`);
+      },
+
+      async update(chatId, messageId, updates) {
+        const message = findMessage(chatId, messageId);
+
+        replaceMessage(chatId, message, { ...message, ...updates });
+        publish(`messages:${chatId}`);
+      },
+
+      async delete(chatId, messageId, deletedBy, purgeAfter) {
+        const message = findMessage(chatId, messageId);
+
+        writeMessage(chatId, message, {
+          ...message,
+          deletedAt: now(),
+          deletedBy,
+          purgeAfter: Timestamp.fromDate(purgeAfter),
+        });
+      },
+
+      async restore(chatId, messageId) {
+        const message = findMessage(chatId, messageId);
+        const { deletedAt, deletedBy, purgeAfter, ...restored } = message;
+
+        writeMessage(chatId, message, { ...restored, restoredAt: now() });
+      },
+
+      async purgeDeleted(chatId) {
+        const expired = getMessages(chatId).filter(
+          (message) => message.purgeAfter && message.purgeAfter.toMillis() <= Date.now()
+        );
+
+        expired.forEach((message) => {
+          const { mediaUrl, mediaId, revisionCount, purgeAfter, ...purged } = message;
+
+          replaceMessage(chatId, message, { ...purged, text: "" });
+          revisions.delete(messageKey(chatId, message.id));
+          removePin(chatId, message.id);
+        });
+
+        publish(`messages:${chatId}`, `pins:${chatId}`);
+        return expired.length;
+      },
+
+      subscribeLatest(chatId, pageSize, callback) {
+        return watchLatestPage(`messages:${chatId}`, () => getMessages(chatId), pageSize, callback);
+      },
+
+      async loadBefore(chatId, cursor, pageSize) {
+        return getPageBefore(getMessages(chatId), cursor, pageSize);
+      },
+
+      subscribe(chatId, messageId, callback) {
+        return listen(`messages:${chatId}`, () => {
+          const message = getMessages(chatId).find((candidate) => candidate.id === messageId);
+          callback(message ? { ...message } : null);
+        });
+      },
+
+      async countUnread(chatId, uid, after) {
+        return getMessages(chatId).filter(
+          (message) =>
+            message.senderId !== uid &&
+            !message.deletedAt &&
+            !isCoveredByMarker(after ?? undefined, message.timestamp)
+        ).length;
+      },
+
+      async countUnreadMentions(chatId, uid, after) {
+        const replies = getMessages(chatId).flatMap((message) => getThread(chatId, message.id));
+
+        return [...getMessages(chatId), ...replies].filter(
+          (message) =>
+            !!message.mentionedUids?.includes(uid) &&
+            !isCoveredByMarker(after ?? undefined, message.timestamp)
+        ).length;
+      },
+
+      async listChangedSince(chatId, since) {
+        return getMessages(chatId)
+          .filter(
+            (message) =>
+              !since ||
+              [
+                message.timestamp,
+                message.editedAt,
+                message.deletedAt,
+                message.restoredAt,
+                message.lastThreadReplyAt,
+              ].some((changedAt) => changedAt && changedAt.toMillis() >= since.getTime())
+          )
+          .map((message) => ({ ...message }));
+      },
+
+      async listRevisions(chatId, messageId) {
+        return getRevisions(chatId, messageId).map((revision) => ({ ...revision }));
+      },
+
+      async findLegacyBySenderName(senderName) {
+        return Array.from(messages.entries()).flatMap(([chatId, chatMessages]) =>
+          chatMessages
+            .filter((message) => !message.senderId && message.senderName === senderName)
+            .map((message) => ({ chatId, messageId: message.id }))
+        );
+      },
+    },
+
+    threads: {
+      async add(chatId, rootId, message) {
+        const root = findMessage(chatId, rootId);
+        const id = createId();
+        const timestamp = now();
+
+        writeChat(chatId, { lastThreadReplyAt: timestamp });
+        threads.set(messageKey(chatId, rootId), [
+          ...getThread(chatId, rootId),
+          { ...message, id, threadId: rootId, timestamp },
+        ]);
+        replaceMessage(chatId, root, {
+          ...root,
+          threadReplyCount: (root.threadReplyCount ?? 0) + 1,
+          lastThreadReplyAt: timestamp,
+        });
+        publish(`messages:${chatId}`, `thread:${messageKey(chatId, rootId)}`);
+        return id;
+      },
+
+      subscribeLatest(chatId, rootId, pageSize, callback) {
+        return watchLatestPage(
+          `thread:${messageKey(chatId, rootId)}`,
+          () => getThread(chatId, rootId),
+          pageSize,
+          callback
+        );
+      },
+
+      async loadBefore(chatId, rootId, cursor, pageSize) {
+        return getPageBefore(getThread(chatId, rootId), cursor, pageSize);
+      },
+
+      async listSince(chatId, rootId, since) {
+        return getThread(chatId, rootId)
+          .filter((reply) => !since || reply.timestamp.toMillis() >= since.getTime())
+          .map((reply) => ({ ...reply }));
+      },
+    },
+
+    readMarkers: {
+      async get(uid, chatId) {
+        const marker = readMarkers.get(uid)?.[chatId];
+        return marker ? { ...marker } : null;
+      },
+
+      async advance(uid, chatId, marker) {
+        const markers = readMarkers.get(uid) ?? {};
+        if (isCoveredByMarker(markers[chatId], marker.timestamp)) return;
+
+        readMarkers.set(uid, { ...markers, [chatId]: { ...marker } });
+        publish(`readMarkers:${uid}`);
+      },
+
+      subscribe(uid, callback) {
+        return listen(`readMarkers:${uid}`, () => callback({ ...readMarkers.get(uid) }));
+      },
+    },
+
+    presence: {
+      async report(uid, sessionId, state, staleBefore) {
+        presence.set(
+          uid,
+          applyPresenceReport(presence.get(uid) ?? null, sessionId, state, staleBefore, now())
+        );
+        publish(`presence:${uid}`);
+      },
+
+      subscribe(uid, callback) {
+        return listen(`presence:${uid}`, () => {
+          const userPresence = presence.get(uid);
+          callback(userPresence ? { ...userPresence, sessions: { ...userPresence.sessions } } : null);
+        });
+      },
+    },
+
+    push: {
+      async saveSubscription(uid, deviceId, subscription) {
+        pushSubscriptions.set(`${uid}/${deviceId}`, {
+          endpoint: subscription.endpoint,
+          keys: { ...subscription.keys },
+        });
+      },
+
+      async removeSubscription(uid, deviceId) {
+        pushSubscriptions.delete(`${uid}/${deviceId}`);
+      },
+    },
+
+    pins: {
+      async list(chatId) {
+        return getPins(chatId).map((pin) => ({ ...pin }));
+      },
+
+      async add(chatId, messageId, pinnedBy, maxPins) {
+        findMessage(chatId, messageId);
+        if (getPins(chatId).some((pin) => pin.messageId === messageId)) return "pinned";
+
+        const pinCount = chats.get(chatId)?.pinCount ?? 0;
+        if (pinCount >= maxPins) return "pin-limit-reached";
+
+        writeChat(chatId, { pinCount: pinCount + 1, lastPinChange: messageId });
+        pins.set(chatId, [{ messageId, pinnedBy, pinnedAt: now() }, ...getPins(chatId)]);
+        publish(`pins:${chatId}`);
+        return "pinned";
+      },
+
+      async remove(chatId, messageId) {
+        removePin(chatId, messageId);
+        publish(`pins:${chatId}`);
+      },
+
+      subscribe(chatId, callback) {
+        return listen(`pins:${chatId}`, () => {
+          callback(getPins(chatId).map((pin) => ({ ...pin })));
+        });
+      },
+    },
+  };
+}
+
+/**
+ * Builds an error with the code Firestore uses for missing documents
+ * @param message - Error message
+ * @returns Error with code "not-found"
+ */
+function notFound(message: string): Error {
+  return Object.assign(new Error(message), { code: "not-found" });
+}
+
+/**
+ * Copies a chat so callers can't mutate the stored record
+ * @param chat - Stored chat
+ * @returns Copy with its own members and participants
+ */
+function copyChat(chat: ChatRecord): ChatRecord {
+  return {
+    ...chat,
+    members: [...chat.members],
+    ...(chat.participants ? { participants: { ...chat.participants } } : {}),
+  };
+}
+
+/**
+ * Reads a timestamp as milliseconds, treating missing values as oldest
+ * @param timestamp - Timestamp or undefined
+ * @returns Milliseconds since the epoch
+ */
+function toMillis(timestamp: Timestamp | undefined): number {
+  return timestamp?.toMillis() ?? 0;
+}
+
+/**
+ * Takes the page of a message stream just before a cursor
+ * @param stream - Messages, oldest first
+ * @param cursor - Cursor from the previous page
+ * @param pageSize - Maximum number of messages to take
+ * @returns Copied messages (oldest first) and a cursor to the next older page
+ */
+function getPageBefore(
+  stream: MessageData[],
+  cursor: MessageCursor,
+  pageSize: number
+): MessagePage {
+  const position = cursor as unknown as CursorPosition;
+  const page = stream.filter((message) => comparePosition(message, position) < 0).slice(-pageSize);
+
+  return {
+    messages: page.map((message) => ({ ...message })),
+    cursor: page.length === pageSize ? toCursor(toPosition(page[0])) : null,
+  };
+}
+
+function toPosition(message: MessageData): CursorPosition {
+  return { millis: toMillis(message.timestamp), id: message.id };
+}
+
+function toCursor(position: CursorPosition | null): MessageCursor | null {
+  return position as unknown as MessageCursor | null;
+}
+
+/**
+ * Orders a message against a position by timestamp, then ID
+ * @returns Negative if the message comes first
+ */
+function comparePosition(message: MessageData, position: CursorPosition): number {
+  return (
+    toMillis(message.timestamp) - position.millis ||
+    message.id.localeCompare(position.id)
+  );
+}
+
+function compareMessages(a: MessageData, b: MessageData): number {
+  return comparePosition(a, toPosition(b));
+}
@@ -0,0 +1,39 @@
+import type { PresenceData, PresenceSession, PresenceState } from "./types";
+
+/**
+ * Applies one tab's presence report to the stored presence
+ * @param presence - Stored presence, or null if the user never reported
+ * @param sessionId - ID of the reporting tab
+ * @param state - Tab's state, or null if the tab is closing
+ * @param staleBefore - Other tabs with an older heartbeat are dropped
+ * @param now - Value to stamp heartbeatAt and lastActiveAt with
+ * @returns Presence to store
+ */
+export function applyPresenceReport(
+  presence: PresenceData | null,
+  sessionId: string,
+  state: PresenceState | null,
+  staleBefore: Date,
+  now: any
+): PresenceData {
+  const sessions: Record<string, PresenceSession> = {};
+
+  Object.entries(presence?.sessions ?? {}).forEach(([id, session]) => {
+    if (id !== sessionId && session.heartbeatAt?.toMillis() >= staleBefore.getTime()) {
+      sessions[id] = session;
+    }
+  });
+
+  if (state) {
+    sessions[sessionId] = { state, heartbeatAt: now };
+  }
+
+  // A tab that was online until now was last active now, even if it is
+  // going idle or closing
+  const wasOnline = presence?.sessions?.[sessionId]?.state === "online";
+
+  return {
+    sessions,
+    lastActiveAt: state === "online" || wasOnline ? now : presence?.lastActiveAt ?? null,
+  };
+}
@@ -0,0 +1,19 @@
+import type { MessageData } from "./types";
+
+const MESSAGE_PREVIEW_LENGTH = 100;
+const ATTACHMENT_PREVIEW = "📎 Sent an attachment";
+const DELETED_PREVIEW = "🗑️ Message deleted";
+
+/**
+ * Builds the chat list preview for a message
+ * @param message - Message text, attachment and deletion state
+ * @returns Preview text stored as the chat's lastMessage
+ */
+export function getMessagePreview(
+  message: Pick<MessageData, "text" | "mediaUrl" | "deletedAt">
+): string {
+  if (message.deletedAt) return DELETED_PREVIEW;
+
+  const text = message.text.trim().substring(0, MESSAGE_PREVIEW_LENGTH);
+  return text || (message.mediaUrl ? ATTACHMENT_PREVIEW : "");
+}
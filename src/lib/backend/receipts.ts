@@ -0,0 +1,11 @@
+import type { ReceiptMarker } from "./types";
+
+/**
+ * Checks whether a receipt marker covers a message
+ * @param marker - A member's delivered or read marker, if any
+ * @param timestamp - Send time of the message
+ * @returns True if the message was sent at or before the marked one
+ */
+export function isCoveredByMarker(marker: ReceiptMarker | undefined, timestamp: any): boolean {
+  return !!marker?.timestamp && !!timestamp && marker.timestamp.toMillis() >= timestamp.toMillis();
+}
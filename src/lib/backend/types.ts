@@ -0,0 +1,458 @@
+import type { Timestamp } from "firebase/firestore";
+
+// Records
+
+export interface UserData {
+  uid: string;
+  username: string;
+  email: string;
+  photoURL: string;
+  privacy?: PrivacySettings; // Missing until the user changes a setting
+  mutedChats?: string[]; // IDs of chats that only notify the user about mentions
+}
+
+// Every setting defaults to on when it is unset
+export interface PrivacySettings {
+  readReceipts?: boolean; // Whether others can see which messages the user has read
+  showPresence?: boolean; // Whether others can see when the user is online
+}
+
+export type PresenceState = "online" | "idle";
+
+// Each open tab reports on its own; a tab that stops sending heartbeats
+// is treated as closed, which covers crashes and lost connections
+export interface PresenceSession {
+  state: PresenceState;
+  heartbeatAt: any;
+}
+
+export interface PresenceData {
+  sessions: Record<string, PresenceSession>; // Keyed by tab ID
+  lastActiveAt: any; // Last time any tab was online; null if never
+}
+
+export interface NewUserProfile {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+  username: string;
+}
+
+export interface UsernameRedirect {
+  uid: string;
+  username: string; // The name the user changed to
+  expiresAt: Timestamp;
+}
+
+export type ChatType = "direct" | "group";
+
+export interface ChatParticipant {
+  username: string;
+  email: string;
+  photoURL: string;
+}
+
+export interface ChatData {
+  members: string[];
+  participants?: Record<string, ChatParticipant>; // Keyed by uid; missing on legacy chats
+  dmKey?: string; // Sorted member uids, only set on direct chats
+  type?: ChatType; // Missing on chats created before groups existed
+  title?: string;
+  photoURL?: string;
+  ownerEmail?: string;
+  editWindowMinutes?: number | null; // How long messages stay editable; unlimited if unset
+  createdAt: any;
+  lastMessage: string;
+  lastMessageId?: string; // Message lastMessage was taken from; missing on older chats
+  lastUpdated: any;
+  lastThreadReplyAt?: any; // When the newest thread reply in the chat was sent
+  // Receipts keyed by uid. Members who turned read receipts off have no read marker.
+  deliveredTo?: Record<string, ReceiptMarker>;
+  readBy?: Record<string, ReceiptMarker>;
+  typing?: Record<string, any>; // uid -> when the member's typing indicator expires
+  // Kept by the pin writes so the rules can cap the pins. lastPinChange is
+  // the message whose pin was added or removed last.
+  pinCount?: number;
+  lastPinChange?: string;
+}
+
+// The newest message a member has received or read; everything sent up
+// to its timestamp counts as received or read too
+export interface ReceiptMarker {
+  messageId: string;
+  timestamp: any; // Send time of the message
+}
+
+export interface ChatRecord extends ChatData {
+  id: string;
+}
+
+// Fields set when a chat is created; timestamps are stamped by the backend
+export type NewChat = Omit<
+  ChatData,
+  | "createdAt"
+  | "lastUpdated"
+  | "lastMessage"
+  | "lastMessageId"
+  | "deliveredTo"
+  | "readBy"
+  | "typing"
+  | "pinCount"
+  | "lastPinChange"
+>;
+
+export type ChatUpdate = Partial<
+  Omit<
+    ChatData,
+    | "createdAt"
+    | "lastUpdated"
+    | "lastMessage"
+    | "lastMessageId"
+    | "deliveredTo"
+    | "readBy"
+    | "typing"
+    | "pinCount"
+    | "lastPinChange"
+  >
+>;
+
+export interface MessageData {
+  id: string,
+  senderId?: string; // Firebase uid; missing on messages sent before uids were stored
+  senderName?: string; // Legacy display snapshot, only read when senderId is missing
+  senderPhoto?: string;
+  text: string;
+  timestamp: any;
+  isEdited?: boolean;
+  editedAt?: any;
+  revisionCount?: number; // Number of edits; missing on messages edited before revisions existed
+  mediaUrl?: string;
+  mediaId?: string;
+  reactions?: Record<string, string[]>; // Emoji -> uids of the members who reacted with it
+  replyTo?: string; // ID of the message this one quotes, in the same stream
+  // Users mentioned with @username. mentionedUids repeats their uids so
+  // mentions can be queried.
+  mentions?: MessageMention[];
+  mentionedUids?: string[];
+  threadId?: string; // ID of the thread's root message; only set on thread replies
+  threadReplyCount?: number; // Only set on thread roots
+  lastThreadReplyAt?: any;
+  // Deleted messages stay as tombstones; their content is kept until purgeAfter
+  deletedAt?: any;
+  deletedBy?: string;
+  purgeAfter?: any; // Removed once the content has been purged
+  restoredAt?: any; // When a deletion was last undone
+}
+
+export interface MessageMention {
+  uid: string;
+  username: string; // As written in the text, which renames don't change
+}
+
+export type NewMessage = Omit<
+  MessageData,
+  | "id"
+  | "timestamp"
+  | "senderName"
+  | "senderPhoto"
+  | "isEdited"
+  | "editedAt"
+  | "revisionCount"
+  | "reactions"
+  | "threadId"
+  | "threadReplyCount"
+  | "lastThreadReplyAt"
+  | "deletedAt"
+  | "deletedBy"
+  | "purgeAfter"
+  | "restoredAt"
+>;
+
+export type MessageUpdate = Partial<Pick<MessageData, "senderId">>;
+
+// Each edit keeps the text it replaced, numbered from 1 in edit order
+export interface MessageRevision {
+  id: string;
+  text: string;
+  editedAt: any;
+  editedBy: string; // uid of the member who made the edit
+}
+
+// Opaque position in a chat's message history; only the backend that
+// created a cursor can read it
+declare const messageCursorBrand: unique symbol;
+export type MessageCursor = { readonly [messageCursorBrand]: true };
+
+export interface MessagePage {
+  messages: MessageData[];
+  cursor: MessageCursor | null;
+}
+
+// Pins reference the message instead of copying it, so they show its
+// current text and disappear with it
+export interface PinData {
+  messageId: string;
+  pinnedBy: string; // uid of the member who pinned it
+  pinnedAt: any;
+}
+
+export interface AuthAccount {
+  uid: string;
+  email: string | null;
+  displayName: string | null;
+  photoURL: string | null;
+}
+
+export type Unsubscribe = () => void;
+
+// Results of operations that must be atomic
+
+export type CreateProfileResult = "created" | "username-taken" | "profile-exists";
+
+export type PinResult = "pinned" | "pin-limit-reached";
+
+export type RenameResult =
+  | { status: "renamed"; previous: UserData }
+  | { status: "unchanged" }
+  | { status: "username-taken" }
+  | { status: "not-found" };
+
+// Repositories
+
+export interface UserRepository {
+  get(uid: string): Promise<UserData | null>;
+  findByEmail(email: string): Promise<UserData | null>;
+  findByUsername(username: string): Promise<UserData | null>;
+  subscribe(uid: string, callback: (user: UserData | null) => void): Unsubscribe;
+  isUsernameReserved(username: string): Promise<boolean>;
+  getUsernameRedirect(username: string): Promise<UsernameRedirect | null>;
+  /** Reserves the username and creates the profile atomically */
+  create(profile: NewUserProfile): Promise<CreateProfileResult>;
+  /** Moves the username reservation and leaves a redirect atomically */
+  rename(uid: string, username: string, redirectExpiresAt: Date): Promise<RenameResult>;
+  /** Merges the given settings into the user's privacy settings */
+  updatePrivacy(uid: string, privacy: PrivacySettings): Promise<void>;
+  /** Users whose username starts with the prefix, in username order */
+  searchByUsernamePrefix(prefix: string, maxResults: number): Promise<UserData[]>;
+  setChatMuted(uid: string, chatId: string, isMuted: boolean): Promise<void>;
+}
+
+export interface ChatRepository {
+  get(chatId: string): Promise<ChatRecord | null>;
+  findByDmKey(dmKey: string): Promise<string | null>;
+  listForMember(email: string): Promise<ChatRecord[]>;
+  create(chat: NewChat): Promise<string>;
+  update(chatId: string, updates: ChatUpdate): Promise<void>;
+  /**
+   * Reads the chat and applies the returned updates atomically. Returning
+   * null aborts without writing.
+   * @returns True if updates were written
+   */
+  transact(
+    chatId: string,
+    updateFn: (chat: ChatRecord | null) => ChatUpdate | null
+  ): Promise<boolean>;
+  setParticipant(chatId: string, uid: string, participant: ChatParticipant): Promise<void>;
+  /**
+   * Moves the member's delivered marker, and read marker if isRead, up to
+   * the message. Markers never move back, and each write only touches the
+   * member's own entries.
+   */
+  advanceReceipts(
+    chatId: string,
+    uid: string,
+    marker: ReceiptMarker,
+    isRead: boolean
+  ): Promise<void>;
+  /**
+   * Shows the member as typing until expiresAt, or stops showing it if
+   * null. Only touches the member's own entry.
+   */
+  setTyping(chatId: string, uid: string, expiresAt: Date | null): Promise<void>;
+  subscribe(chatId: string, callback: (chat: ChatRecord | null) => void): Unsubscribe;
+  /** Chats containing the member, most recently updated first */
+  subscribeForMember(email: string, callback: (chats: ChatRecord[]) => void): Unsubscribe;
+}
+
+// Writes keep the chat's lastMessage/lastUpdated summary consistent with
+// its messages: each one commits together with the summary it affects
+export interface MessageRepository {
+  /**
+   * Adds the message and makes it the chat's latest message. Adding with
+   * an ID that already exists does nothing, so a retried send can't
+   * duplicate a message whose first attempt reached the server.
+   */
+  add(chatId: string, message: NewMessage, messageId?: string): Promise<string>;
+  get(chatId: string, messageId: string): Promise<MessageData | null>;
+  /**
+   * Replaces the text, recording the old text as a revision, and refreshes
+   * the chat preview if it is the latest message
+   */
+  edit(chatId: string, messageId: string, text: string, editedBy: string): Promise<void>;
+  /**
+   * Adds or removes one member's reaction. Each write only touches that
+   * member's entry, so concurrent reactions never overwrite each other.
+   * Removing the last reaction with an emoji removes the emoji too.
+   */
+  setReaction(
+    chatId: string,
+    messageId: string,
+    emoji: string,
+    uid: string,
+    hasReacted: boolean
+  ): Promise<void>;
+  /** Updates fields that never show up in the chat preview */
+  update(chatId: string, messageId: string, updates: MessageUpdate): Promise<void>;
+  /**
+   * Turns the message into a tombstone, keeping its content until
+   * purgeAfter so the deletion can be undone
+   */
+  delete(chatId: string, messageId: string, deletedBy: string, purgeAfter: Date): Promise<void>;
+  /** Brings a tombstone back as the message it was */
+  restore(chatId: string, messageId: string): Promise<void>;
+  /**
+   * Permanently removes the content, revisions and pins of tombstones
+   * whose purgeAfter has passed
+   * @returns Number of messages purged
+   */
+  purgeDeleted(chatId: string): Promise<number>;
+  /**
+   * Subscribes to the latest page and everything sent after it
+   * @param callback - Called with messages (oldest first) and a cursor to
+   *   the next older page, or null if there is no more history
+   */
+  subscribeLatest(
+    chatId: string,
+    pageSize: number,
+    callback: (messages: MessageData[], cursor: MessageCursor | null) => void
+  ): Unsubscribe;
+  loadBefore(chatId: string, cursor: MessageCursor, pageSize: number): Promise<MessagePage>;
+  /** Subscribes to one message, which is null once it is deleted */
+  subscribe(
+    chatId: string,
+    messageId: string,
+    callback: (message: MessageData | null) => void
+  ): Unsubscribe;
+  /**
+   * Counts messages other members sent after the marker, or all of them
+   * if there is no marker. Deleted messages aren't counted.
+   */
+  countUnread(chatId: string, uid: string, after: ReceiptMarker | null): Promise<number>;
+  /** Counts messages and thread replies after the marker that mention the user */
+  countUnreadMentions(chatId: string, uid: string, after: ReceiptMarker | null): Promise<number>;
+  /**
+   * Messages sent, edited, deleted, restored or replied to in a thread at
+   * or after a time, or every message if since is null. Keeps the search
+   * index current without rereading the whole history.
+   */
+  listChangedSince(chatId: string, since: Date | null): Promise<MessageData[]>;
+  /** Revisions of a message, oldest first */
+  listRevisions(chatId: string, messageId: string): Promise<MessageRevision[]>;
+  /** Legacy messages across all chats that only recorded a sender name */
+  findLegacyBySenderName(senderName: string): Promise<{ chatId: string; messageId: string }[]>;
+}
+
+// A browser's push subscription, as PushSubscription.toJSON() gives it
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushRepository {
+  /** Stores one device's subscription, replacing the one it had before */
+  saveSubscription(uid: string, deviceId: string, subscription: PushSubscriptionData): Promise<void>;
+  removeSubscription(uid: string, deviceId: string): Promise<void>;
+}
+
+export interface PresenceRepository {
+  /**
+   * Records a tab's state, or removes the tab if state is null. Tabs
+   * whose last heartbeat is older than staleBefore are dropped.
+   */
+  report(
+    uid: string,
+    sessionId: string,
+    state: PresenceState | null,
+    staleBefore: Date
+  ): Promise<void>;
+  subscribe(uid: string, callback: (presence: PresenceData | null) => void): Unsubscribe;
+}
+
+// Each user's own read position per chat. Unlike the readBy receipts it
+// is private, so unread counts keep working with read receipts off.
+export interface ReadMarkerRepository {
+  get(uid: string, chatId: string): Promise<ReceiptMarker | null>;
+  /** Moves the marker up to the message; markers never move back */
+  advance(uid: string, chatId: string, marker: ReceiptMarker): Promise<void>;
+  /** Subscribes to all of the user's markers, keyed by chat ID */
+  subscribe(uid: string, callback: (markers: Record<string, ReceiptMarker>) => void): Unsubscribe;
+}
+
+// A thread is its own message stream under a root message in the chat.
+// Replies don't touch the chat summary; they count up on the root instead.
+export interface ThreadRepository {
+  /** Adds a reply and bumps the root's reply count atomically */
+  add(chatId: string, rootId: string, message: NewMessage): Promise<string>;
+  /** Same contract as MessageRepository.subscribeLatest, for the thread */
+  subscribeLatest(
+    chatId: string,
+    rootId: string,
+    pageSize: number,
+    callback: (messages: MessageData[], cursor: MessageCursor | null) => void
+  ): Unsubscribe;
+  loadBefore(
+    chatId: string,
+    rootId: string,
+    cursor: MessageCursor,
+    pageSize: number
+  ): Promise<MessagePage>;
+  /**
+   * Replies sent at or after a time, or every reply if since is null.
+   * Replies are never edited or deleted, so this is every change.
+   */
+  listSince(chatId: string, rootId: string, since: Date | null): Promise<MessageData[]>;
+}
+
+export interface PinRepository {
+  list(chatId: string): Promise<PinData[]>;
+  /**
+   * Pins the message unless the chat already has maxPins pins; pinning it
+   * again keeps the original pin. The chat's pinCount changes in the same
+   * write.
+   */
+  add(chatId: string, messageId: string, pinnedBy: string, maxPins: number): Promise<PinResult>;
+  /** Unpins the message, counting it off the chat's pinCount in the same write */
+  remove(chatId: string, messageId: string): Promise<void>;
+  /** Subscribes to the chat's pins, most recently pinned first */
+  subscribe(chatId: string, callback: (pins: PinData[]) => void): Unsubscribe;
+}
+
+export interface AuthGateway {
+  subscribe(callback: (account: AuthAccount | null) => void): Unsubscribe;
+  signIn(): Promise<AuthAccount>;
+  signOut(): Promise<void>;
+  /**
+   * Token that proves who is signed in to the app's own API routes, or
+   * null if no one is signed in or there is no server to talk to
+   */
+  getIdToken(): Promise<string | null>;
+  /**
+   * Deletes what the backend keeps on this device for offline use, so the
+   * next account to sign in can't read it. The backend can't be used again
+   * until the page reloads.
+   */
+  clearOfflineData(): Promise<void>;
+}
+
+export interface Backend {
+  auth: AuthGateway;
+  users: UserRepository;
+  chats: ChatRepository;
+  messages: MessageRepository;
+  threads: ThreadRepository;
+  readMarkers: ReadMarkerRepository;
+  presence: PresenceRepository;
+  push: PushRepository;
+  pins: PinRepository;
+}
@@ -1,12 +1,28 @@
 import { initializeApp } from "firebase/app";
 import { getAuth, GoogleAuthProvider } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import {
+  initializeFirestore,
+  memoryLocalCache,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from "firebase/firestore";
 import { getAnalytics } from "firebase/analytics";
 
 
 // https://firebase.google.com/docs/web/setup#available-libraries
 
-const firebaseConfig = {
+// Demo mode never talks to Firebase, but the SDK still needs a
+// well-formed config to initialize
+const demoConfig = {
+  apiKey: "demo",
+  authDomain: "demo-pagecord.firebaseapp.com",
+  projectId: "demo-pagecord",
+  appId: "demo",
+};
+
+const isDemoMode = process.env.NEXT_PUBLIC_DEMO_MODE === "true";
+
+const firebaseConfig = isDemoMode ? demoConfig : {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
   authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
   projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
@@ -18,7 +34,14 @@ const firebaseConfig = {
 
 const app = initializeApp(firebaseConfig);
 const auth = getAuth(app);
-const db = getFirestore(app);
+// Keeps opened chats readable offline, shared by all open tabs. The server
+// render has no IndexedDB, and demo mode never reads Firestore.
+const db = initializeFirestore(app, {
+  localCache:
+    typeof window !== "undefined" && !isDemoMode
+      ? persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+      : memoryLocalCache(),
+});
 const googleProvider = new GoogleAuthProvider();
 // const analytics = getAnalytics(app);
 
@@ -0,0 +1,109 @@
+import { USERNAME_MAX_LENGTH } from "./username";
+import type { MessageMention } from "./backend";
+
+// Types
+export interface MentionQuery {
+  start: number; // Index of the "@"
+  query: string; // What was typed after it, lowercased
+}
+
+// Constants
+// "@" must start the text or follow a character that can't be part of a
+// word or email address, so "me@example.com" is not a mention
+const MENTION_PATTERN = new RegExp(`(^|[^\\w@.])@(\\w{1,${USERNAME_MAX_LENGTH}})`, "g");
+const MENTION_QUERY_PATTERN = new RegExp(`(?:^|[^\\w@.])@(\\w{0,${USERNAME_MAX_LENGTH}})$`);
+
+// Markdown nodes whose text is shown as written
+const LITERAL_NODE_TYPES = new Set(["code", "inlineCode", "link", "linkReference", "html"]);
+
+/**
+ * Finds the usernames a message mentions
+ * @param text - Message text
+ * @returns Mentioned usernames, lowercased, each once
+ */
+export function findMentionedUsernames(text: string): string[] {
+  const usernames = Array.from(text.matchAll(MENTION_PATTERN), (match) => match[2].toLowerCase());
+  return Array.from(new Set(usernames));
+}
+
+/**
+ * Finds the mention being typed at the caret, for autocomplete
+ * @param text - Composer text
+ * @param caret - Caret position in the text
+ * @returns The mention being typed, or null if the caret isn't in one
+ */
+export function getMentionQuery(text: string, caret: number): MentionQuery | null {
+  const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+  if (!match) return null;
+
+  return { start: caret - match[1].length - 1, query: match[1].toLowerCase() };
+}
+
+/**
+ * Replaces the mention being typed with a complete one
+ * @param text - Composer text
+ * @param mention - Mention being typed, from getMentionQuery
+ * @param caret - Caret position in the text
+ * @param username - Username that was picked
+ * @returns New text and where the caret goes
+ */
+export function insertMention(
+  text: string,
+  mention: MentionQuery,
+  caret: number,
+  username: string
+): { text: string; caret: number } {
+  const inserted = `@${username} `;
+
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(caret).replace(/^ /, ""),
+    caret: mention.start + inserted.length,
+  };
+}
+
+/**
+ * Remark plugin that turns the message's stored mentions into links to
+ * the mentioned profiles. Names that aren't stored mentions stay text.
+ * @param mentions - The message's mentions
+ * @returns Plugin for ReactMarkdown's remarkPlugins
+ */
+export function remarkMentions(mentions: MessageMention[]) {
+  const uidsByUsername = new Map(
+    mentions.map((mention) => [mention.username.toLowerCase(), mention.uid])
+  );
+
+  const toNodes = (value: string): any[] => {
+    const nodes: any[] = [];
+    let lastIndex = 0;
+
+    for (const match of value.matchAll(MENTION_PATTERN)) {
+      const uid = uidsByUsername.get(match[2].toLowerCase());
+      if (!uid) continue;
+
+      const start = (match.index ?? 0) + match[1].length;
+      if (start > lastIndex) nodes.push({ type: "text", value: value.slice(lastIndex, start) });
+
+      nodes.push({
+        type: "link",
+        url: `/profile/${uid}`,
+        data: { hProperties: { "data-mention": uid } },
+        children: [{ type: "text", value: `@${match[2]}` }],
+      });
+      lastIndex = start + match[2].length + 1;
+    }
+
+    if (lastIndex === 0) return [{ type: "text", value }];
+    if (lastIndex < value.length) nodes.push({ type: "text", value: value.slice(lastIndex) });
+    return nodes;
+  };
+
+  const visit = (node: any) => {
+    if (!node.children || LITERAL_NODE_TYPES.has(node.type)) return;
+
+    node.children = node.children.flatMap((child: any) =>
+      child.type === "text" ? toNodes(child.value) : (visit(child), [child])
+    );
+  };
+
+  return () => visit;
+}
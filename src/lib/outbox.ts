@@ -0,0 +1,347 @@
+import { Timestamp } from "firebase/firestore";
+import { sendMessage } from "./api";
+import { getBackend } from "./backend";
+import type { MessageData, Unsubscribe } from "./backend";
+import type { ApiError, ApiErrorCode } from "./result";
+
+// Types
+export type OutboxStatus = "sending" | "failed";
+
+interface OutboxEntry {
+  id: string; // Becomes the message ID, so a retried send can't duplicate it
+  chatId: string;
+  senderId: string;
+  text: string;
+  replyTo?: string; // ID of the quoted message
+  createdAt: number;
+  status: OutboxStatus;
+  error?: ApiError;
+}
+
+export interface PendingMessage extends MessageData {
+  status: OutboxStatus;
+  error?: ApiError;
+}
+
+// Constants
+const DATABASE_NAME = "pagecord";
+const DATABASE_VERSION = 1;
+const STORE_NAME = "outbox";
+const RETRY_DELAY = 5000;
+
+// Failures that clear up on their own, so the message keeps waiting
+// instead of being marked as failed
+const TRANSIENT_ERROR_CODES = new Set<ApiErrorCode>(["unavailable"]);
+
+// Unsent messages live in memory for rendering and in IndexedDB so they
+// survive a reload. Without IndexedDB (SSR, private browsing) the outbox
+// still works, it just forgets pending messages on reload.
+const entries = new Map<string, OutboxEntry>();
+const listeners = new Set<() => void>();
+let loading: Promise<void> | null = null;
+let database: Promise<IDBDatabase | null> | null = null;
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+// Undefined until auth reports who is signed in
+let signedInUid: string | null | undefined;
+
+/**
+ * Subscribe to a chat's unsent messages
+ * @param chatId - ID of the chat
+ * @param callback - Function to call with pending messages, oldest first
+ * @returns Unsubscribe function
+ */
+export function subscribeToOutbox(
+  chatId: string,
+  callback: (messages: PendingMessage[]) => void
+): Unsubscribe {
+  const listener = () => {
+    callback(
+      Array.from(entries.values())
+        .filter((entry) => entry.chatId === chatId)
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map(toPendingMessage)
+    );
+  };
+
+  listeners.add(listener);
+  start().then(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Queues a text message. It shows up as "sending" right away and is sent
+ * as soon as the connection allows.
+ * @param chatId - ID of the chat
+ * @param senderId - uid of the sending user
+ * @param text - Message text content
+ * @param replyTo - ID of the message to quote
+ */
+export async function enqueueMessage(
+  chatId: string,
+  senderId: string,
+  text: string,
+  replyTo?: string
+): Promise<void> {
+  if (!chatId || !senderId || !text.trim()) return;
+
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    chatId,
+    senderId,
+    text: text.trim(),
+    ...(replyTo ? { replyTo } : {}),
+    createdAt: Date.now(),
+    status: "sending",
+  };
+
+  await saveEntry(entry);
+  await start();
+  void flushOutbox();
+}
+
+/**
+ * Sends a failed message again
+ * @param messageId - ID of the pending message
+ */
+export async function retryMessage(messageId: string): Promise<void> {
+  const entry = entries.get(messageId);
+  if (!entry || entry.status !== "failed") return;
+
+  await saveEntry({ ...entry, status: "sending", error: undefined });
+  void flushOutbox();
+}
+
+/**
+ * Drops a failed message without sending it
+ * @param messageId - ID of the pending message
+ */
+export async function discardMessage(messageId: string): Promise<void> {
+  const entry = entries.get(messageId);
+  if (!entry || entry.status !== "failed") return;
+
+  await removeEntry(messageId);
+}
+
+/**
+ * Sends every waiting message, oldest first. Concurrent calls share one run.
+ */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = sendPending().finally(() => {
+      flushing = null;
+    });
+  }
+
+  return flushing;
+}
+
+/**
+ * Drops every unsent message, so the next account to sign in on this
+ * device can't send them
+ */
+export async function clearOutbox(): Promise<void> {
+  entries.clear();
+  notify();
+
+  await runRequest("readwrite", (store) => store.clear());
+}
+
+/**
+ * Loads persisted entries once and starts retrying on reconnect
+ * @returns Promise that resolves when persisted entries are loaded
+ */
+function start(): Promise<void> {
+  if (loading) return loading;
+
+  loading = loadEntries();
+
+  if (typeof window !== "undefined") {
+    window.addEventListener("online", () => void flushOutbox());
+  }
+
+  getBackend().auth.subscribe((account) => {
+    signedInUid = account?.uid ?? null;
+    void flushOutbox();
+  });
+
+  // Messages left over from the last visit are sent right away
+  loading.then(() => {
+    notify();
+    void flushOutbox();
+  });
+
+  return loading;
+}
+
+/**
+ * Sends waiting messages until the outbox is empty or the connection drops
+ */
+async function sendPending(): Promise<void> {
+  await start();
+
+  // The online event flushes again once the connection is back
+  if (typeof navigator !== "undefined" && !navigator.onLine) return;
+
+  // Auth flushes again once it knows who is signed in
+  if (!signedInUid) return;
+
+  // Messages another account left on this device are never sent as this one
+  const foreignEntries = Array.from(entries.values()).filter(
+    (entry) => entry.senderId !== signedInUid
+  );
+  await Promise.all(foreignEntries.map((entry) => removeEntry(entry.id)));
+
+  let entry = getNextEntry();
+
+  while (entry) {
+    const result = await sendMessage(
+      entry.chatId,
+      entry.text,
+      entry.senderId,
+      entry.replyTo ? { kind: "reply", messageId: entry.replyTo } : undefined,
+      entry.id
+    );
+
+    if (result.ok) {
+      await removeEntry(entry.id);
+    } else if (TRANSIENT_ERROR_CODES.has(result.error.code)) {
+      scheduleRetry();
+      return;
+    } else {
+      await saveEntry({ ...entry, status: "failed", error: result.error });
+    }
+
+    entry = getNextEntry();
+  }
+}
+
+/**
+ * Finds the signed-in user's oldest message that is waiting to be sent
+ * @returns Outbox entry or undefined if nothing is waiting
+ */
+function getNextEntry(): OutboxEntry | undefined {
+  return Array.from(entries.values())
+    .filter((entry) => entry.status === "sending" && entry.senderId === signedInUid)
+    .sort((a, b) => a.createdAt - b.createdAt)[0];
+}
+
+function scheduleRetry(): void {
+  if (retryTimer) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void flushOutbox();
+  }, RETRY_DELAY);
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Stores an entry in memory and IndexedDB, then notifies subscribers
+ * @param entry - Entry to store
+ */
+async function saveEntry(entry: OutboxEntry): Promise<void> {
+  entries.set(entry.id, entry);
+  notify();
+
+  await runRequest("readwrite", (store) => store.put(entry));
+}
+
+/**
+ * Deletes an entry from memory and IndexedDB, then notifies subscribers
+ * @param messageId - ID of the entry
+ */
+async function removeEntry(messageId: string): Promise<void> {
+  entries.delete(messageId);
+  notify();
+
+  await runRequest("readwrite", (store) => store.delete(messageId));
+}
+
+/**
+ * Reads persisted entries into memory. Entries added since the page
+ * loaded win over their persisted copy.
+ */
+async function loadEntries(): Promise<void> {
+  const persisted = await runRequest("readonly", (store) => store.getAll());
+
+  (persisted as OutboxEntry[] | null)?.forEach((entry) => {
+    if (!entries.has(entry.id)) entries.set(entry.id, entry);
+  });
+}
+
+/**
+ * Runs a request against the outbox store. Storage errors are logged and
+ * swallowed because the in-memory outbox keeps working without them.
+ * @param mode - Transaction mode
+ * @param createRequest - Function that issues the request on the store
+ * @returns Request result or null if IndexedDB is unavailable or failed
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    const request = createRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Error accessing the outbox:", request.error);
+      resolve(null);
+    };
+  });
+}
+
+/**
+ * Opens the outbox database, creating the store on first use
+ * @returns Database or null if IndexedDB is unavailable
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (database) return database;
+
+  database = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Error opening the outbox:", request.error);
+      resolve(null);
+    };
+  });
+
+  return database;
+}
+
+/**
+ * Maps an outbox entry to a message the chat can render
+ * @param entry - Outbox entry
+ * @returns Message with its local send time and status
+ */
+function toPendingMessage(entry: OutboxEntry): PendingMessage {
+  return {
+    id: entry.id,
+    senderId: entry.senderId,
+    text: entry.text,
+    replyTo: entry.replyTo,
+    timestamp: Timestamp.fromMillis(entry.createdAt),
+    status: entry.status,
+    error: entry.error,
+  };
+}
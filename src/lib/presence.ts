@@ -0,0 +1,241 @@
+import { getBackend } from "./backend";
+import type { PresenceData, PresenceState, Unsubscribe } from "./backend";
+
+// Types
+export type PresenceStatus = "online" | "idle" | "offline";
+
+export interface UserPresence {
+  status: PresenceStatus;
+  lastSeen: number | null; // Milliseconds since the epoch; null if never seen
+}
+
+interface PresenceEntry {
+  presence: PresenceData | null;
+  listeners: Set<() => void>;
+  unsubscribe: Unsubscribe | null;
+}
+
+// Constants
+const HEARTBEAT_INTERVAL = 60 * 1000;
+const STALE_AFTER = 150 * 1000; // A tab missing two heartbeats has gone away
+const IDLE_AFTER = 5 * 60 * 1000;
+const INPUT_EVENTS = ["pointerdown", "pointermove", "keydown", "scroll", "touchstart"];
+
+// One live listener per uid, shared by every subscriber that needs it
+const entries = new Map<string, PresenceEntry>();
+
+/**
+ * Reports this tab's presence until stopped: online while the tab is
+ * visible and in use, idle otherwise. Each tab reports separately, so
+ * the user stays online as long as any tab is.
+ * @param uid - uid of the signed-in user
+ * @returns Function that stops reporting and removes this tab
+ */
+export function startPresence(uid: string): Unsubscribe {
+  if (!uid || typeof window === "undefined") {
+    return () => {};
+  }
+
+  const { presence } = getBackend();
+  const sessionId = crypto.randomUUID();
+  let lastInputAt = Date.now();
+  let state = getTabState(lastInputAt);
+
+  const report = (next: PresenceState | null) => {
+    presence
+      .report(uid, sessionId, next, new Date(Date.now() - STALE_AFTER))
+      .catch((error) => {
+        console.error("Error reporting presence:", error);
+      });
+  };
+
+  const refresh = () => {
+    const next = getTabState(lastInputAt);
+    if (next === state) return;
+
+    state = next;
+    report(state);
+  };
+
+  const handleInput = () => {
+    lastInputAt = Date.now();
+    if (state === "idle") refresh();
+  };
+
+  // Closing the tab is the graceful case; heartbeats expiring covers the rest
+  const handlePageHide = () => report(null);
+  const handlePageShow = (event: PageTransitionEvent) => {
+    if (event.persisted) report(state);
+  };
+
+  const heartbeat = setInterval(() => {
+    state = getTabState(lastInputAt);
+    report(state);
+  }, HEARTBEAT_INTERVAL);
+
+  INPUT_EVENTS.forEach((type) => window.addEventListener(type, handleInput, { passive: true }));
+  document.addEventListener("visibilitychange", refresh);
+  window.addEventListener("pagehide", handlePageHide);
+  window.addEventListener("pageshow", handlePageShow);
+  report(state);
+
+  return () => {
+    clearInterval(heartbeat);
+    INPUT_EVENTS.forEach((type) => window.removeEventListener(type, handleInput));
+    document.removeEventListener("visibilitychange", refresh);
+    window.removeEventListener("pagehide", handlePageHide);
+    window.removeEventListener("pageshow", handlePageShow);
+    report(null);
+  };
+}
+
+/**
+ * Subscribe to the presence of a set of users. Listeners are shared and
+ * reference counted, like profile subscriptions.
+ * @param uids - User IDs to watch
+ * @param callback - Function to call with known presence, keyed by uid
+ * @returns Unsubscribe function
+ */
+export function subscribeToPresence(
+  uids: string[],
+  callback: (presence: Record<string, PresenceData>) => void
+): Unsubscribe {
+  const uniqueUids = Array.from(new Set(uids.filter(Boolean)));
+  let isScheduled = false;
+
+  // Coalesce bursts of presence snapshots into a single callback
+  const notify = () => {
+    if (isScheduled) return;
+    isScheduled = true;
+
+    queueMicrotask(() => {
+      isScheduled = false;
+      callback(collectPresence(uniqueUids));
+    });
+  };
+
+  uniqueUids.forEach((uid) => retain(uid, notify));
+
+  if (uniqueUids.some((uid) => entries.get(uid)?.presence)) {
+    notify();
+  }
+
+  return () => {
+    uniqueUids.forEach((uid) => release(uid, notify));
+  };
+}
+
+/**
+ * Works out a user's status from what their tabs last reported
+ * @param presence - Stored presence, if any
+ * @param now - Current time in milliseconds
+ * @returns Online if any tab is online, idle if any tab is idle, and
+ *   offline once every tab has closed or stopped sending heartbeats
+ */
+export function getUserPresence(
+  presence: PresenceData | null | undefined,
+  now: number
+): UserPresence {
+  const liveStates = Object.values(presence?.sessions ?? {})
+    .filter((session) => (session.heartbeatAt?.toMillis() ?? 0) > now - STALE_AFTER)
+    .map((session) => session.state);
+
+  const status: PresenceStatus = liveStates.includes("online")
+    ? "online"
+    : liveStates.includes("idle")
+      ? "idle"
+      : "offline";
+
+  return { status, lastSeen: presence?.lastActiveAt?.toMillis() ?? null };
+}
+
+/**
+ * Describes a user's presence, e.g. "last seen 5 min ago"
+ * @param presence - User's presence from getUserPresence
+ * @param now - Current time in milliseconds
+ * @returns Short description for headers and tooltips
+ */
+export function describePresence(presence: UserPresence, now: number): string {
+  if (presence.status === "online") return "Online";
+  if (presence.status === "idle") return "Idle";
+  if (presence.lastSeen === null) return "Offline";
+
+  const minutes = Math.floor((now - presence.lastSeen) / 60000);
+
+  if (minutes < 1) return "last seen just now";
+  if (minutes < 60) return `last seen ${minutes} min ago`;
+  if (minutes < 24 * 60) return `last seen ${Math.floor(minutes / 60)} h ago`;
+
+  return `last seen ${new Date(presence.lastSeen).toLocaleDateString([], {
+    month: "short",
+    day: "numeric",
+  })}`;
+}
+
+/**
+ * Reads this tab's state
+ * @param lastInputAt - Time of the user's last input in this tab
+ * @returns Online if the tab is visible and was used recently
+ */
+function getTabState(lastInputAt: number): PresenceState {
+  return document.visibilityState === "visible" && Date.now() - lastInputAt < IDLE_AFTER
+    ? "online"
+    : "idle";
+}
+
+/**
+ * Adds a listener for a uid, starting the presence snapshot if needed
+ * @param uid - User's uid
+ * @param listener - Function to call when the presence changes
+ */
+function retain(uid: string, listener: () => void): void {
+  let entry = entries.get(uid);
+
+  if (!entry) {
+    entry = { presence: null, listeners: new Set(), unsubscribe: null };
+    entries.set(uid, entry);
+  }
+
+  entry.listeners.add(listener);
+
+  if (!entry.unsubscribe) {
+    const currentEntry = entry;
+    currentEntry.unsubscribe = getBackend().presence.subscribe(uid, (presence) => {
+      currentEntry.presence = presence;
+      currentEntry.listeners.forEach((notify) => notify());
+    });
+  }
+}
+
+/**
+ * Removes a listener for a uid, stopping the snapshot when none are left
+ * @param uid - User's uid
+ * @param listener - Listener passed to retain
+ */
+function release(uid: string, listener: () => void): void {
+  const entry = entries.get(uid);
+  if (!entry) return;
+
+  entry.listeners.delete(listener);
+
+  if (entry.listeners.size === 0 && entry.unsubscribe) {
+    entry.unsubscribe();
+    entry.unsubscribe = null;
+  }
+}
+
+/**
+ * Collects cached presence for a set of uids
+ * @param uids - User IDs to collect
+ * @returns Presence keyed by uid
+ */
+function collectPresence(uids: string[]): Record<string, PresenceData> {
+  const presence: Record<string, PresenceData> = {};
+
+  uids.forEach((uid) => {
+    const userPresence = entries.get(uid)?.presence;
+    if (userPresence) presence[uid] = userPresence;
+  });
+
+  return presence;
+}
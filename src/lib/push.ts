@@ -0,0 +1,245 @@
+import { getBackend, isDemoMode } from "./backend";
+import type { PushSubscriptionData } from "./backend";
+import { fail, ok, toFailure, type Result } from "./result";
+import {
+  getServiceWorkerRegistration,
+  isServiceWorkerSupported,
+  registerServiceWorker,
+} from "./serviceWorker";
+
+// Types
+export type PushStatus =
+  | "unsupported" // The browser can't receive pushes
+  | "unavailable" // The site isn't set up to send them
+  | "blocked" // The user blocked notifications
+  | "enabled"
+  | "disabled";
+
+// Constants
+const STUB_ROUTE = "/api/push/stub";
+const STUB_SUBSCRIPTION_KEY = "pagecord:pushStubSubscription";
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+// The stub push service stands in for the browser's, for local testing
+const isPushStubbed = process.env.NEXT_PUBLIC_PUSH_STUB === "true";
+
+/**
+ * Works out whether this device gets push notifications
+ * @returns Push status for this browser
+ */
+export async function getPushStatus(): Promise<PushStatus> {
+  if (!isPushSupported()) return "unsupported";
+  // Demo data lives in the page, where the server can't see it
+  if (isDemoMode || !VAPID_PUBLIC_KEY) return "unavailable";
+  if (!isPushStubbed && Notification.permission === "denied") return "blocked";
+
+  return (await getSubscription()) ? "enabled" : "disabled";
+}
+
+/**
+ * Subscribes this device to push notifications for the user, asking for
+ * permission first if needed
+ * @param uid - uid of the signed-in user
+ */
+export async function enablePush(uid: string): Promise<Result<void>> {
+  if (!uid) {
+    return fail("not-signed-in");
+  }
+
+  const status = await getPushStatus();
+  if (status === "unsupported") return fail("push-unsupported");
+  if (status === "unavailable") return fail("push-not-configured");
+
+  try {
+    const subscription = isPushStubbed ? await subscribeToStub() : await subscribeToBrowser();
+    if (!subscription) {
+      return fail("push-blocked");
+    }
+
+    await saveSubscription(uid, subscription);
+    return ok();
+  } catch (error) {
+    console.error("Error enabling push notifications:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Stops push notifications on this device
+ * @param uid - uid of the signed-in user
+ */
+export async function disablePush(uid: string): Promise<Result<void>> {
+  if (!uid) {
+    return fail("not-signed-in");
+  }
+
+  try {
+    const subscription = await getSubscription();
+    if (!subscription) return ok();
+
+    await getBackend().push.removeSubscription(uid, await getDeviceId(subscription.endpoint));
+    await unsubscribe();
+    return ok();
+  } catch (error) {
+    console.error("Error disabling push notifications:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Stores this device's subscription again. Browsers can replace a
+ * subscription at any time, so this runs whenever the app opens.
+ * @param uid - uid of the signed-in user
+ */
+export async function refreshPushSubscription(uid: string): Promise<void> {
+  if (!uid || (await getPushStatus()) !== "enabled") return;
+
+  try {
+    const subscription = await getSubscription();
+    if (subscription) await saveSubscription(uid, subscription);
+  } catch (error) {
+    console.error("Error refreshing push subscription:", error);
+  }
+}
+
+/**
+ * Unsubscribes this device without touching the stored subscription,
+ * which the server deletes the next time a push to it bounces. Used on
+ * sign-out, when the next user of the device must not get the pushes.
+ */
+export async function clearPushSubscription(): Promise<void> {
+  if (!isPushSupported()) return;
+
+  try {
+    await unsubscribe();
+  } catch (error) {
+    console.error("Error clearing push subscription:", error);
+  }
+}
+
+/**
+ * Checks for the browser features push needs
+ * @returns True if the browser can receive pushes
+ */
+function isPushSupported(): boolean {
+  return (
+    isServiceWorkerSupported() &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+/**
+ * Reads this device's current subscription
+ * @returns Subscription, or null if the device isn't subscribed
+ */
+async function getSubscription(): Promise<PushSubscriptionData | null> {
+  if (isPushStubbed) {
+    const stored = localStorage.getItem(STUB_SUBSCRIPTION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  const registration = await getServiceWorkerRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  return subscription ? toSubscriptionData(subscription) : null;
+}
+
+/**
+ * Subscribes through the browser's push service
+ * @returns Subscription, or null if the user didn't allow notifications
+ */
+async function subscribeToBrowser(): Promise<PushSubscriptionData | null> {
+  if ((await Notification.requestPermission()) !== "granted") return null;
+
+  const registration = await registerServiceWorker();
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: VAPID_PUBLIC_KEY,
+    }));
+
+  return toSubscriptionData(subscription);
+}
+
+/**
+ * Subscribes a pretend device with the stub push service
+ * @returns Subscription
+ */
+async function subscribeToStub(): Promise<PushSubscriptionData> {
+  const response = await fetch(STUB_ROUTE, { method: "POST", headers: await getStubHeaders() });
+  if (!response.ok) {
+    throw new Error(`Stub push service answered ${response.status}`);
+  }
+
+  const subscription: PushSubscriptionData = await response.json();
+  localStorage.setItem(STUB_SUBSCRIPTION_KEY, JSON.stringify(subscription));
+  return subscription;
+}
+
+/**
+ * Drops this device's subscription from the browser or the stub
+ */
+async function unsubscribe(): Promise<void> {
+  if (isPushStubbed) {
+    const subscription = await getSubscription();
+    localStorage.removeItem(STUB_SUBSCRIPTION_KEY);
+    if (subscription) {
+      await fetch(subscription.endpoint, { method: "DELETE", headers: await getStubHeaders() });
+    }
+    return;
+  }
+
+  const registration = await getServiceWorkerRegistration();
+  await (await registration?.pushManager.getSubscription())?.unsubscribe();
+}
+
+/**
+ * Stores a subscription under this device's ID
+ * @param uid - uid of the signed-in user
+ * @param subscription - Subscription to store
+ */
+async function saveSubscription(uid: string, subscription: PushSubscriptionData): Promise<void> {
+  await getBackend().push.saveSubscription(
+    uid,
+    await getDeviceId(subscription.endpoint),
+    subscription
+  );
+}
+
+/**
+ * Derives a stable ID for this device's subscription, so subscribing again
+ * replaces the stored one instead of adding another
+ * @param endpoint - Subscription endpoint, which is unique to the device
+ * @returns Hex ID
+ */
+async function getDeviceId(endpoint: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(endpoint));
+
+  return Array.from(new Uint8Array(digest).slice(0, 16), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Copies the parts of a browser subscription the server needs
+ * @param subscription - Browser subscription
+ * @returns Endpoint and keys
+ */
+function toSubscriptionData(subscription: PushSubscription): PushSubscriptionData {
+  const { endpoint, keys } = subscription.toJSON();
+
+  return {
+    endpoint: endpoint ?? subscription.endpoint,
+    keys: { p256dh: keys?.p256dh ?? "", auth: keys?.auth ?? "" },
+  };
+}
+
+/**
+ * Builds the headers the stub push service needs: it keeps each user's
+ * devices and pushes to themselves
+ * @returns Headers with the signed-in user's ID token
+ */
+async function getStubHeaders(): Promise<HeadersInit> {
+  const idToken = await getBackend().auth.getIdToken();
+  return idToken ? { Authorization: `Bearer ${idToken}` } : {};
+}
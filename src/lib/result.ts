@@ -0,0 +1,91 @@
+// Every way an API call can fail. The UI turns codes into messages, so
+// the data layer never has to know how an error will be shown.
+export type ApiErrorCode =
+  | "invalid-argument" // A required value was missing or empty
+  | "not-signed-in"
+  | "sign-in-cancelled"
+  | "profile-not-found" // The signed-in account has no profile yet
+  | "profile-exists"
+  | "user-not-found" // detail: the username that was looked up
+  | "self-chat"
+  | "chat-not-found"
+  | "not-found" // The document was deleted while the call ran
+  | "not-a-group"
+  | "not-group-owner"
+  | "group-too-small"
+  | "group-too-large"
+  | "pin-limit-reached" // detail: the pin limit
+  | "edit-window-closed" // detail: the chat's edit window in minutes
+  | "undo-expired"
+  | "reaction-limit-reached" // detail: the reaction limit
+  | "username-invalid" // detail: which username rule was broken
+  | "username-taken"
+  | "invalid-file-type"
+  | "upload-not-configured"
+  | "upload-failed" // detail: the upload service's message
+  | "push-unsupported" // The browser can't receive push notifications
+  | "push-blocked" // The user blocked notifications for the site
+  | "push-not-configured"
+  | "permission-denied"
+  | "unavailable" // Offline or the backend could not be reached
+  | "unknown";
+
+export interface ApiError {
+  code: ApiErrorCode;
+  detail?: string;
+}
+
+export interface Failure {
+  ok: false;
+  error: ApiError;
+}
+
+export type Result<T> = { ok: true; data: T } | Failure;
+
+// Error codes thrown by the Firebase SDKs that map onto ApiErrorCodes
+const FIREBASE_ERROR_CODES: Record<string, ApiErrorCode> = {
+  "permission-denied": "permission-denied",
+  "unauthenticated": "not-signed-in",
+  "not-found": "not-found",
+  "unavailable": "unavailable",
+  "deadline-exceeded": "unavailable",
+  "auth/network-request-failed": "unavailable",
+  "auth/popup-closed-by-user": "sign-in-cancelled",
+  "auth/cancelled-popup-request": "sign-in-cancelled",
+};
+
+/**
+ * Wraps a successful value
+ * @param data - Value to return
+ * @returns Successful result
+ */
+export function ok(): Result<void>;
+export function ok<T>(data: T): Result<T>;
+export function ok<T>(data?: T): Result<T | undefined> {
+  return { ok: true, data };
+}
+
+/**
+ * Builds a failed result
+ * @param code - What went wrong
+ * @param detail - Value the UI can show alongside the message
+ * @returns Failed result
+ */
+export function fail(code: ApiErrorCode, detail?: string): Failure {
+  return { ok: false, error: detail === undefined ? { code } : { code, detail } };
+}
+
+/**
+ * Converts a thrown error into a failed result
+ * @param error - Error from a backend or fetch call
+ * @returns Failed result with the closest matching code
+ */
+export function toFailure(error: unknown): Failure {
+  const code = (error as { code?: unknown } | null)?.code;
+
+  if (typeof code === "string" && FIREBASE_ERROR_CODES[code]) {
+    return fail(FIREBASE_ERROR_CODES[code]);
+  }
+
+  return fail("unknown", error instanceof Error ? error.message : undefined);
+}
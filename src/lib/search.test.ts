@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Timestamp } from "firebase/firestore";
+import { createMemoryBackend, getBackend, setBackend, type UserData } from "./backend";
+import { deleteMessage, restoreMessage, sendMessage } from "./api";
+import { clearSearchIndex, searchMessages } from "./search";
+
+const ALICE: UserData = { uid: "alice", username: "alice", email: "alice@pagecord.test", photoURL: "" };
+const BOB: UserData = { uid: "bob", username: "bob", email: "bob@pagecord.test", photoURL: "" };
+
+const MINUTE = 60 * 1000;
+const PAST_SYNC_INTERVAL = 20 * 1000;
+
+/**
+ * Searches the group as Alice
+ * @param input - What Alice typed
+ * @returns IDs of the matching messages
+ */
+async function search(input: string): Promise<string[]> {
+  const result = await searchMessages(ALICE.email, input, "group");
+  if (!result.ok) throw new Error(result.error.code);
+
+  return result.data.map((match) => match.messageId);
+}
+
+/**
+ * Lets the index ask for changes again
+ */
+function waitOutSyncInterval() {
+  vi.setSystemTime(Date.now() + PAST_SYNC_INTERVAL);
+}
+
+beforeEach(async () => {
+  // Only the clock is faked, so the backend's promises still settle
+  vi.useFakeTimers({ toFake: ["Date"] });
+  await clearSearchIndex();
+
+  const timestamp = Timestamp.fromMillis(Date.now() - MINUTE);
+  setBackend(
+    createMemoryBackend({
+      users: [ALICE, BOB],
+      chats: [
+        {
+          id: "group",
+          type: "group",
+          title: "Weekend plans",
+          ownerEmail: ALICE.email,
+          members: [ALICE.email, BOB.email],
+          participants: {},
+          createdAt: timestamp,
+          lastMessage: "saturday?",
+          lastUpdated: timestamp,
+        },
+      ],
+      messages: {
+        group: [{ id: "plans", senderId: ALICE.uid, text: "saturday?", timestamp }],
+      },
+    })
+  );
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("searchMessages", () => {
+  it("finds thread replies and says which thread they're in", async () => {
+    await sendMessage("group", "the lake sounds good", BOB.uid, { kind: "thread", messageId: "plans" });
+
+    const result = await searchMessages(ALICE.email, "lake", "group");
+
+    expect(result.ok && result.data).toMatchObject([{ threadId: "plans", senderId: BOB.uid }]);
+  });
+
+  it("only asks for what changed after the first sync", async () => {
+    const listChangedSince = vi.spyOn(getBackend().messages, "listChangedSince");
+    await search("saturday");
+
+    waitOutSyncInterval();
+    await search("saturday");
+
+    expect(listChangedSince).toHaveBeenCalledTimes(2);
+    expect(listChangedSince.mock.calls[0][1]).toBeNull();
+    expect(listChangedSince.mock.calls[1][1]).toBeInstanceOf(Date);
+  });
+
+  it("picks up replies added to a thread it has already indexed", async () => {
+    await sendMessage("group", "the lake", BOB.uid, { kind: "thread", messageId: "plans" });
+    await search("lake");
+
+    waitOutSyncInterval();
+    await sendMessage("group", "or the beach", BOB.uid, { kind: "thread", messageId: "plans" });
+
+    expect(await search("beach")).toHaveLength(1);
+    expect(await search("lake")).toHaveLength(1);
+  });
+
+  it("picks up deletions and restores", async () => {
+    expect(await search("saturday")).toEqual(["plans"]);
+
+    waitOutSyncInterval();
+    await deleteMessage("group", "plans", ALICE);
+    expect(await search("saturday")).toEqual([]);
+
+    expect((await restoreMessage("group", "plans", ALICE.uid)).ok).toBe(true);
+    waitOutSyncInterval();
+    expect(await search("saturday")).toEqual(["plans"]);
+  });
+
+  it("hides replies in threads whose root was deleted", async () => {
+    await sendMessage("group", "the lake", BOB.uid, { kind: "thread", messageId: "plans" });
+    await deleteMessage("group", "plans", ALICE);
+
+    expect(await search("lake")).toEqual([]);
+  });
+});
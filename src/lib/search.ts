@@ -0,0 +1,703 @@
+import { getBackend, getMessagePreview } from "./backend";
+import type { ChatRecord, MessageData } from "./backend";
+import { fail, ok, toFailure, type Result } from "./result";
+import { normalizeUsername } from "./username";
+
+// Types
+export type SearchAttachment = "image" | "link";
+
+export interface SearchQuery {
+  terms: string[]; // Words and quoted phrases, folded for matching
+  from: string[]; // Usernames
+  has: SearchAttachment[];
+  before: number | null; // Milliseconds since the epoch
+  after: number | null;
+  in: string[]; // Chat titles or usernames, folded for matching
+}
+
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchResult {
+  chatId: string;
+  chatTitle: string;
+  messageId: string;
+  threadId: string | null; // Root of the thread for thread replies
+  senderId: string | null; // null for legacy messages
+  senderName: string;
+  timestamp: number | null; // Milliseconds since the epoch
+  snippet: string;
+  highlights: SearchHighlight[]; // Matched ranges within the snippet
+}
+
+// What the index keeps of a message. Plain values only, so it can be
+// stored in IndexedDB as is.
+interface IndexedMessage {
+  chatId: string;
+  key: string; // Message ID, or rootId/replyId for thread replies
+  id: string;
+  threadId: string | null;
+  senderId: string | null;
+  senderName: string; // Legacy display snapshot
+  text: string;
+  mediaUrl: string | null;
+  timestamp: number | null; // Milliseconds since the epoch
+  isDeleted: boolean;
+}
+
+// Sync state of a stored index
+interface StoredChatIndex {
+  chatId: string;
+  owner: string; // Email of the user the index was built for
+  changedUpTo: number | null; // Latest change the index has seen
+}
+
+interface ChatIndex {
+  messages: Map<string, IndexedMessage>;
+  syncedAt: number; // When the index last asked for changes
+  chatUpdatedAt: number | null; // Chat's lastUpdated at that point
+  changedUpTo: number | null;
+  sync: Promise<void> | null;
+}
+
+interface FoldedText {
+  text: string;
+  offsets: number[]; // Index in the original text of each folded character
+}
+
+// Constants
+const MAX_SEARCH_RESULTS = 50;
+// New messages bump the chat's lastUpdated and are picked up straight
+// away; edits, deletions, restores and thread replies within this long
+const SYNC_INTERVAL = 15 * 1000;
+// Asks for changes a little before the latest one seen, in case the
+// estimated time of a pending write ran ahead of the server's clock
+const SYNC_OVERLAP = 60 * 1000;
+const SNIPPET_CONTEXT_BEFORE = 40;
+const SNIPPET_LENGTH = 140;
+const SEARCH_TOKEN_PATTERN = /(?:([a-z]+):)?(?:"([^"]*)"|(\S+))/gi;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const WORD_CHARACTER_PATTERN = /[\p{L}\p{N}]/u;
+const LINK_PATTERN = /https?:\/\/\S+/i;
+const VIDEO_URL_PATTERN = /\/video\/upload\/|\.mp4($|\?)/i;
+const DATABASE_NAME = "pagecord-search";
+const DATABASE_VERSION = 1;
+const MESSAGE_STORE = "messages";
+const CHAT_STORE = "chats";
+
+// Message indexes keyed by chat ID, for the signed-in user only. They are
+// kept in IndexedDB too, so a new tab picks up where the last one left off
+// instead of reading every message again. Without IndexedDB (SSR, private
+// browsing) each tab builds its own.
+const indexes = new Map<string, ChatIndex>();
+let indexOwner: string | null = null;
+let storedChatIds: Set<string> | null = null; // Chats with a stored index
+let database: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Parses a search box query. Besides plain words and "quoted phrases" it
+ * understands from:username, has:image, has:link, before:YYYY-MM-DD,
+ * after:YYYY-MM-DD and in:chat. Anything that isn't a valid operator is
+ * searched for as text.
+ * @param input - What the user typed
+ * @returns Parsed query
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const parsed: SearchQuery = { terms: [], from: [], has: [], before: null, after: null, in: [] };
+
+  for (const match of input.matchAll(SEARCH_TOKEN_PATTERN)) {
+    const operator = match[1]?.toLowerCase();
+    const value = match[2] ?? match[3];
+    const has = value.toLowerCase();
+    const date = parseDate(value);
+
+    if (operator === "from" && value) {
+      parsed.from.push(normalizeUsername(value.replace(/^@/, "")));
+    } else if (operator === "has" && (has === "image" || has === "link")) {
+      parsed.has.push(has);
+    } else if (operator === "before" && date !== null) {
+      parsed.before = date;
+    } else if (operator === "after" && date !== null) {
+      parsed.after = date;
+    } else if (operator === "in" && value) {
+      parsed.in.push(foldText(value).text);
+    } else {
+      const term = foldText(match[0].replace(/"/g, "")).text.trim();
+      if (term) parsed.terms.push(term);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Checks whether a query would match everything
+ * @param query - Parsed query
+ * @returns True if the query has no words and no operators
+ */
+export function isEmptySearchQuery(query: SearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    query.from.length === 0 &&
+    query.has.length === 0 &&
+    query.before === null &&
+    query.after === null &&
+    query.in.length === 0
+  );
+}
+
+/**
+ * Searches the messages and thread replies of the chats the user is a
+ * member of, newest first. A chat is indexed the first time it is
+ * searched and only its changes are read from then on.
+ * @param email - Email of the signed-in user
+ * @param input - What the user typed
+ * @param chatId - Only search this chat
+ * @returns Matching messages with highlighted snippets
+ */
+export async function searchMessages(
+  email: string,
+  input: string,
+  chatId?: string
+): Promise<Result<SearchResult[]>> {
+  if (!email) {
+    return fail("not-signed-in");
+  }
+
+  const query = parseSearchQuery(input);
+  if (isEmptySearchQuery(query)) {
+    return ok([]);
+  }
+
+  try {
+    // Membership is checked on every search, so chats the user has left
+    // drop out of the results and their indexes are thrown away
+    const memberChats = await getBackend().chats.listForMember(email);
+    await resetIndexes(email, memberChats);
+
+    const scopedChats = chatId
+      ? memberChats.filter((chat) => chat.id === chatId)
+      : memberChats;
+    if (chatId && scopedChats.length === 0) {
+      return fail("chat-not-found");
+    }
+
+    const chats = scopedChats.filter(
+      (chat) =>
+        query.in.length === 0 ||
+        query.in.some((name) => foldText(getChatTitle(chat, email)).text.includes(name))
+    );
+    const senderUids = await resolveSenders(query.from, chats);
+
+    await Promise.all(chats.map((chat) => syncIndex(email, chat)));
+
+    const results = chats.flatMap((chat) => {
+      const messages = indexes.get(chat.id)?.messages ?? new Map<string, IndexedMessage>();
+
+      return Array.from(messages.values())
+        .filter((message) => matchesQuery(message, messages, query, senderUids))
+        .map((message) => toSearchResult(chat, email, message, query.terms));
+    });
+
+    return ok(
+      results
+        .sort((a, b) => (b.timestamp ?? Date.now()) - (a.timestamp ?? Date.now()))
+        .slice(0, MAX_SEARCH_RESULTS)
+    );
+  } catch (error) {
+    console.error("Error searching messages:", error);
+    return toFailure(error);
+  }
+}
+
+/**
+ * Forgets every index, in this tab and in IndexedDB. Called on sign-out.
+ */
+export async function clearSearchIndex(): Promise<void> {
+  indexes.clear();
+  indexOwner = null;
+  storedChatIds = null;
+
+  await runTransaction("readwrite", (transaction) => {
+    transaction.objectStore(MESSAGE_STORE).clear();
+    transaction.objectStore(CHAT_STORE).clear();
+  });
+}
+
+/**
+ * Reads a YYYY-MM-DD date as local midnight
+ * @param value - Operator value
+ * @returns Milliseconds since the epoch, or null if it isn't a valid date
+ */
+function parseDate(value: string): number | null {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  const date = new Date(year, month, day);
+
+  return date.getMonth() === month && date.getDate() === day ? date.getTime() : null;
+}
+
+/**
+ * Lowercases text and strips accents, so "Cafe" finds "café", while
+ * remembering where each character came from
+ * @param text - Text to fold
+ * @returns Folded text with offsets back into the original
+ */
+function foldText(text: string): FoldedText {
+  const folded: FoldedText = { text: "", offsets: [] };
+  let index = 0;
+
+  for (const character of text) {
+    const foldedCharacter = character
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase();
+
+    for (let i = 0; i < foldedCharacter.length; i++) {
+      folded.offsets.push(index);
+    }
+    folded.text += foldedCharacter;
+    index += character.length;
+  }
+
+  return folded;
+}
+
+/**
+ * Finds a term at the start of a word, so "is" doesn't match "this"
+ * @param text - Folded text to search
+ * @param term - Folded term
+ * @param fromIndex - Where to start looking
+ * @returns Index of the match, or -1 if there is none
+ */
+function findTerm(text: string, term: string, fromIndex: number): number {
+  let index = text.indexOf(term, fromIndex);
+
+  while (index > 0 && WORD_CHARACTER_PATTERN.test(text[index - 1])) {
+    index = text.indexOf(term, index + 1);
+  }
+
+  return index;
+}
+
+/**
+ * Works out the name a chat is shown under
+ * @param chat - Chat document data
+ * @param email - Email of the signed-in user
+ * @returns Group title, or the other member's username for direct chats
+ */
+function getChatTitle(chat: ChatRecord, email: string): string {
+  if (chat.type === "group") {
+    return chat.title || "Untitled group";
+  }
+
+  const otherMember = Object.values(chat.participants ?? {}).find(
+    (participant) => participant.email !== email
+  );
+  return otherMember?.username ?? chat.members.find((member) => member !== email) ?? "";
+}
+
+/**
+ * Resolves from: usernames to uids, preferring the usernames stored on
+ * the chats over a lookup
+ * @param usernames - Normalized usernames
+ * @param chats - Chats being searched
+ * @returns uids of the senders, or null if the query has no from: operator
+ */
+async function resolveSenders(
+  usernames: string[],
+  chats: ChatRecord[]
+): Promise<Set<string> | null> {
+  if (usernames.length === 0) return null;
+
+  const uids = new Set<string>();
+  const unresolved = usernames.filter((username) => {
+    const participantUids = chats.flatMap((chat) =>
+      Object.entries(chat.participants ?? {})
+        .filter(([, participant]) => normalizeUsername(participant.username) === username)
+        .map(([uid]) => uid)
+    );
+
+    participantUids.forEach((uid) => uids.add(uid));
+    return participantUids.length === 0;
+  });
+
+  // Former members no longer appear on the chat
+  const users = await Promise.all(
+    unresolved.map((username) => getBackend().users.findByUsername(username))
+  );
+  users.forEach((user) => user && uids.add(user.uid));
+
+  return uids;
+}
+
+/**
+ * Brings a chat's index up to date, reading only what changed since the
+ * last sync. Concurrent searches share one sync.
+ * @param email - Email of the signed-in user
+ * @param chat - Chat to index
+ */
+async function syncIndex(email: string, chat: ChatRecord): Promise<void> {
+  let index = indexes.get(chat.id);
+  const chatUpdatedAt = chat.lastUpdated?.toMillis?.() ?? null;
+
+  if (!index) {
+    index = { messages: new Map(), syncedAt: 0, chatUpdatedAt: null, changedUpTo: null, sync: null };
+    indexes.set(chat.id, index);
+  }
+
+  if (index.sync) return index.sync;
+  if (Date.now() - index.syncedAt < SYNC_INTERVAL && index.chatUpdatedAt === chatUpdatedAt) {
+    return;
+  }
+
+  const currentIndex = index;
+
+  // An index that hasn't seen anything yet starts from the stored one
+  currentIndex.sync = (
+    currentIndex.changedUpTo === null
+      ? loadStoredIndex(email, chat.id, currentIndex)
+      : Promise.resolve()
+  )
+    .then(() => readChanges(email, chat.id, currentIndex))
+    .then(() => {
+      currentIndex.syncedAt = Date.now();
+      currentIndex.chatUpdatedAt = chatUpdatedAt;
+    })
+    .finally(() => {
+      currentIndex.sync = null;
+    });
+
+  return currentIndex.sync;
+}
+
+/**
+ * Reads the messages and thread replies that changed since the index last
+ * saw a change, and stores them
+ * @param email - Email of the signed-in user
+ * @param chatId - ID of the chat
+ * @param index - Index to update
+ */
+async function readChanges(email: string, chatId: string, index: ChatIndex): Promise<void> {
+  const since = index.changedUpTo === null ? null : new Date(index.changedUpTo - SYNC_OVERLAP);
+  const { messages, threads } = getBackend();
+  const changed = await messages.listChangedSince(chatId, since);
+
+  // A new reply stamps lastThreadReplyAt on its root, so only threads
+  // whose root came back can have new replies
+  const roots = changed.filter((message) => {
+    const lastReplyAt = message.lastThreadReplyAt?.toMillis?.();
+    return lastReplyAt && (!since || lastReplyAt >= since.getTime());
+  });
+  const replies = await Promise.all(
+    roots.map((root) => threads.listSince(chatId, root.id, since))
+  );
+
+  // The index was thrown away meanwhile, e.g. on sign-out
+  if (indexes.get(chatId) !== index) return;
+
+  const updates = [...changed, ...replies.flat()].map((message) => {
+    [
+      message.timestamp,
+      message.editedAt,
+      message.deletedAt,
+      message.restoredAt,
+      message.lastThreadReplyAt,
+    ].forEach((changedAt) => {
+      const millis = changedAt?.toMillis?.();
+      if (millis && millis > (index.changedUpTo ?? 0)) {
+        index.changedUpTo = millis;
+      }
+    });
+
+    return toIndexedMessage(chatId, message);
+  });
+  updates.forEach((message) => index.messages.set(message.key, message));
+
+  await runTransaction("readwrite", (transaction) => {
+    const messageStore = transaction.objectStore(MESSAGE_STORE);
+    updates.forEach((message) => messageStore.put(message));
+
+    const stored: StoredChatIndex = { chatId, owner: email, changedUpTo: index.changedUpTo };
+    transaction.objectStore(CHAT_STORE).put(stored);
+  });
+  storedChatIds?.add(chatId);
+}
+
+/**
+ * Fills a new in-memory index from IndexedDB, if a tab has stored one for
+ * this user
+ * @param email - Email of the signed-in user
+ * @param chatId - ID of the chat
+ * @param index - Empty index to fill
+ */
+async function loadStoredIndex(email: string, chatId: string, index: ChatIndex): Promise<void> {
+  const stored = await runTransaction("readonly", (transaction) =>
+    transaction.objectStore(CHAT_STORE).get(chatId)
+  );
+  if (!stored || (stored as StoredChatIndex).owner !== email) return;
+
+  const messages = await runTransaction("readonly", (transaction) =>
+    transaction.objectStore(MESSAGE_STORE).getAll(getChatKeyRange(chatId))
+  );
+  if (!messages) return;
+
+  (messages as IndexedMessage[]).forEach((message) => index.messages.set(message.key, message));
+  index.changedUpTo = (stored as StoredChatIndex).changedUpTo;
+}
+
+/**
+ * Drops indexes that belong to another user or to chats the user is no
+ * longer a member of, in this tab and in IndexedDB
+ * @param email - Email of the signed-in user
+ * @param memberChats - Chats the user is a member of
+ */
+async function resetIndexes(email: string, memberChats: ChatRecord[]): Promise<void> {
+  if (indexOwner !== email) {
+    indexes.clear();
+    indexOwner = email;
+    storedChatIds = null;
+  }
+
+  const memberChatIds = new Set(memberChats.map((chat) => chat.id));
+  const staleChatIds = new Set(
+    Array.from(indexes.keys()).filter((chatId) => !memberChatIds.has(chatId))
+  );
+
+  if (!storedChatIds) {
+    const stored = ((await runTransaction("readonly", (transaction) =>
+      transaction.objectStore(CHAT_STORE).getAll()
+    )) ?? []) as StoredChatIndex[];
+
+    storedChatIds = new Set(stored.map((chat) => chat.chatId));
+    // Indexes stored for another user go too
+    stored
+      .filter((chat) => chat.owner !== email)
+      .forEach((chat) => staleChatIds.add(chat.chatId));
+  }
+
+  storedChatIds.forEach((chatId) => {
+    if (!memberChatIds.has(chatId)) staleChatIds.add(chatId);
+  });
+  await Promise.all(Array.from(staleChatIds).map(forgetIndex));
+}
+
+/**
+ * Throws a chat's index away, in this tab and in IndexedDB
+ * @param chatId - ID of the chat
+ */
+async function forgetIndex(chatId: string): Promise<void> {
+  indexes.delete(chatId);
+  storedChatIds?.delete(chatId);
+
+  await runTransaction("readwrite", (transaction) => {
+    transaction.objectStore(MESSAGE_STORE).delete(getChatKeyRange(chatId));
+    transaction.objectStore(CHAT_STORE).delete(chatId);
+  });
+}
+
+/**
+ * Keeps what the index needs of a message
+ * @param chatId - ID of the chat
+ * @param message - Message or thread reply
+ * @returns Indexed message
+ */
+function toIndexedMessage(chatId: string, message: MessageData): IndexedMessage {
+  return {
+    chatId,
+    key: message.threadId ? `${message.threadId}/${message.id}` : message.id,
+    id: message.id,
+    threadId: message.threadId ?? null,
+    senderId: message.senderId ?? null,
+    senderName: message.senderName ?? "",
+    text: message.text,
+    mediaUrl: message.mediaUrl ?? null,
+    timestamp: message.timestamp?.toMillis?.() ?? null,
+    isDeleted: !!message.deletedAt,
+  };
+}
+
+/**
+ * Checks a message against every part of a query
+ * @param message - Indexed message
+ * @param messages - The chat's index, to look up thread roots
+ * @param query - Parsed query
+ * @param senderUids - uids from the from: operator, or null if there is none
+ * @returns True if the message matches
+ */
+function matchesQuery(
+  message: IndexedMessage,
+  messages: Map<string, IndexedMessage>,
+  query: SearchQuery,
+  senderUids: Set<string> | null
+): boolean {
+  if (message.isDeleted) return false;
+  // Replies go with their root when it is deleted
+  if (message.threadId && messages.get(message.threadId)?.isDeleted) return false;
+
+  if (senderUids) {
+    const isFromSender = message.senderId
+      ? senderUids.has(message.senderId)
+      : query.from.includes(normalizeUsername(message.senderName));
+    if (!isFromSender) return false;
+  }
+
+  const timestamp = message.timestamp ?? Date.now();
+  if (query.before !== null && timestamp >= query.before) return false;
+  if (query.after !== null && timestamp < query.after) return false;
+
+  if (query.has.includes("image") && (!message.mediaUrl || VIDEO_URL_PATTERN.test(message.mediaUrl))) {
+    return false;
+  }
+  if (query.has.includes("link") && !LINK_PATTERN.test(message.text)) return false;
+
+  const text = foldText(message.text).text;
+  return query.terms.every((term) => findTerm(text, term, 0) !== -1);
+}
+
+/**
+ * Builds a result with a snippet centred on the first match
+ * @param chat - Chat the message is in
+ * @param email - Email of the signed-in user
+ * @param message - Matching message
+ * @param terms - Folded search terms
+ * @returns Search result
+ */
+function toSearchResult(
+  chat: ChatRecord,
+  email: string,
+  message: IndexedMessage,
+  terms: string[]
+): SearchResult {
+  const text = message.text.replace(/\s/g, " ");
+  const folded = foldText(text);
+  const matches: SearchHighlight[] = [];
+  const highlights: SearchHighlight[] = [];
+
+  terms.forEach((term) => {
+    let index = findTerm(folded.text, term, 0);
+
+    while (index !== -1) {
+      const end = index + term.length;
+      matches.push({
+        start: folded.offsets[index],
+        end: end < folded.offsets.length ? folded.offsets[end] : text.length,
+      });
+      index = findTerm(folded.text, term, end);
+    }
+  });
+  matches.sort((a, b) => a.start - b.start);
+
+  // Terms can overlap, e.g. "cat" and "cats"
+  matches.forEach((match) => {
+    const previous = highlights[highlights.length - 1];
+
+    if (previous && match.start <= previous.end) {
+      previous.end = Math.max(previous.end, match.end);
+    } else {
+      highlights.push({ ...match });
+    }
+  });
+
+  const firstMatch = highlights[0]?.start ?? 0;
+  const start = Math.max(0, firstMatch - SNIPPET_CONTEXT_BEFORE);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const snippet = text.slice(start, end).trim()
+    ? prefix + text.slice(start, end) + suffix
+    : getMessagePreview({ text: message.text, mediaUrl: message.mediaUrl ?? undefined });
+
+  return {
+    chatId: chat.id,
+    chatTitle: getChatTitle(chat, email),
+    messageId: message.id,
+    threadId: message.threadId,
+    senderId: message.senderId,
+    senderName:
+      (message.senderId && chat.participants?.[message.senderId]?.username) ||
+      message.senderName ||
+      "Unknown user",
+    timestamp: message.timestamp,
+    snippet,
+    highlights: highlights
+      .filter((match) => match.start >= start && match.end <= end)
+      .map((match) => ({
+        start: match.start - start + prefix.length,
+        end: match.end - start + prefix.length,
+      })),
+  };
+}
+
+/**
+ * Covers every stored message of a chat
+ * @param chatId - ID of the chat
+ * @returns Key range over the chat's [chatId, key] keys
+ */
+function getChatKeyRange(chatId: string): IDBKeyRange {
+  // Arrays sort after strings, so [chatId, []] comes after every key
+  return IDBKeyRange.bound([chatId], [chatId, []]);
+}
+
+/**
+ * Runs work against the search stores in one transaction. Storage errors
+ * are logged and swallowed because the in-memory index keeps working
+ * without them.
+ * @param mode - Transaction mode
+ * @param run - Function that issues requests on the transaction
+ * @returns Result of the request run returns, or null if IndexedDB is
+ * unavailable or failed
+ */
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  run: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | null> {
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    const transaction = db.transaction([MESSAGE_STORE, CHAT_STORE], mode);
+    const request = run(transaction);
+    const handleError = () => {
+      console.error("Error accessing the search index:", transaction.error);
+      resolve(null);
+    };
+
+    transaction.oncomplete = () => resolve(request ? request.result : null);
+    transaction.onerror = handleError;
+    transaction.onabort = handleError;
+  });
+}
+
+/**
+ * Opens the search database, creating the stores on first use
+ * @returns Database or null if IndexedDB is unavailable
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (database) return database;
+
+  database = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(MESSAGE_STORE, { keyPath: ["chatId", "key"] });
+      request.result.createObjectStore(CHAT_STORE, { keyPath: "chatId" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Error opening the search index:", request.error);
+      resolve(null);
+    };
+  });
+
+  return database;
+}
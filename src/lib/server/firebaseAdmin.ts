@@ -0,0 +1,37 @@
+import { cert, getApps, initializeApp, type App } from "firebase-admin/app";
+import { getAuth, type DecodedIdToken } from "firebase-admin/auth";
+
+/**
+ * Gets the Firebase Admin app the server talks to Firestore as. Requests
+ * made through it skip the security rules, so callers check access first.
+ * @returns Admin app, or null if no service account is configured
+ */
+export function getAdminApp(): App | null {
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const clientEmail = process.env.FIREBASE_CLIENT_EMAIL;
+  // Hosting dashboards usually store the key on one line with escaped newlines
+  const privateKey = process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, "\n");
+
+  if (!projectId || !clientEmail || !privateKey) return null;
+
+  // Route modules share one app for the life of the server process
+  return getApps()[0] ?? initializeApp({ credential: cert({ projectId, clientEmail, privateKey }) });
+}
+
+/**
+ * Checks the Firebase ID token a request carries as a bearer token
+ * @param app - Admin app to verify with
+ * @param request - Incoming request
+ * @returns The caller's decoded token, or null if it is missing or invalid
+ */
+export async function verifyCaller(app: App, request: Request): Promise<DecodedIdToken | null> {
+  const idToken = request.headers.get("authorization")?.match(/^Bearer (.+)$/)?.[1];
+  if (!idToken) return null;
+
+  try {
+    return await getAuth(app).verifyIdToken(idToken);
+  } catch (error) {
+    console.error("Error verifying ID token:", error);
+    return null;
+  }
+}
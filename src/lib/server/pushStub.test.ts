@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import webpush from "web-push";
+
+import type { PushSubscriptionData } from "../backend";
+import { createStubDevice, listStubPushes, receiveStubPush, removeStubDevice } from "./pushStub";
+
+const ORIGIN = "http://localhost:3000";
+const VAPID = { subject: "mailto:push@pagecord.test", ...webpush.generateVAPIDKeys() };
+
+/**
+ * Sends a push to a stub device the way the push route does
+ * @param subscription - Subscription the stub created
+ * @param payload - What the service worker should get
+ * @param vapid - Keys to sign the push with
+ * @returns Status the stub answered with
+ */
+function push(subscription: PushSubscriptionData, payload: unknown, vapid = VAPID) {
+  const { headers, body } = webpush.generateRequestDetails(subscription, JSON.stringify(payload), {
+    vapidDetails: vapid,
+    TTL: 60,
+    topic: "group",
+  });
+  const deviceId = subscription.endpoint.split("/").pop() ?? "";
+
+  return receiveStubPush(deviceId, new Headers(headers as Record<string, string>), body);
+}
+
+beforeEach(() => {
+  vi.stubEnv("NEXT_PUBLIC_VAPID_PUBLIC_KEY", VAPID.publicKey);
+});
+
+describe("stub push service", () => {
+  it("decrypts pushes and lists them for the device's owner only", async () => {
+    const subscription = createStubDevice(ORIGIN, "alice");
+
+    expect(await push(subscription, { title: "bob", body: "hi" })).toBe(201);
+    expect(listStubPushes("alice")).toMatchObject([
+      { uid: "alice", ttl: 60, topic: "group", payload: { title: "bob", body: "hi" } },
+    ]);
+    expect(listStubPushes("bob")).toEqual([]);
+  });
+
+  it("rejects pushes signed with another app's keys", async () => {
+    const subscription = createStubDevice(ORIGIN, "carol");
+    const otherKeys = { ...VAPID, ...webpush.generateVAPIDKeys() };
+
+    expect(await push(subscription, { title: "spam" }, otherKeys)).toBe(403);
+    expect(listStubPushes("carol")).toEqual([]);
+  });
+
+  it("only lets the owner remove a device, which then answers 410", async () => {
+    const subscription = createStubDevice(ORIGIN, "dave");
+    const deviceId = subscription.endpoint.split("/").pop() ?? "";
+
+    expect(removeStubDevice(deviceId, "erin")).toBe(false);
+    expect(removeStubDevice(deviceId, "dave")).toBe(true);
+    expect(await push(subscription, { title: "late" })).toBe(410);
+  });
+});
@@ -0,0 +1,192 @@
+import { createECDH, randomBytes, randomUUID } from "node:crypto";
+import { decrypt } from "http_ece";
+import { importJWK, jwtVerify } from "jose";
+import type { PushSubscriptionData } from "../backend";
+
+// Types
+export interface StubPush {
+  deviceId: string;
+  uid: string; // Owner of the device
+  receivedAt: string;
+  ttl: number;
+  urgency: string | null;
+  topic: string | null;
+  payload: unknown; // Decrypted and parsed, as the service worker would see it
+}
+
+interface StubDevice {
+  uid: string; // User who subscribed it
+  subscription: PushSubscriptionData;
+  privateKey: string; // P-256 private key, base64url
+  applicationServerKey: string | undefined; // VAPID key pushes must be signed with
+}
+
+interface StubState {
+  devices: Map<string, StubDevice>;
+  pushes: StubPush[]; // Newest first
+}
+
+// Constants
+export const STUB_ENDPOINT_PATH = "/api/push/stub";
+const MAX_STUB_PUSHES = 50;
+const AUTH_SECRET_LENGTH = 16;
+
+// Kept on globalThis so stub devices survive dev server reloads
+const globalState = globalThis as typeof globalThis & { pushStubState?: StubState };
+const state: StubState = (globalState.pushStubState ??= { devices: new Map(), pushes: [] });
+
+/**
+ * Checks whether the stub push service is turned on. It stands in for
+ * the browser's push service so delivery can be tested locally.
+ * @returns True if NEXT_PUBLIC_PUSH_STUB is "true"
+ */
+export function isPushStubEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_PUSH_STUB === "true";
+}
+
+/**
+ * Checks whether an endpoint belongs to this server's stub push service
+ * @param endpoint - Subscription endpoint
+ * @param origin - Origin this server is reached at
+ * @returns True if pushes to the endpoint would stay on this server
+ */
+export function isStubEndpoint(endpoint: string, origin: string): boolean {
+  return endpoint.startsWith(`${origin}${STUB_ENDPOINT_PATH}/`);
+}
+
+/**
+ * Subscribes a pretend device to the stub push service, with a key pair
+ * and auth secret like a browser creates when it subscribes
+ * @param origin - Origin this server is reached at
+ * @param uid - uid of the user subscribing
+ * @returns Subscription to store in place of a browser's
+ */
+export function createStubDevice(origin: string, uid: string): PushSubscriptionData {
+  const deviceId = randomUUID();
+  const keys = createECDH("prime256v1");
+  const subscription: PushSubscriptionData = {
+    endpoint: `${origin}${STUB_ENDPOINT_PATH}/${deviceId}`,
+    keys: {
+      p256dh: keys.generateKeys().toString("base64url"),
+      auth: randomBytes(AUTH_SECRET_LENGTH).toString("base64url"),
+    },
+  };
+
+  // Like a browser, the stub ties the subscription to the app's VAPID key
+  state.devices.set(deviceId, {
+    uid,
+    subscription,
+    privateKey: keys.getPrivateKey().toString("base64url"),
+    applicationServerKey: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY,
+  });
+  return subscription;
+}
+
+/**
+ * Unsubscribes a stub device. Later pushes to it get a 410, like pushes
+ * to a browser subscription that was dropped.
+ * @param deviceId - ID at the end of the device's endpoint
+ * @param uid - uid of the user unsubscribing
+ * @returns True if the device existed and belonged to the user
+ */
+export function removeStubDevice(deviceId: string, uid: string): boolean {
+  return state.devices.get(deviceId)?.uid === uid && state.devices.delete(deviceId);
+}
+
+/**
+ * Accepts a push the way a push service would, checking its VAPID
+ * signature and decrypting it so it can be inspected
+ * @param deviceId - ID at the end of the endpoint the push was sent to
+ * @param headers - Request headers
+ * @param body - Encrypted request body
+ * @returns HTTP status a push service would answer with
+ */
+export async function receiveStubPush(
+  deviceId: string,
+  headers: Headers,
+  body: Buffer
+): Promise<number> {
+  const device = state.devices.get(deviceId);
+  if (!device) return 410;
+
+  const authorization = headers.get("authorization") ?? "";
+  const isAppKey = authorization.endsWith(`, k=${device.applicationServerKey}`);
+  if (!isAppKey || !(await isValidVapidAuthorization(authorization, device.subscription.endpoint))) {
+    return 403;
+  }
+  if (headers.get("content-encoding") !== "aes128gcm" || !headers.get("ttl")) return 400;
+
+  let payload: unknown;
+  try {
+    const keys = createECDH("prime256v1");
+    keys.setPrivateKey(Buffer.from(device.privateKey, "base64url"));
+
+    const plain = decrypt(body, {
+      version: "aes128gcm",
+      privateKey: keys,
+      authSecret: device.subscription.keys.auth,
+    });
+    payload = JSON.parse(plain.toString("utf8"));
+  } catch {
+    return 400;
+  }
+
+  state.pushes.unshift({
+    deviceId,
+    uid: device.uid,
+    receivedAt: new Date().toISOString(),
+    ttl: Number(headers.get("ttl")),
+    urgency: headers.get("urgency"),
+    topic: headers.get("topic"),
+    payload,
+  });
+  state.pushes.length = Math.min(state.pushes.length, MAX_STUB_PUSHES);
+
+  return 201;
+}
+
+/**
+ * Lists the pushes the stub has received for a user's devices
+ * @param uid - uid of the user
+ * @returns Pushes, newest first
+ */
+export function listStubPushes(uid: string): StubPush[] {
+  return state.pushes.filter((push) => push.uid === uid);
+}
+
+/**
+ * Checks the VAPID Authorization header of a push the way a push service
+ * would
+ * @param authorization - Authorization header of the push
+ * @param endpoint - Endpoint the push was sent to
+ * @returns True if the token is signed by the key it names, is meant for
+ *   the endpoint and hasn't expired
+ */
+async function isValidVapidAuthorization(authorization: string, endpoint: string): Promise<boolean> {
+  const match = authorization.match(/^vapid t=([\w-]+\.[\w-]+\.[\w-]+), k=([\w-]+)$/);
+  if (!match) return false;
+
+  // The key is an uncompressed P-256 point: 0x04, then x and y
+  const point = Buffer.from(match[2], "base64url");
+  if (point.length !== 65) return false;
+
+  try {
+    const key = await importJWK(
+      {
+        kty: "EC",
+        crv: "P-256",
+        x: point.subarray(1, 33).toString("base64url"),
+        y: point.subarray(33).toString("base64url"),
+      },
+      "ES256"
+    );
+    await jwtVerify(match[1], key, {
+      algorithms: ["ES256"],
+      audience: new URL(endpoint).origin,
+      requiredClaims: ["exp"],
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,57 @@
+// Constants
+// Dev builds don't fingerprint their files, so caching them would serve stale code
+const SERVICE_WORKER_URL =
+  process.env.NODE_ENV === "production" ? "/sw.js" : "/sw.js?cache=off";
+// Workers from before the message existed never answer it
+const CLEAR_CACHES_TIMEOUT = 3000;
+
+/**
+ * Checks whether the browser supports service workers
+ * @returns True if the app can register one
+ */
+export function isServiceWorkerSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator;
+}
+
+/**
+ * Registers the app's service worker, which caches the app for offline
+ * use and shows push notifications. Registering again is harmless.
+ * @returns Registration once the worker is active
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration> {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  return navigator.serviceWorker.ready;
+}
+
+/**
+ * Finds the app's service worker registration without registering one
+ * @returns Registration, or undefined if there isn't one yet
+ */
+export async function getServiceWorkerRegistration(): Promise<
+  ServiceWorkerRegistration | undefined
+> {
+  return navigator.serviceWorker.getRegistration();
+}
+
+/**
+ * Asks the service worker to delete the pages and images it cached for
+ * the signed-in account
+ * @returns Promise that resolves once the worker is done, or gives up
+ */
+export async function clearUserCaches(): Promise<void> {
+  if (!isServiceWorkerSupported()) return;
+
+  const worker = (await getServiceWorkerRegistration())?.active;
+  if (!worker) return;
+
+  await new Promise<void>((resolve) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(resolve, CLEAR_CACHES_TIMEOUT);
+
+    channel.port1.onmessage = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    worker.postMessage({ type: "clear-user-caches" }, [channel.port2]);
+  });
+}
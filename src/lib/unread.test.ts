@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { Timestamp } from "firebase/firestore";
+import { createMemoryBackend, getBackend, setBackend, type UserData } from "./backend";
+import { sendMessage } from "./api";
+import { subscribeToMentionCounts } from "./unread";
+
+const ALICE: UserData = { uid: "alice", username: "alice", email: "alice@pagecord.test", photoURL: "" };
+const BOB: UserData = { uid: "bob", username: "bob", email: "bob@pagecord.test", photoURL: "" };
+
+const MINUTE = 60 * 1000;
+
+beforeEach(async () => {
+  const timestamp = Timestamp.fromMillis(Date.now() - MINUTE);
+  setBackend(
+    createMemoryBackend({
+      users: [ALICE, BOB],
+      chats: [
+        {
+          id: "group",
+          type: "group",
+          title: "Weekend plans",
+          ownerEmail: ALICE.email,
+          members: [ALICE.email, BOB.email],
+          participants: {},
+          createdAt: timestamp,
+          lastMessage: "saturday?",
+          lastMessageId: "plans",
+          lastUpdated: timestamp,
+        },
+      ],
+      messages: {
+        group: [{ id: "plans", senderId: ALICE.uid, text: "saturday?", timestamp }],
+      },
+    })
+  );
+
+  // Alice has read the chat up to its latest message
+  await getBackend().readMarkers.advance(ALICE.uid, "group", { messageId: "plans", timestamp });
+});
+
+describe("mention counts", () => {
+  it("counts mentions in thread replies", async () => {
+    await sendMessage("group", "@alice the lake?", BOB.uid, { kind: "thread", messageId: "plans" });
+
+    expect(await getBackend().messages.countUnreadMentions("group", ALICE.uid, null)).toBe(1);
+  });
+
+  it("picks up a thread mention in a chat that was already read", async () => {
+    const callback = vi.fn();
+    const unsubscribe = subscribeToMentionCounts(ALICE.uid, ALICE.email, callback);
+    await vi.waitFor(() => expect(callback).toHaveBeenLastCalledWith({ group: 0 }));
+
+    await sendMessage("group", "@alice the lake?", BOB.uid, { kind: "thread", messageId: "plans" });
+
+    await vi.waitFor(() => expect(callback).toHaveBeenLastCalledWith({ group: 1 }));
+    unsubscribe();
+  });
+});
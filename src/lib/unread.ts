@@ -0,0 +1,202 @@
+import { getBackend, isCoveredByMarker } from "./backend";
+import type { ChatRecord, ReceiptMarker, Unsubscribe } from "./backend";
+
+// Types
+interface UnreadTracker {
+  chats: ChatRecord[] | null; // null until the first snapshot
+  markers: Record<string, ReceiptMarker> | null;
+  counts: Record<string, number>;
+  mentionCounts: Record<string, number>; // Unread messages mentioning the user
+  countedAt: Record<string, string>; // Chat ID -> state its count was taken at
+  listeners: Set<() => void>;
+  unsubscribe: Unsubscribe;
+}
+
+// One tracker per signed-in user, shared by every subscriber, so the chat
+// list and the app badge don't count the same chats twice
+const trackers = new Map<string, UnreadTracker>();
+
+/**
+ * Subscribe to the number of unread messages in each of the user's chats.
+ * A chat is recounted only when a message arrives or the user reads it.
+ * @param uid - uid of the signed-in user
+ * @param email - Email of the signed-in user
+ * @param callback - Function to call with unread counts keyed by chat ID
+ * @returns Unsubscribe function
+ */
+export function subscribeToUnreadCounts(
+  uid: string,
+  email: string,
+  callback: (counts: Record<string, number>) => void
+): Unsubscribe {
+  return subscribeToTracker(uid, email, (tracker) => tracker.counts, callback);
+}
+
+/**
+ * Subscribe to the number of unread messages that mention the user in
+ * each of their chats, whether or not the chat is muted
+ * @param uid - uid of the signed-in user
+ * @param email - Email of the signed-in user
+ * @param callback - Function to call with mention counts keyed by chat ID
+ * @returns Unsubscribe function
+ */
+export function subscribeToMentionCounts(
+  uid: string,
+  email: string,
+  callback: (counts: Record<string, number>) => void
+): Unsubscribe {
+  return subscribeToTracker(uid, email, (tracker) => tracker.mentionCounts, callback);
+}
+
+/**
+ * Adds up unread counts
+ * @param counts - Unread counts keyed by chat ID
+ * @returns Total number of unread messages
+ */
+export function getTotalUnread(counts: Record<string, number>): number {
+  return Object.values(counts).reduce((total, count) => total + count, 0);
+}
+
+/**
+ * Adds a listener to the user's tracker, starting it if needed
+ * @param uid - uid of the user
+ * @param email - Email of the user
+ * @param select - Picks the counts the listener wants from the tracker
+ * @param callback - Function to call with the selected counts
+ * @returns Unsubscribe function that stops the tracker after its last listener
+ */
+function subscribeToTracker(
+  uid: string,
+  email: string,
+  select: (tracker: UnreadTracker) => Record<string, number>,
+  callback: (counts: Record<string, number>) => void
+): Unsubscribe {
+  if (!uid || !email) {
+    console.error("User ID and email are required");
+    return () => {};
+  }
+
+  const key = `${uid}:${email}`;
+  let tracker = trackers.get(key);
+
+  if (!tracker) {
+    tracker = startTracker(uid, email);
+    trackers.set(key, tracker);
+  }
+
+  const currentTracker = tracker;
+  const listener = () => callback({ ...select(currentTracker) });
+
+  currentTracker.listeners.add(listener);
+  if (currentTracker.chats && currentTracker.markers) listener();
+
+  return () => {
+    currentTracker.listeners.delete(listener);
+
+    if (currentTracker.listeners.size === 0) {
+      currentTracker.unsubscribe();
+      trackers.delete(key);
+    }
+  };
+}
+
+/**
+ * Starts following the user's chats and read markers
+ * @param uid - uid of the user
+ * @param email - Email of the user
+ * @returns Tracker with no listeners yet
+ */
+function startTracker(uid: string, email: string): UnreadTracker {
+  const { chats, readMarkers } = getBackend();
+  const tracker: UnreadTracker = {
+    chats: null,
+    markers: null,
+    counts: {},
+    mentionCounts: {},
+    countedAt: {},
+    listeners: new Set(),
+    unsubscribe: () => {},
+  };
+
+  const unsubscribeChats = chats.subscribeForMember(email, (memberChats) => {
+    tracker.chats = memberChats;
+    recount(tracker, uid);
+  });
+  const unsubscribeMarkers = readMarkers.subscribe(uid, (markers) => {
+    tracker.markers = markers;
+    recount(tracker, uid);
+  });
+
+  tracker.unsubscribe = () => {
+    unsubscribeChats();
+    unsubscribeMarkers();
+  };
+
+  return tracker;
+}
+
+/**
+ * Recounts the chats that changed since their last count
+ * @param tracker - Tracker to update
+ * @param uid - uid of the user
+ */
+function recount(tracker: UnreadTracker, uid: string): void {
+  const { chats, markers } = tracker;
+  if (!chats || !markers) return;
+
+  const notify = () => tracker.listeners.forEach((listener) => listener());
+  const chatIds = new Set(chats.map((chat) => chat.id));
+
+  // Forget chats the user has left
+  const keepCurrentChats = (counts: Record<string, number>) =>
+    Object.fromEntries(Object.entries(counts).filter(([chatId]) => chatIds.has(chatId)));
+  tracker.counts = keepCurrentChats(tracker.counts);
+  tracker.mentionCounts = keepCurrentChats(tracker.mentionCounts);
+
+  chats.forEach((chat) => {
+    const marker = markers[chat.id] ?? null;
+    // The preview changes when the latest message is deleted or restored
+    const state = [
+      chat.lastUpdated?.toMillis?.() ?? 0,
+      chat.lastThreadReplyAt?.toMillis?.() ?? 0,
+      chat.lastMessage,
+      marker?.messageId ?? "",
+    ].join(":");
+    if (tracker.countedAt[chat.id] === state) return;
+
+    tracker.countedAt[chat.id] = state;
+
+    // Chats without messages and chats read up to their latest message
+    // and thread reply need no query
+    const isRead =
+      isCoveredByMarker(marker ?? undefined, chat.lastUpdated) &&
+      (!chat.lastThreadReplyAt || isCoveredByMarker(marker ?? undefined, chat.lastThreadReplyAt));
+
+    if (!chat.lastMessage || isRead) {
+      tracker.counts = { ...tracker.counts, [chat.id]: 0 };
+      tracker.mentionCounts = { ...tracker.mentionCounts, [chat.id]: 0 };
+      return;
+    }
+
+    const { messages } = getBackend();
+
+    Promise.all([
+      messages.countUnread(chat.id, uid, marker),
+      messages.countUnreadMentions(chat.id, uid, marker),
+    ])
+      .then(([count, mentionCount]) => {
+        // A newer message or read arrived while counting
+        if (tracker.countedAt[chat.id] !== state) return;
+
+        tracker.counts = { ...tracker.counts, [chat.id]: count };
+        tracker.mentionCounts = { ...tracker.mentionCounts, [chat.id]: mentionCount };
+        notify();
+      })
+      .catch((error) => {
+        console.error("Error counting unread messages:", error);
+        delete tracker.countedAt[chat.id];
+      });
+  });
+
+  notify();
+}
@@ -0,0 +1,142 @@
+import { getBackend } from "./backend";
+import type { Unsubscribe, UserData } from "./backend";
+
+// Types
+interface DirectoryEntry {
+  profile: UserData | null;
+  listeners: Set<() => void>;
+  unsubscribe: Unsubscribe | null;
+}
+
+// One live listener per uid, shared by every subscriber that needs it.
+// Profiles stay cached after the last subscriber leaves so the next
+// subscriber renders instantly while the listener reconnects.
+const entries = new Map<string, DirectoryEntry>();
+const uidsByEmail = new Map<string, Promise<string | null>>();
+
+/**
+ * Returns the cached profile for a uid without subscribing
+ * @param uid - User's uid
+ * @returns Cached profile or null if it hasn't been loaded
+ */
+export function getCachedProfile(uid: string): UserData | null {
+  return entries.get(uid)?.profile ?? null;
+}
+
+/**
+ * Subscribe to live profiles for a set of users. Listeners are shared and
+ * reference counted, so overlapping subscriptions cost one read per user.
+ * @param uids - User IDs to watch
+ * @param callback - Function to call with every known profile, keyed by uid
+ * @returns Unsubscribe function
+ */
+export function subscribeToUserProfiles(
+  uids: string[],
+  callback: (profiles: Record<string, UserData>) => void
+): Unsubscribe {
+  const uniqueUids = Array.from(new Set(uids.filter(Boolean)));
+  let isScheduled = false;
+
+  // Coalesce bursts of profile snapshots into a single callback
+  const notify = () => {
+    if (isScheduled) return;
+    isScheduled = true;
+
+    queueMicrotask(() => {
+      isScheduled = false;
+      callback(collectProfiles(uniqueUids));
+    });
+  };
+
+  uniqueUids.forEach((uid) => retain(uid, notify));
+
+  if (uniqueUids.some((uid) => getCachedProfile(uid))) {
+    notify();
+  }
+
+  return () => {
+    uniqueUids.forEach((uid) => release(uid, notify));
+  };
+}
+
+/**
+ * Resolves a user's uid from their email address. Results are cached and
+ * concurrent lookups for the same email share one query.
+ * @param email - User's email address
+ * @returns uid or null if no user has that email
+ */
+export function resolveUidByEmail(email: string): Promise<string | null> {
+  const cached = uidsByEmail.get(email);
+  if (cached) {
+    return cached;
+  }
+
+  const lookup = getBackend()
+    .users.findByEmail(email)
+    .then((user) => user?.uid ?? null)
+    .catch((error) => {
+      console.error("Error resolving user by email:", error);
+      uidsByEmail.delete(email);
+      return null;
+    });
+
+  uidsByEmail.set(email, lookup);
+  return lookup;
+}
+
+/**
+ * Adds a listener for a uid, starting the profile snapshot if needed
+ * @param uid - User's uid
+ * @param listener - Function to call when the profile changes
+ */
+function retain(uid: string, listener: () => void): void {
+  let entry = entries.get(uid);
+
+  if (!entry) {
+    entry = { profile: null, listeners: new Set(), unsubscribe: null };
+    entries.set(uid, entry);
+  }
+
+  entry.listeners.add(listener);
+
+  if (!entry.unsubscribe) {
+    const currentEntry = entry;
+    currentEntry.unsubscribe = getBackend().users.subscribe(uid, (profile) => {
+      currentEntry.profile = profile;
+      currentEntry.listeners.forEach((notify) => notify());
+    });
+  }
+}
+
+/**
+ * Removes a listener for a uid, stopping the snapshot when none are left
+ * @param uid - User's uid
+ * @param listener - Listener passed to retain
+ */
+function release(uid: string, listener: () => void): void {
+  const entry = entries.get(uid);
+  if (!entry) return;
+
+  entry.listeners.delete(listener);
+
+  if (entry.listeners.size === 0 && entry.unsubscribe) {
+    entry.unsubscribe();
+    entry.unsubscribe = null;
+  }
+}
+
+/**
+ * Collects cached profiles for a set of uids
+ * @param uids - User IDs to collect
+ * @returns Profiles keyed by uid
+ */
+function collectProfiles(uids: string[]): Record<string, UserData> {
+  const profiles: Record<string, UserData> = {};
+
+  uids.forEach((uid) => {
+    const profile = getCachedProfile(uid);
+    if (profile) profiles[uid] = profile;
+  });
+
+  return profiles;
+}
@@ -0,0 +1,56 @@
+// Username rules. firestore.rules enforces the same rules in
+// isValidUsername(); update both together.
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+export const USERNAME_PATTERN = /^[a-z0-9_]+$/;
+export const RESERVED_USERNAMES = [
+  "admin",
+  "administrator",
+  "api",
+  "chat",
+  "help",
+  "login",
+  "me",
+  "moderator",
+  "null",
+  "pagecord",
+  "root",
+  "settings",
+  "support",
+  "system",
+  "undefined",
+];
+
+/**
+ * Normalizes user input into the stored username form
+ * @param input - Raw username input
+ * @returns Lowercased username without surrounding whitespace
+ */
+export function normalizeUsername(input: string): string {
+  return input.trim().toLowerCase();
+}
+
+/**
+ * Checks a normalized username against the shared rules
+ * @param username - Username from normalizeUsername
+ * @returns A user-facing error message, or null if the username is valid
+ */
+export function validateUsername(username: string): string | null {
+  if (username.length < USERNAME_MIN_LENGTH) {
+    return `Username must be at least ${USERNAME_MIN_LENGTH} characters.`;
+  }
+
+  if (username.length > USERNAME_MAX_LENGTH) {
+    return `Username must be at most ${USERNAME_MAX_LENGTH} characters.`;
+  }
+
+  if (!USERNAME_PATTERN.test(username)) {
+    return "Username can only contain letters, numbers and underscores.";
+  }
+
+  if (RESERVED_USERNAMES.includes(username)) {
+    return "That username is reserved.";
+  }
+
+  return null;
+}
@@ -0,0 +1,12 @@
+// http_ece ships without types; this covers the part the stub push service uses
+declare module "http_ece" {
+  import type { ECDH } from "node:crypto";
+
+  interface DecryptParams {
+    version: "aes128gcm";
+    privateKey: ECDH; // Receiving end's key pair
+    authSecret: string; // base64url
+  }
+
+  export function decrypt(buffer: Buffer, params: DecryptParams): Buffer;
+}
@@ -0,0 +1,482 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  Timestamp,
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+  type DocumentData,
+  type Firestore,
+} from "firebase/firestore";
+
+import {
+  ALICE,
+  BOB,
+  CAROL,
+  DAY,
+  DIRECT_ID,
+  GROUP_ID,
+  MINUTE,
+  createTestEnvironment,
+  fromNow,
+  seed,
+  seedChats,
+  signedInAs,
+} from "./environment";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createTestEnvironment();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seedChats(env);
+});
+
+function updateChat(db: Firestore, chatId: string, updates: DocumentData) {
+  return updateDoc(doc(db, "chats", chatId), updates);
+}
+
+describe("reading chats", () => {
+  it("lets members read a chat and its messages", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertSucceeds(getDoc(doc(db, "chats", GROUP_ID)));
+    await assertSucceeds(getDoc(doc(db, "chats", GROUP_ID, "messages", "hello")));
+  });
+
+  it("hides chats and messages from everyone else", async () => {
+    const db = signedInAs(env, CAROL);
+
+    await assertFails(getDoc(doc(db, "chats", GROUP_ID)));
+    await assertFails(getDoc(doc(db, "chats", GROUP_ID, "messages", "hello")));
+  });
+});
+
+describe("creating chats", () => {
+  const base = () => ({
+    members: [CAROL.email, ALICE.email],
+    participants: {
+      [CAROL.uid]: { username: CAROL.username, email: CAROL.email, photoURL: "" },
+      [ALICE.uid]: { username: ALICE.username, email: ALICE.email, photoURL: "" },
+    },
+    createdAt: serverTimestamp(),
+    lastMessage: "",
+    lastUpdated: serverTimestamp(),
+  });
+
+  it("lets a user start a direct chat they're in", async () => {
+    await assertSucceeds(
+      addDoc(collection(signedInAs(env, CAROL), "chats"), {
+        ...base(),
+        type: "direct",
+        dmKey: `${ALICE.uid}:${CAROL.uid}`,
+      })
+    );
+  });
+
+  it("rejects direct chats between other people", async () => {
+    await assertFails(
+      addDoc(collection(signedInAs(env, CAROL), "chats"), {
+        ...base(),
+        members: [ALICE.email, BOB.email],
+        type: "direct",
+        dmKey: `${ALICE.uid}:${BOB.uid}`,
+      })
+    );
+  });
+
+  it("lets a user start a group they own", async () => {
+    await assertSucceeds(
+      addDoc(collection(signedInAs(env, CAROL), "chats"), {
+        ...base(),
+        type: "group",
+        title: "Book club",
+        ownerEmail: CAROL.email,
+      })
+    );
+  });
+
+  it("rejects groups owned by someone else or without a title", async () => {
+    const db = signedInAs(env, CAROL);
+
+    await assertFails(
+      addDoc(collection(db, "chats"), { ...base(), type: "group", title: "x", ownerEmail: ALICE.email })
+    );
+    await assertFails(
+      addDoc(collection(db, "chats"), { ...base(), type: "group", title: "", ownerEmail: CAROL.email })
+    );
+  });
+});
+
+describe("group membership and settings", () => {
+  it("lets any member add people", async () => {
+    await assertSucceeds(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { members: arrayUnion(CAROL.email) })
+    );
+  });
+
+  it("lets only the owner remove others", async () => {
+    await seed(env, {
+      [`chats/${GROUP_ID}`]: {
+        type: "group",
+        title: "Weekend plans",
+        ownerEmail: ALICE.email,
+        members: [ALICE.email, BOB.email, CAROL.email],
+        createdAt: fromNow(-MINUTE),
+        lastUpdated: fromNow(-MINUTE),
+      },
+    });
+
+    await assertFails(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { members: arrayRemove(CAROL.email) })
+    );
+    await assertSucceeds(
+      updateChat(signedInAs(env, ALICE), GROUP_ID, { members: arrayRemove(CAROL.email) })
+    );
+  });
+
+  it("lets members leave", async () => {
+    await assertSucceeds(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { members: arrayRemove(BOB.email) })
+    );
+  });
+
+  it("rejects membership changes from outside", async () => {
+    await assertFails(
+      updateChat(signedInAs(env, CAROL), GROUP_ID, { members: arrayUnion(CAROL.email) })
+    );
+  });
+
+  it("lets only the owner change the title and edit window", async () => {
+    await assertFails(updateChat(signedInAs(env, BOB), GROUP_ID, { title: "Mine now" }));
+    await assertFails(updateChat(signedInAs(env, BOB), GROUP_ID, { editWindowMinutes: 1 }));
+    await assertSucceeds(
+      updateChat(signedInAs(env, ALICE), GROUP_ID, { title: "Road trip", editWindowMinutes: 15 })
+    );
+  });
+
+  it("hands ownership over only when the owner leaves", async () => {
+    await assertFails(updateChat(signedInAs(env, BOB), GROUP_ID, { ownerEmail: BOB.email }));
+    await assertSucceeds(
+      updateChat(signedInAs(env, ALICE), GROUP_ID, {
+        members: arrayRemove(ALICE.email),
+        ownerEmail: BOB.email,
+      })
+    );
+  });
+
+  it("rejects changes to direct chat members", async () => {
+    await assertFails(
+      updateChat(signedInAs(env, ALICE), DIRECT_ID, { members: arrayUnion(CAROL.email) })
+    );
+  });
+});
+
+describe("participants", () => {
+  const entry = (user: typeof ALICE, photoURL = "") => ({
+    username: user.username,
+    email: user.email,
+    photoURL,
+  });
+
+  it("lets a member refresh their own entry", async () => {
+    await assertSucceeds(
+      updateChat(signedInAs(env, BOB), GROUP_ID, {
+        [`participants.${BOB.uid}`]: entry(BOB, "https://example.com/bob.png"),
+      })
+    );
+  });
+
+  it("rejects an own entry under another name or email", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertFails(
+      updateChat(db, GROUP_ID, { [`participants.${BOB.uid}`]: { ...entry(BOB), username: "alice" } })
+    );
+    await assertFails(
+      updateChat(db, GROUP_ID, { [`participants.${BOB.uid}`]: { ...entry(BOB), email: CAROL.email } })
+    );
+  });
+
+  it("rejects changes to another member's entry", async () => {
+    await assertFails(
+      updateChat(signedInAs(env, BOB), GROUP_ID, {
+        [`participants.${ALICE.uid}`]: { ...entry(ALICE), username: "bob" },
+      })
+    );
+  });
+
+  it("adds entries only together with their member", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertFails(updateChat(db, GROUP_ID, { [`participants.${CAROL.uid}`]: entry(CAROL) }));
+    await assertFails(
+      updateChat(db, GROUP_ID, {
+        members: arrayUnion("dave@pagecord.test"),
+        [`participants.${CAROL.uid}`]: entry(CAROL),
+      })
+    );
+    await assertSucceeds(
+      updateChat(db, GROUP_ID, {
+        members: arrayUnion(CAROL.email),
+        [`participants.${CAROL.uid}`]: entry(CAROL),
+      })
+    );
+  });
+
+  it("drops entries only together with their member", async () => {
+    await assertFails(
+      updateChat(signedInAs(env, ALICE), GROUP_ID, { [`participants.${BOB.uid}`]: deleteField() })
+    );
+    await assertSucceeds(
+      updateChat(signedInAs(env, ALICE), GROUP_ID, {
+        members: arrayRemove(BOB.email),
+        [`participants.${BOB.uid}`]: deleteField(),
+      })
+    );
+  });
+});
+
+describe("chat preview", () => {
+  it("rejects a preview without its message", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertFails(updateChat(db, GROUP_ID, { lastMessage: "Alice owes me $50" }));
+    await assertFails(
+      updateChat(db, GROUP_ID, { lastMessage: "hello!", lastMessageId: "hello" })
+    );
+    await assertFails(updateChat(db, GROUP_ID, { lastUpdated: serverTimestamp() }));
+    await assertFails(
+      updateChat(db, GROUP_ID, {
+        lastMessage: "ghost",
+        lastMessageId: "missing",
+        lastUpdated: serverTimestamp(),
+      })
+    );
+  });
+
+  it("lets the preview follow a change to the message it shows", async () => {
+    const db = signedInAs(env, ALICE);
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, "chats", GROUP_ID, "messages", "hello"), {
+      deletedAt: serverTimestamp(),
+      deletedBy: ALICE.uid,
+      purgeAfter: fromNow(30 * DAY),
+    });
+    batch.update(doc(db, "chats", GROUP_ID), {
+      lastMessage: "🗑️ Message deleted",
+      lastMessageId: "hello",
+    });
+
+    await assertSucceeds(batch.commit());
+  });
+
+  it("rejects moving lastUpdated when the message isn't new", async () => {
+    const db = signedInAs(env, ALICE);
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, "chats", GROUP_ID, "messages", "hello"), {
+      deletedAt: serverTimestamp(),
+      deletedBy: ALICE.uid,
+      purgeAfter: fromNow(30 * DAY),
+    });
+    batch.update(doc(db, "chats", GROUP_ID), {
+      lastMessage: "🗑️ Message deleted",
+      lastMessageId: "hello",
+      lastUpdated: serverTimestamp(),
+    });
+
+    await assertFails(batch.commit());
+  });
+});
+
+describe("delivery and read receipts", () => {
+  const marker = () => ({ messageId: "hello", timestamp: Timestamp.now() });
+
+  it("lets a member move their own markers", async () => {
+    await assertSucceeds(
+      updateChat(signedInAs(env, BOB), GROUP_ID, {
+        [`deliveredTo.${BOB.uid}`]: marker(),
+        [`readBy.${BOB.uid}`]: marker(),
+      })
+    );
+  });
+
+  it("rejects moving someone else's markers", async () => {
+    await assertFails(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { [`deliveredTo.${ALICE.uid}`]: marker() })
+    );
+    await assertFails(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { [`readBy.${ALICE.uid}`]: marker() })
+    );
+  });
+
+  it("rejects extra fields on a marker", async () => {
+    await assertFails(
+      updateChat(signedInAs(env, BOB), GROUP_ID, {
+        [`deliveredTo.${BOB.uid}`]: { ...marker(), count: 1 },
+      })
+    );
+  });
+
+  it("rejects read receipts from members who turned them off", async () => {
+    await updateDoc(doc(signedInAs(env, BOB), "users", BOB.uid), { "privacy.readReceipts": false });
+
+    await assertSucceeds(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { [`deliveredTo.${BOB.uid}`]: marker() })
+    );
+    await assertFails(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { [`readBy.${BOB.uid}`]: marker() })
+    );
+  });
+});
+
+describe("typing indicators", () => {
+  it("lets a member set and clear their own short-lived entry", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertSucceeds(updateChat(db, GROUP_ID, { [`typing.${BOB.uid}`]: fromNow(6000) }));
+    await assertSucceeds(updateChat(db, GROUP_ID, { [`typing.${BOB.uid}`]: deleteField() }));
+  });
+
+  it("rejects entries that outlive a minute", async () => {
+    await assertFails(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { [`typing.${BOB.uid}`]: fromNow(5 * MINUTE) })
+    );
+  });
+
+  it("rejects typing as someone else or from outside", async () => {
+    await assertFails(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { [`typing.${ALICE.uid}`]: fromNow(6000) })
+    );
+    await assertFails(
+      updateChat(signedInAs(env, CAROL), GROUP_ID, { [`typing.${CAROL.uid}`]: fromNow(6000) })
+    );
+  });
+});
+
+describe("pins", () => {
+  /**
+   * Pins or unpins a message the way the pin repository does: the pin and
+   * the chat's pinCount in one write
+   */
+  function setPinned(db: Firestore, messageId: string, pinCount: number, pinnedBy?: string) {
+    const batch = writeBatch(db);
+    const pinRef = doc(db, "chats", GROUP_ID, "pins", messageId);
+
+    if (pinnedBy) {
+      batch.set(pinRef, { pinnedBy, pinnedAt: serverTimestamp() });
+    } else {
+      batch.delete(pinRef);
+    }
+    batch.update(doc(db, "chats", GROUP_ID), { pinCount, lastPinChange: messageId });
+    return batch.commit();
+  }
+
+  async function seedPins(count: number) {
+    await seed(
+      env,
+      Object.fromEntries(
+        Array.from({ length: count }, (_, index) => [
+          `chats/${GROUP_ID}/pins/pin${index}`,
+          { pinnedBy: ALICE.uid, pinnedAt: Timestamp.now() },
+        ])
+      )
+    );
+    await env.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore() as unknown as Firestore;
+      await updateDoc(doc(db, "chats", GROUP_ID), { pinCount: count });
+    });
+  }
+
+  it("lets a member pin a message, counting it on the chat", async () => {
+    await assertSucceeds(setPinned(signedInAs(env, BOB), "hello", 1, BOB.uid));
+  });
+
+  it("rejects pins that don't move the count", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertFails(
+      setDoc(doc(db, "chats", GROUP_ID, "pins", "hello"), {
+        pinnedBy: BOB.uid,
+        pinnedAt: serverTimestamp(),
+      })
+    );
+    await assertFails(setPinned(db, "hello", 2, BOB.uid));
+  });
+
+  it("rejects moving the count without a pin", async () => {
+    await assertFails(
+      updateChat(signedInAs(env, BOB), GROUP_ID, { pinCount: 1, lastPinChange: "hello" })
+    );
+    await assertFails(updateChat(signedInAs(env, BOB), GROUP_ID, { pinCount: -5 }));
+  });
+
+  it("rejects a 26th pin", async () => {
+    await seedPins(25);
+
+    await assertFails(setPinned(signedInAs(env, BOB), "hello", 26, BOB.uid));
+  });
+
+  it("rejects pins of missing messages or on someone else's behalf", async () => {
+    await assertFails(setPinned(signedInAs(env, BOB), "missing", 1, BOB.uid));
+    await assertFails(setPinned(signedInAs(env, BOB), "hello", 1, ALICE.uid));
+  });
+
+  it("rejects non-members", async () => {
+    await assertFails(setPinned(signedInAs(env, CAROL), "hello", 1, CAROL.uid));
+  });
+
+  it("lets members unpin, counting it off, but not outsiders", async () => {
+    await seedPins(2);
+
+    await assertFails(setPinned(signedInAs(env, CAROL), "pin1", 1));
+    await assertFails(deleteDoc(doc(signedInAs(env, BOB), "chats", GROUP_ID, "pins", "pin1")));
+    await assertSucceeds(setPinned(signedInAs(env, BOB), "pin1", 1));
+  });
+
+  it("keeps the count at zero when unpinning pins from before it existed", async () => {
+    await seed(env, {
+      [`chats/${GROUP_ID}/pins/hello`]: { pinnedBy: ALICE.uid, pinnedAt: Timestamp.now() },
+    });
+
+    await assertSucceeds(setPinned(signedInAs(env, BOB), "hello", 0));
+  });
+
+  it("rejects chats created with a pin count", async () => {
+    await assertFails(
+      setDoc(doc(signedInAs(env, CAROL), "chats", "new"), {
+        type: "group",
+        title: "Book club",
+        ownerEmail: CAROL.email,
+        members: [CAROL.email],
+        participants: { [CAROL.uid]: { username: CAROL.username, email: CAROL.email, photoURL: "" } },
+        createdAt: serverTimestamp(),
+        lastMessage: "",
+        lastUpdated: serverTimestamp(),
+        pinCount: -100,
+      })
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import { readFileSync } from "node:fs";
+import {
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import { Timestamp, doc, setDoc, type DocumentData, type Firestore } from "firebase/firestore";
+
+// Types
+export interface TestUser {
+  uid: string;
+  email: string;
+  username: string;
+}
+
+// Constants
+// The demo- prefix keeps the emulator from reaching for a real project
+export const PROJECT_ID = "demo-pagecord";
+
+export const ALICE: TestUser = { uid: "alice", email: "alice@pagecord.test", username: "alice" };
+export const BOB: TestUser = { uid: "bob", email: "bob@pagecord.test", username: "bob" };
+// Signed in, but not a member of any seeded chat
+export const CAROL: TestUser = { uid: "carol", email: "carol@pagecord.test", username: "carol" };
+
+export const GROUP_ID = "group";
+export const DIRECT_ID = "direct";
+
+export const MINUTE = 60 * 1000;
+export const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Starts a rules test environment against the running Firestore emulator
+ * @returns Environment loaded with firestore.rules
+ */
+export function createTestEnvironment(): Promise<RulesTestEnvironment> {
+  return initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+}
+
+/**
+ * Opens Firestore as a signed-in user, subject to the rules
+ * @param env - Test environment
+ * @param user - User to sign in as
+ * @returns Firestore for the modular API
+ */
+export function signedInAs(env: RulesTestEnvironment, user: TestUser): Firestore {
+  // The test SDK hands out the compat instance, which the modular API accepts
+  return env.authenticatedContext(user.uid, { email: user.email }).firestore() as unknown as Firestore;
+}
+
+/**
+ * Opens Firestore without signing in
+ * @param env - Test environment
+ * @returns Firestore for the modular API
+ */
+export function signedOut(env: RulesTestEnvironment): Firestore {
+  return env.unauthenticatedContext().firestore() as unknown as Firestore;
+}
+
+/**
+ * Writes documents with the rules turned off
+ * @param env - Test environment
+ * @param documents - Document data keyed by path
+ */
+export async function seed(
+  env: RulesTestEnvironment,
+  documents: Record<string, DocumentData>
+): Promise<void> {
+  await env.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore() as unknown as Firestore;
+
+    for (const [path, data] of Object.entries(documents)) {
+      await setDoc(doc(db, path), data);
+    }
+  });
+}
+
+/**
+ * Seeds the users, a group owned by Alice with Bob in it, and a direct
+ * chat between them, each with one message from Alice
+ * @param env - Test environment
+ */
+export async function seedChats(env: RulesTestEnvironment): Promise<void> {
+  const now = Timestamp.now();
+  const participants = Object.fromEntries(
+    [ALICE, BOB].map((user) => [
+      user.uid,
+      { username: user.username, email: user.email, photoURL: "" },
+    ])
+  );
+
+  await seed(env, {
+    ...Object.fromEntries(
+      [ALICE, BOB, CAROL].flatMap((user) => [
+        [`users/${user.uid}`, { ...user, photoURL: "" }],
+        [`usernames/${user.username}`, { uid: user.uid, createdAt: now }],
+      ])
+    ),
+    [`chats/${GROUP_ID}`]: {
+      type: "group",
+      title: "Weekend plans",
+      ownerEmail: ALICE.email,
+      members: [ALICE.email, BOB.email],
+      participants,
+      createdAt: now,
+      lastUpdated: now,
+      lastMessage: "hello",
+      lastMessageId: "hello",
+    },
+    [`chats/${GROUP_ID}/messages/hello`]: { senderId: ALICE.uid, text: "hello", timestamp: now },
+    [`chats/${DIRECT_ID}`]: {
+      type: "direct",
+      dmKey: `${ALICE.uid}:${BOB.uid}`,
+      members: [ALICE.email, BOB.email],
+      participants,
+      createdAt: now,
+      lastUpdated: now,
+      lastMessage: "hi",
+      lastMessageId: "hi",
+    },
+    [`chats/${DIRECT_ID}/messages/hi`]: { senderId: ALICE.uid, text: "hi", timestamp: now },
+  });
+}
+
+/**
+ * Builds a timestamp relative to now
+ * @param offset - Milliseconds from now; negative for the past
+ * @returns Timestamp
+ */
+export function fromNow(offset: number): Timestamp {
+  return Timestamp.fromMillis(Date.now() + offset);
+}
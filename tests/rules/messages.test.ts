@@ -0,0 +1,512 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  FieldPath,
+  arrayRemove,
+  arrayUnion,
+  collectionGroup,
+  deleteField,
+  doc,
+  getDocs,
+  increment,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+  type DocumentData,
+  type Firestore,
+} from "firebase/firestore";
+
+import {
+  ALICE,
+  BOB,
+  CAROL,
+  DAY,
+  GROUP_ID,
+  MINUTE,
+  createTestEnvironment,
+  fromNow,
+  seed,
+  seedChats,
+  signedInAs,
+} from "./environment";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createTestEnvironment();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seedChats(env);
+});
+
+/**
+ * Sends a message the way messages.add does: the message and the chat
+ * summary pointing at it in one write
+ */
+function sendMessage(db: Firestore, messageId: string, message: DocumentData) {
+  const batch = writeBatch(db);
+  batch.set(doc(db, "chats", GROUP_ID, "messages", messageId), {
+    ...message,
+    timestamp: serverTimestamp(),
+  });
+  batch.update(doc(db, "chats", GROUP_ID), {
+    lastMessage: message.text,
+    lastMessageId: messageId,
+    lastUpdated: serverTimestamp(),
+  });
+  return batch.commit();
+}
+
+/**
+ * Edits a message the way messages.edit does: the old text as a revision
+ * and the new text on the message in one write
+ */
+function editMessage(db: Firestore, messageId: string, oldText: string, text: string, uid: string) {
+  const messageRef = doc(db, "chats", GROUP_ID, "messages", messageId);
+  const batch = writeBatch(db);
+  batch.set(doc(messageRef, "revisions", "1"), {
+    text: oldText,
+    editedAt: serverTimestamp(),
+    editedBy: uid,
+  });
+  batch.update(messageRef, {
+    text,
+    isEdited: true,
+    editedAt: serverTimestamp(),
+    revisionCount: 1,
+  });
+  return batch.commit();
+}
+
+function react(db: Firestore, messageId: string, emoji: string, uid: string, hasReacted = true) {
+  return updateDoc(
+    doc(db, "chats", GROUP_ID, "messages", messageId),
+    new FieldPath("reactions", emoji),
+    hasReacted ? arrayUnion(uid) : arrayRemove(uid)
+  );
+}
+
+function softDelete(db: Firestore, messageId: string, uid: string, purgeAfter = fromNow(30 * DAY)) {
+  return updateDoc(doc(db, "chats", GROUP_ID, "messages", messageId), {
+    deletedAt: serverTimestamp(),
+    deletedBy: uid,
+    purgeAfter,
+  });
+}
+
+describe("sending messages", () => {
+  it("lets a member send as themselves", async () => {
+    await assertSucceeds(
+      sendMessage(signedInAs(env, BOB), "new", { senderId: BOB.uid, text: "hey" })
+    );
+  });
+
+  it("rejects senders who aren't members", async () => {
+    await assertFails(
+      sendMessage(signedInAs(env, CAROL), "new", { senderId: CAROL.uid, text: "hey" })
+    );
+  });
+
+  it("rejects sending as someone else", async () => {
+    await assertFails(
+      sendMessage(signedInAs(env, BOB), "new", { senderId: ALICE.uid, text: "hey" })
+    );
+  });
+
+  it("rejects a message without the chat summary update", async () => {
+    const db = signedInAs(env, BOB);
+    const batch = writeBatch(db);
+    batch.set(doc(db, "chats", GROUP_ID, "messages", "new"), {
+      senderId: BOB.uid,
+      text: "hey",
+      timestamp: serverTimestamp(),
+    });
+
+    await assertFails(batch.commit());
+  });
+
+  it("rejects denormalized sender names", async () => {
+    await assertFails(
+      sendMessage(signedInAs(env, BOB), "new", {
+        senderId: BOB.uid,
+        senderName: "alice",
+        text: "hey",
+      })
+    );
+  });
+
+  it("accepts replies to messages in the chat only", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertSucceeds(
+      sendMessage(db, "reply", { senderId: BOB.uid, text: "yes", replyTo: "hello" })
+    );
+    await assertFails(
+      sendMessage(db, "stray", { senderId: BOB.uid, text: "yes", replyTo: "missing" })
+    );
+  });
+
+  it("accepts mentions of others but not of the sender", async () => {
+    const db = signedInAs(env, BOB);
+    const mention = (user: typeof ALICE) => ({
+      mentions: [{ uid: user.uid, username: user.username }],
+      mentionedUids: [user.uid],
+    });
+
+    await assertSucceeds(
+      sendMessage(db, "ping", { senderId: BOB.uid, text: "@alice", ...mention(ALICE) })
+    );
+    await assertFails(
+      sendMessage(db, "self", { senderId: BOB.uid, text: "@bob", ...mention(BOB) })
+    );
+  });
+});
+
+describe("message fields", () => {
+  it("rejects messages created with reactions or other members' state", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertFails(
+      sendMessage(db, "m1", { senderId: BOB.uid, text: "vote", reactions: { "👍": [ALICE.uid] } })
+    );
+    await assertFails(
+      sendMessage(db, "m2", { senderId: BOB.uid, text: "gone", deletedAt: fromNow(0), deletedBy: ALICE.uid })
+    );
+    await assertFails(sendMessage(db, "m3", { senderId: BOB.uid, text: "hi", pinned: true }));
+  });
+
+  it("accepts media messages", async () => {
+    await assertSucceeds(
+      sendMessage(signedInAs(env, BOB), "m1", {
+        senderId: BOB.uid,
+        text: "",
+        mediaUrl: "https://res.cloudinary.com/demo/image/upload/cat.jpg",
+        mediaId: "cat",
+      })
+    );
+  });
+});
+
+describe("editing messages", () => {
+  it("lets the author edit with a revision", async () => {
+    await assertSucceeds(editMessage(signedInAs(env, ALICE), "hello", "hello", "hi all", ALICE.uid));
+  });
+
+  it("rejects edits by other members", async () => {
+    await assertFails(editMessage(signedInAs(env, BOB), "hello", "hello", "hacked", BOB.uid));
+  });
+
+  it("rejects edits that skip the revision", async () => {
+    await assertFails(
+      updateDoc(doc(signedInAs(env, ALICE), "chats", GROUP_ID, "messages", "hello"), {
+        text: "hi all",
+        isEdited: true,
+        editedAt: serverTimestamp(),
+        revisionCount: 1,
+      })
+    );
+  });
+
+  it("rejects edits after the group's edit window", async () => {
+    await seed(env, {
+      [`chats/${GROUP_ID}/messages/old`]: {
+        senderId: ALICE.uid,
+        text: "old",
+        timestamp: fromNow(-10 * MINUTE),
+      },
+    });
+    await updateDocAsOwner({ editWindowMinutes: 5 });
+
+    await assertFails(editMessage(signedInAs(env, ALICE), "old", "old", "new", ALICE.uid));
+  });
+
+  it("lets legacy authors edit messages that carry their name", async () => {
+    await seed(env, {
+      [`chats/${GROUP_ID}/messages/legacy`]: {
+        senderName: ALICE.username,
+        text: "old",
+        timestamp: fromNow(-MINUTE),
+      },
+    });
+
+    await assertSucceeds(editMessage(signedInAs(env, ALICE), "legacy", "old", "new", ALICE.uid));
+    await assertFails(editMessage(signedInAs(env, BOB), "legacy", "old", "new", BOB.uid));
+  });
+});
+
+describe("deleting and restoring messages", () => {
+  it("lets the author leave a tombstone", async () => {
+    await assertSucceeds(softDelete(signedInAs(env, ALICE), "hello", ALICE.uid));
+  });
+
+  it("lets the group owner delete anyone's message", async () => {
+    await seed(env, {
+      [`chats/${GROUP_ID}/messages/fromBob`]: {
+        senderId: BOB.uid,
+        text: "oops",
+        timestamp: fromNow(-MINUTE),
+      },
+    });
+
+    await assertSucceeds(softDelete(signedInAs(env, ALICE), "fromBob", ALICE.uid));
+  });
+
+  it("rejects deletes by members who neither wrote it nor own the group", async () => {
+    await assertFails(softDelete(signedInAs(env, BOB), "hello", BOB.uid));
+  });
+
+  it("rejects a retention period shorter than 30 days", async () => {
+    await assertFails(softDelete(signedInAs(env, ALICE), "hello", ALICE.uid, fromNow(DAY)));
+  });
+
+  it("lets whoever deleted a message undo it right away", async () => {
+    await seedDeleted("undo", ALICE.uid, fromNow(-5000));
+    const restore = (db: Firestore) =>
+      updateDoc(doc(db, "chats", GROUP_ID, "messages", "undo"), {
+        deletedAt: deleteField(),
+        deletedBy: deleteField(),
+        purgeAfter: deleteField(),
+        restoredAt: serverTimestamp(),
+      });
+
+    await assertFails(restore(signedInAs(env, BOB)));
+    await assertSucceeds(restore(signedInAs(env, ALICE)));
+  });
+
+  it("rejects an undo that doesn't stamp when it happened", async () => {
+    await seedDeleted("undo", ALICE.uid, fromNow(-5000));
+    const restore = (restoredAt?: unknown) =>
+      updateDoc(doc(signedInAs(env, ALICE), "chats", GROUP_ID, "messages", "undo"), {
+        deletedAt: deleteField(),
+        deletedBy: deleteField(),
+        purgeAfter: deleteField(),
+        ...(restoredAt === undefined ? {} : { restoredAt }),
+      });
+
+    await assertFails(restore());
+    await assertFails(restore(fromNow(-DAY)));
+  });
+
+  it("rejects undoing a delete after 30 seconds", async () => {
+    await seedDeleted("late", ALICE.uid, fromNow(-MINUTE));
+
+    await assertFails(
+      updateDoc(doc(signedInAs(env, ALICE), "chats", GROUP_ID, "messages", "late"), {
+        deletedAt: deleteField(),
+        deletedBy: deleteField(),
+        purgeAfter: deleteField(),
+        restoredAt: serverTimestamp(),
+      })
+    );
+  });
+
+  it("lets any member purge content only after the retention period", async () => {
+    await seedDeleted("expired", ALICE.uid, fromNow(-31 * DAY), fromNow(-DAY));
+    await seedDeleted("retained", ALICE.uid, fromNow(-DAY), fromNow(29 * DAY));
+    const purge = (messageId: string) =>
+      updateDoc(doc(signedInAs(env, BOB), "chats", GROUP_ID, "messages", messageId), {
+        text: "",
+        mediaUrl: deleteField(),
+        mediaId: deleteField(),
+        revisionCount: deleteField(),
+        purgeAfter: deleteField(),
+      });
+
+    await assertSucceeds(purge("expired"));
+    await assertFails(purge("retained"));
+  });
+});
+
+describe("reactions", () => {
+  it("lets a member add and remove their own reaction", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertSucceeds(react(db, "hello", "👍", BOB.uid));
+    await assertSucceeds(react(signedInAs(env, ALICE), "hello", "👍", ALICE.uid));
+    await assertSucceeds(react(db, "hello", "👍", BOB.uid, false));
+  });
+
+  it("makes the last reactor drop the emoji instead of leaving it empty", async () => {
+    await seed(env, {
+      [`chats/${GROUP_ID}/messages/liked`]: {
+        senderId: ALICE.uid,
+        text: "liked",
+        timestamp: fromNow(-MINUTE),
+        reactions: { "👍": [BOB.uid] },
+      },
+    });
+    const dropEmoji = (db: Firestore) =>
+      updateDoc(
+        doc(db, "chats", GROUP_ID, "messages", "liked"),
+        new FieldPath("reactions", "👍"),
+        deleteField()
+      );
+
+    await assertFails(react(signedInAs(env, BOB), "liked", "👍", BOB.uid, false));
+    await assertFails(dropEmoji(signedInAs(env, ALICE)));
+    await assertSucceeds(dropEmoji(signedInAs(env, BOB)));
+  });
+
+  it("rejects reacting on someone else's behalf", async () => {
+    await assertFails(react(signedInAs(env, BOB), "hello", "👍", ALICE.uid));
+  });
+
+  it("rejects non-members", async () => {
+    await assertFails(react(signedInAs(env, CAROL), "hello", "👍", CAROL.uid));
+  });
+
+  it("rejects reactions on deleted messages", async () => {
+    await seedDeleted("gone", ALICE.uid, fromNow(-MINUTE));
+
+    await assertFails(react(signedInAs(env, BOB), "gone", "👍", BOB.uid));
+  });
+
+  it("rejects a 21st emoji", async () => {
+    await seed(env, {
+      [`chats/${GROUP_ID}/messages/busy`]: {
+        senderId: ALICE.uid,
+        text: "busy",
+        timestamp: fromNow(-MINUTE),
+        reactions: Object.fromEntries(
+          Array.from({ length: 20 }, (_, index) => [`e${index}`, [ALICE.uid]])
+        ),
+      },
+    });
+    const db = signedInAs(env, BOB);
+
+    await assertSucceeds(react(db, "busy", "e0", BOB.uid));
+    await assertFails(react(db, "busy", "🎉", BOB.uid));
+  });
+});
+
+describe("thread replies", () => {
+  function reply(db: Firestore, uid: string, bumpsRoot = true) {
+    const rootRef = doc(db, "chats", GROUP_ID, "messages", "hello");
+    const batch = writeBatch(db);
+    batch.set(doc(rootRef, "thread", "reply"), {
+      senderId: uid,
+      text: "in thread",
+      threadId: "hello",
+      timestamp: serverTimestamp(),
+    });
+    if (bumpsRoot) {
+      batch.update(rootRef, {
+        threadReplyCount: increment(1),
+        lastThreadReplyAt: serverTimestamp(),
+      });
+    }
+    batch.update(doc(db, "chats", GROUP_ID), { lastThreadReplyAt: serverTimestamp() });
+    return batch.commit();
+  }
+
+  it("lets a member reply while counting the reply on the root", async () => {
+    await assertSucceeds(reply(signedInAs(env, BOB), BOB.uid));
+  });
+
+  it("rejects replies that don't count themselves", async () => {
+    await assertFails(reply(signedInAs(env, BOB), BOB.uid, false));
+  });
+
+  it("rejects non-members", async () => {
+    await assertFails(reply(signedInAs(env, CAROL), CAROL.uid));
+  });
+
+  it("rejects stamping the chat with any time but now", async () => {
+    await assertFails(
+      updateDoc(doc(signedInAs(env, BOB), "chats", GROUP_ID), { lastThreadReplyAt: fromNow(DAY) })
+    );
+  });
+});
+
+describe("legacy sender claims", () => {
+  beforeEach(async () => {
+    await seed(env, {
+      [`chats/${GROUP_ID}/messages/legacy`]: {
+        senderName: "oldalice",
+        text: "from before uids",
+        timestamp: fromNow(-DAY),
+      },
+      "usernameRedirects/oldalice": {
+        uid: ALICE.uid,
+        username: ALICE.username,
+        expiresAt: fromNow(30 * DAY),
+      },
+    });
+  });
+
+  function claim(db: Firestore, uid: string) {
+    return updateDoc(doc(db, "chats", GROUP_ID, "messages", "legacy"), { senderId: uid });
+  }
+
+  it("lets the owner of the old name claim the message", async () => {
+    await assertSucceeds(claim(signedInAs(env, ALICE), ALICE.uid));
+  });
+
+  it("rejects claims by anyone else", async () => {
+    await assertFails(claim(signedInAs(env, BOB), BOB.uid));
+    await assertFails(claim(signedInAs(env, BOB), ALICE.uid));
+  });
+
+  it("rejects changing anything else in the same write", async () => {
+    await assertFails(
+      updateDoc(doc(signedInAs(env, ALICE), "chats", GROUP_ID, "messages", "legacy"), {
+        senderId: ALICE.uid,
+        text: "rewritten",
+      })
+    );
+  });
+
+  it("lets only the owner of the old name list its legacy messages", async () => {
+    const legacyQuery = (db: Firestore) =>
+      getDocs(query(collectionGroup(db, "messages"), where("senderName", "==", "oldalice")));
+
+    await assertSucceeds(legacyQuery(signedInAs(env, ALICE)));
+    await assertFails(legacyQuery(signedInAs(env, BOB)));
+  });
+});
+
+/**
+ * Seeds a message from Alice as deleted
+ * @param messageId - ID of the message
+ * @param deletedBy - uid of whoever deleted it
+ * @param deletedAt - When it was deleted
+ * @param purgeAfter - When its content may be purged
+ */
+async function seedDeleted(
+  messageId: string,
+  deletedBy: string,
+  deletedAt = fromNow(0),
+  purgeAfter = fromNow(30 * DAY)
+) {
+  await seed(env, {
+    [`chats/${GROUP_ID}/messages/${messageId}`]: {
+      senderId: ALICE.uid,
+      text: "deleted",
+      mediaUrl: "https://res.cloudinary.com/demo/image.png",
+      timestamp: fromNow(-31 * DAY),
+      deletedAt,
+      deletedBy,
+      purgeAfter,
+    },
+  });
+}
+
+/**
+ * Changes group settings as Alice, who owns the group
+ * @param updates - Fields to change
+ */
+async function updateDocAsOwner(updates: DocumentData) {
+  await updateDoc(doc(signedInAs(env, ALICE), "chats", GROUP_ID), updates);
+}
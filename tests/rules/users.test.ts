@@ -0,0 +1,267 @@
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  assertFails,
+  assertSucceeds,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  arrayUnion,
+  doc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+  type Firestore,
+} from "firebase/firestore";
+
+import {
+  ALICE,
+  BOB,
+  DAY,
+  GROUP_ID,
+  createTestEnvironment,
+  fromNow,
+  seed,
+  seedChats,
+  signedInAs,
+  signedOut,
+} from "./environment";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await createTestEnvironment();
+});
+
+afterAll(async () => {
+  await env?.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+  await seedChats(env);
+});
+
+/**
+ * Renames a user the way users.rename does: moves the reservation, drops
+ * any redirect on the new name and leaves one on the old name
+ */
+function rename(db: Firestore, uid: string, from: string, to: string) {
+  const batch = writeBatch(db);
+  batch.set(doc(db, "usernames", to), { uid, createdAt: serverTimestamp() });
+  batch.delete(doc(db, "usernames", from));
+  batch.delete(doc(db, "usernameRedirects", to));
+  batch.set(doc(db, "usernameRedirects", from), {
+    uid,
+    username: to,
+    expiresAt: fromNow(30 * DAY),
+  });
+  batch.update(doc(db, "users", uid), { username: to, usernameChangedAt: serverTimestamp() });
+  return batch.commit();
+}
+
+describe("signup", () => {
+  const dave = { uid: "dave", email: "dave@pagecord.test", username: "dave" };
+
+  function signUp(db: Firestore, username: string) {
+    const batch = writeBatch(db);
+    batch.set(doc(db, "usernames", username), { uid: dave.uid, createdAt: serverTimestamp() });
+    batch.set(doc(db, "users", dave.uid), {
+      ...dave,
+      username,
+      displayName: "Dave",
+      photoURL: "",
+      createdAt: serverTimestamp(),
+    });
+    return batch.commit();
+  }
+
+  it("creates a profile together with its username reservation", async () => {
+    await assertSucceeds(signUp(signedInAs(env, dave), "dave"));
+  });
+
+  it("rejects names that are taken, reserved or malformed", async () => {
+    const db = signedInAs(env, dave);
+
+    await assertFails(signUp(db, ALICE.username));
+    await assertFails(signUp(db, "admin"));
+    await assertFails(signUp(db, "Not Valid"));
+  });
+
+  it("rejects a profile without a reservation", async () => {
+    await assertFails(
+      setDoc(doc(signedInAs(env, dave), "users", dave.uid), { ...dave, photoURL: "" })
+    );
+  });
+
+  it("rejects a profile under someone else's email", async () => {
+    const db = signedInAs(env, dave);
+    const batch = writeBatch(db);
+    batch.set(doc(db, "usernames", "dave"), { uid: dave.uid, createdAt: serverTimestamp() });
+    batch.set(doc(db, "users", dave.uid), {
+      ...dave,
+      email: ALICE.email,
+      displayName: "Dave",
+      photoURL: "",
+      createdAt: serverTimestamp(),
+    });
+
+    await assertFails(batch.commit());
+  });
+
+  it("rejects signing up before signing in", async () => {
+    await assertFails(signUp(signedOut(env), "dave"));
+  });
+});
+
+describe("username changes and redirects", () => {
+  it("lets a user rename, leaving a redirect on the old name", async () => {
+    await assertSucceeds(rename(signedInAs(env, ALICE), ALICE.uid, ALICE.username, "alice2"));
+  });
+
+  it("rejects taking someone else's name", async () => {
+    await assertFails(rename(signedInAs(env, ALICE), ALICE.uid, ALICE.username, BOB.username));
+  });
+
+  it("rejects a redirect on a name the writer doesn't hold", async () => {
+    // A reserved name, a name no longer reserved, and a legacy name never reserved
+    await seed(env, {
+      "usernameRedirects/graced": { uid: BOB.uid, username: BOB.username, expiresAt: fromNow(DAY) },
+    });
+    const db = signedInAs(env, ALICE);
+    const redirect = (username: string) =>
+      setDoc(doc(db, "usernameRedirects", username), {
+        uid: ALICE.uid,
+        username: ALICE.username,
+        expiresAt: fromNow(30 * DAY),
+      });
+
+    await assertFails(redirect(BOB.username));
+    await assertFails(redirect("graced"));
+    await assertFails(redirect("legacyname"));
+  });
+
+  it("rejects a redirect on the writer's current name outside a rename", async () => {
+    await assertFails(
+      setDoc(doc(signedInAs(env, ALICE), "usernameRedirects", ALICE.username), {
+        uid: ALICE.uid,
+        username: "alice2",
+        expiresAt: fromNow(30 * DAY),
+      })
+    );
+  });
+
+  it("lets whoever claims a name drop the redirect on it", async () => {
+    await seed(env, {
+      "usernameRedirects/alice2": { uid: BOB.uid, username: BOB.username, expiresAt: fromNow(DAY) },
+    });
+
+    await assertSucceeds(rename(signedInAs(env, ALICE), ALICE.uid, ALICE.username, "alice2"));
+  });
+});
+
+describe("profile settings", () => {
+  it("lets a user change their own privacy settings and muted chats", async () => {
+    await assertSucceeds(
+      updateDoc(doc(signedInAs(env, ALICE), "users", ALICE.uid), {
+        "privacy.readReceipts": false,
+        mutedChats: arrayUnion(GROUP_ID),
+      })
+    );
+  });
+
+  it("rejects unknown privacy settings", async () => {
+    await assertFails(
+      updateDoc(doc(signedInAs(env, ALICE), "users", ALICE.uid), { "privacy.isAdmin": true })
+    );
+  });
+
+  it("rejects changing the email on a profile", async () => {
+    await assertFails(
+      updateDoc(doc(signedInAs(env, ALICE), "users", ALICE.uid), { email: BOB.email })
+    );
+  });
+
+  it("rejects changes to someone else's profile", async () => {
+    const db = signedInAs(env, BOB);
+
+    await assertFails(updateDoc(doc(db, "users", ALICE.uid), { mutedChats: [] }));
+    await assertFails(updateDoc(doc(db, "users", ALICE.uid), { displayName: "Bob" }));
+    await assertFails(updateDoc(doc(db, "users", ALICE.uid), { photoURL: "https://example.com/bob.png" }));
+  });
+});
+
+describe("presence", () => {
+  const presence = {
+    sessions: { tab: { state: "online", heartbeatAt: serverTimestamp() } },
+    lastActiveAt: serverTimestamp(),
+  };
+
+  it("lets a user report their own presence", async () => {
+    await assertSucceeds(setDoc(doc(signedInAs(env, ALICE), "presence", ALICE.uid), presence));
+  });
+
+  it("rejects reporting someone else's presence", async () => {
+    await assertFails(setDoc(doc(signedInAs(env, BOB), "presence", ALICE.uid), presence));
+  });
+
+  it("rejects extra fields", async () => {
+    await assertFails(
+      setDoc(doc(signedInAs(env, ALICE), "presence", ALICE.uid), { ...presence, status: "busy" })
+    );
+  });
+});
+
+describe("read markers", () => {
+  const marker = { messageId: "hello", timestamp: fromNow(0) };
+
+  it("lets a user move their own read marker", async () => {
+    await assertSucceeds(
+      setDoc(doc(signedInAs(env, ALICE), "users", ALICE.uid, "readMarkers", GROUP_ID), marker)
+    );
+  });
+
+  it("rejects writing someone else's read marker", async () => {
+    await assertFails(
+      setDoc(doc(signedInAs(env, BOB), "users", ALICE.uid, "readMarkers", GROUP_ID), marker)
+    );
+  });
+
+  it("rejects extra fields", async () => {
+    await assertFails(
+      setDoc(doc(signedInAs(env, ALICE), "users", ALICE.uid, "readMarkers", GROUP_ID), {
+        ...marker,
+        count: 3,
+      })
+    );
+  });
+});
+
+describe("push subscriptions", () => {
+  const subscription = {
+    endpoint: "https://fcm.googleapis.com/fcm/send/device",
+    keys: { p256dh: "key", auth: "secret" },
+    updatedAt: serverTimestamp(),
+  };
+
+  it("lets a user store a subscription for their device", async () => {
+    await assertSucceeds(
+      setDoc(doc(signedInAs(env, ALICE), "users", ALICE.uid, "pushSubscriptions", "d1"), subscription)
+    );
+  });
+
+  it("rejects storing one for someone else", async () => {
+    await assertFails(
+      setDoc(doc(signedInAs(env, BOB), "users", ALICE.uid, "pushSubscriptions", "d1"), subscription)
+    );
+  });
+
+  it("rejects endpoints that aren't https", async () => {
+    await assertFails(
+      setDoc(doc(signedInAs(env, ALICE), "users", ALICE.uid, "pushSubscriptions", "d1"), {
+        ...subscription,
+        endpoint: "http://internal.example/push",
+      })
+    );
+  });
+});
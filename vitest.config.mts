@@ -0,0 +1,33 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    projects: [
+      {
+        extends: true,
+        test: {
+          name: "unit",
+          include: ["src/**/*.test.ts"],
+          environment: "node",
+          // The data layer runs against createMemoryBackend(); demo mode
+          // gives the Firebase SDK a config it can load without a project
+          env: { NEXT_PUBLIC_DEMO_MODE: "true" },
+        },
+      },
+      {
+        extends: true,
+        test: {
+          name: "rules",
+          include: ["tests/rules/**/*.test.ts"],
+          // Every file shares the one emulator database
+          fileParallelism: false,
+          testTimeout: 20_000,
+        },
+      },
+    ],
+  },
+});